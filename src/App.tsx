@@ -1,7 +1,26 @@
 import "./index.css";
 import { GalacticToast } from "./GalacticToast";
+import { TrophyRoom } from "./TrophyRoom";
+import { WatchIndex, WatchRun } from "./Watch";
+
+// The server hands every page route the same bundle; spectator pages are
+// told apart here.
+const WATCH_PATH = /^\/watch(?:\/([a-z0-9]+))?\/?$/;
 
 export function App() {
+  const watch = WATCH_PATH.exec(location.pathname);
+  if (watch) {
+    return (
+      <div className="app">
+        <main className="main-layout">
+          <section className="game-card">
+            {watch[1] ? <WatchRun id={watch[1]} /> : <WatchIndex />}
+          </section>
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="app">
       <main className="main-layout">
@@ -19,10 +38,11 @@ export function App() {
           <div className="panel-block">
             <h2>Como jogar</h2>
             <p className="compact">
-              Setas/WASD: mover | Espaco: atirar | Enter: reinicia | Esc:
-              encerra | Touch: direcional + Torrar
+              Setas/WASD: mover | Espaco: atirar | Enter: inicia | P/Esc:
+              pausa | Touch: direcional + Torrar
             </p>
           </div>
+          <TrophyRoom />
         </aside>
       </main>
     </div>
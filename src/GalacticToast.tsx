@@ -1,298 +1,504 @@
-import { useEffect, useRef, useState } from "react";
+import { Fragment, useEffect, useRef, useState } from "react";
 import type { PointerEvent as ReactPointerEvent } from "react";
 
-import backgroundUrl from "../assets/img/space.jpg";
-import toasterUrl from "../assets/img/torradeira.png";
-import toastUrl from "../assets/img/toast_small.png";
-import asteroidUrl from "../assets/img/Asteroid.png";
 import shotSoundUrl from "../assets/sounds/tiro.wav";
 import hitSoundUrl from "../assets/sounds/point.wav";
 import gameOverSoundUrl from "../assets/sounds/game_over.wav";
 import musicUrl from "../assets/sounds/background_music.mp3";
 
-const WIDTH = 800;
-const HEIGHT = 600;
-
-const PLAYER_SPEED = 320;
-const SHOT_SPEED = 640;
-const BASE_ENEMY_SPEED = 180;
-const MAX_ENEMY_SPEED = 420;
-
-const BASE_SPAWN_MS = 1100;
-const MIN_SPAWN_MS = 350;
-
-const SHOT_COOLDOWN_MS = 250;
-const INVULNERABLE_MS = 1000;
-
-const MAX_SHOTS_BASE = 2;
-const MAX_SHOTS_CAP = 6;
-
-const LIVES_START = 3;
-
-const COMBO_WINDOW_MS = 2400;
-
-const POWERUP_DROP_BASE = 0.12;
-const POWERUP_DROP_COMBO_BONUS = 0.03;
-const POWERUP_SPEED = 140;
-const POWERUP_SIZE = 30;
-
-const BOOST_MULTIPLIER = 1.35;
-const BOOST_DURATION_MS = 6000;
-
-const BURST_COOLDOWN_MS = 140;
-const BURST_DURATION_MS = 6000;
-const BURST_BONUS_SHOTS = 2;
-const BURST_SPREAD_SPEED = 140;
-const BURST_SPREAD_OFFSET = 10;
-
-const SLOW_DURATION_MS = 5200;
-const SLOW_MULTIPLIER = 0.7;
-
-const SHIELD_CAP = 2;
-
-const clamp = (value: number, min: number, max: number) =>
-  Math.min(Math.max(value, min), max);
-
-const spawnInterval = (score: number) =>
-  Math.max(MIN_SPAWN_MS, BASE_SPAWN_MS - Math.floor(score / 10) * 80);
-
-const enemySpeed = (score: number) =>
-  Math.min(MAX_ENEMY_SPEED, BASE_ENEMY_SPEED + Math.floor(score / 5) * 12);
-
-const randomBetween = (min: number, max: number) =>
-  Math.floor(Math.random() * (max - min + 1)) + min;
-
-const rectsIntersect = (a: Rect, b: Rect) =>
-  a.x < b.x + b.width &&
-  a.x + a.width > b.x &&
-  a.y < b.y + b.height &&
-  a.y + a.height > b.y;
-
-const loadImage = (url: string) =>
-  new Promise<HTMLImageElement>((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => resolve(img);
-    img.onerror = () => reject(new Error(`Failed to load ${url}`));
-    img.src = url;
+import {
+  HEIGHT,
+  MAX_TICKS_PER_FRAME,
+  TICK_SECONDS,
+  WIDTH,
+} from "./game/constants";
+import { dailyKey, dailySeed, msUntilNextDaily } from "./game/daily";
+import {
+  CUSTOM_LIMITS,
+  DIFFICULTY_LABELS,
+  defaultDifficulty,
+  presetDifficulty,
+} from "./game/difficulty";
+import type {
+  Difficulty,
+  DifficultyId,
+  DifficultySetting,
+} from "./game/difficulty";
+import { createAchievementTracker } from "./game/achievements";
+import type { Achievement, AchievementTracker } from "./game/achievements";
+import { createEventBus } from "./game/events";
+import { createFixedStep } from "./game/fixedStep";
+import { interpolateState } from "./game/interpolate";
+import { LEVELS } from "./game/levels";
+import {
+  PLAY_MODES,
+  PLAY_MODE_IDS,
+  formatRunScore,
+} from "./game/modes";
+import type { PlayModeId, RunOutcome } from "./game/modes";
+import {
+  createReplayPlayer,
+  createReplayRecorder,
+  parseReplay,
+  serializeReplay,
+} from "./game/replay";
+import type {
+  Replay,
+  ReplayPlayer,
+  ReplayRecorder,
+  RunSetup,
+} from "./game/replay";
+import { createRng, randomSeed } from "./game/rng";
+import type { Rng } from "./game/rng";
+import {
+  ammoFor,
+  createGameState,
+  emptyControls,
+  stepGame,
+} from "./game/simulation";
+import type { Controls, GameEvent, GameState } from "./game/types";
+import { validateLevel } from "./game/waves";
+import type { Level } from "./game/waves";
+import {
+  loadAchievementProgress,
+  saveAchievementProgress,
+} from "./achievements";
+import { startBroadcast } from "./broadcast";
+import {
+  canFullscreen,
+  isPortrait,
+  subscribeFullscreen,
+  subscribePortrait,
+  toggleFullscreen,
+  watchCanvasResolution,
+} from "./display";
+import { createEffects, loadReducedMotion, saveReducedMotion } from "./effects";
+import type { Effects } from "./effects";
+import type { BroadcastConnection, BroadcastStatus } from "./broadcast";
+import { hasPlayedDaily, markDailyPlayed } from "./dailyChallenge";
+import {
+  fetchBoardGhost,
+  ghostRace,
+  loadPersonalBest,
+  loadPickedGhost,
+  savePersonalBest,
+  savePickedGhost,
+} from "./ghosts";
+import type { Ghost } from "./ghosts";
+import { loadAssets } from "./assets";
+import type { AssetManifest, LoadProgress } from "./assets";
+import {
+  RENDERER_LABELS,
+  SCENE_ASSETS,
+  canUseWebgl,
+  createRenderer,
+  loadRendererChoice,
+  saveRendererChoice,
+} from "./renderer";
+import type { RendererKind, SceneAssets } from "./renderer";
+import { mergeControls, readGamepad } from "./gamepads";
+import {
+  connectRoom,
+  createRoom,
+  leadTicks,
+  predictFromSnapshot,
+} from "./onlineRoom";
+import type { RoomConnection, RoomStatus } from "./onlineRoom";
+import { loadHighScores, saveHighScore } from "./highScores";
+import type { HighScore } from "./highScores";
+import { ReplayControls } from "./ReplayControls";
+import type { ReplayView } from "./ReplayControls";
+import {
+  errorMessage,
+  fetchTopScores,
+  loadPlayerId,
+  loadPlayerName,
+  savePlayerName,
+  submitScore,
+} from "./scoresApi";
+import type { ScoreUpload } from "./scoresApi";
+import {
+  MAX_PLAYER_NAME_LENGTH,
+  MAX_ROOM_PLAYERS,
+  MIN_ROOM_PLAYERS,
+  ROOM_CODE_PATTERN,
+} from "./server/rooms";
+import type {
+  RoomMember,
+  RoomPhase,
+  ServerMessage,
+  SnapshotMessage,
+} from "./server/rooms";
+import type { LeaderboardPeriod, ScoreEntry } from "./server/scoreStore";
+
+const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([serializeReplay(replay)], {
+    type: "application/json",
   });
-
-const createAudio = (url: string, volume: number, loop = false) => {
-  const audio = new Audio(url);
-  audio.preload = "auto";
-  audio.volume = volume;
-  audio.loop = loop;
-  return audio;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `galactic-toast-replay-${replay.recordedAt.replace(/[:.]/g, "-")}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
 };
 
-type GameMode = "ready" | "playing" | "gameover";
+// Which ghost, if any, the next run races.
+type GhostChoice = "off" | "best" | "picked";
 
-type Rect = {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
+const BOARD_PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  daily: "Hoje",
+  weekly: "Semana",
+  all: "Geral",
 };
 
-type Player = Rect & {
-  speed: number;
-  maxShots: number;
-  lastShotMs: number;
-  invulnerableUntil: number;
-  shield: number;
+type GameMode =
+  | "ready"
+  | "playing"
+  | "paused"
+  | "gameover"
+  | "replay"
+  // Online room: waiting in the lobby, or playing a server-run field.
+  | "lobby"
+  | "online";
+
+type OnlineView = {
+  code: string;
+  status: RoomStatus;
+  error: string | null;
+  phase: RoomPhase;
+  members: RoomMember[];
+  host: number;
+  you: number;
 };
 
-type Shot = Rect & {
-  velocityX: number;
-  velocityY: number;
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds]
+    .map(part => String(part).padStart(2, "0"))
+    .join(":");
 };
 
-type EnemyKind = "drifter" | "zigzag" | "armored" | "splitter" | "shard";
-
-type Enemy = Rect & {
-  speed: number;
-  kind: EnemyKind;
-  hp: number;
-  baseY: number;
-  waveAmplitude: number;
-  waveFrequency: number;
-  wavePhase: number;
-  sizeScale: number;
+const MUSIC_VOLUME = 0.5;
+const MUSIC_DUCKED_VOLUME = 0.15;
+// How often a broadcast run sends its new inputs to spectators.
+const BROADCAST_FLUSH_MS = 250;
+const UNLOCK_NOTICE_MS = 4000;
+
+// The game plays fine muted, so no sound holds up the start.
+const SOUND_ASSETS = {
+  shotSound: { type: "sound", url: shotSoundUrl, volume: 0.7, optional: true },
+  hitSound: { type: "sound", url: hitSoundUrl, volume: 0.6, optional: true },
+  gameOverSound: {
+    type: "sound",
+    url: gameOverSoundUrl,
+    volume: 0.7,
+    optional: true,
+  },
+  music: {
+    type: "sound",
+    url: musicUrl,
+    volume: MUSIC_VOLUME,
+    loop: true,
+    optional: true,
+  },
+} as const satisfies AssetManifest;
+
+type Assets = SceneAssets & {
+  sounds: {
+    shot: HTMLAudioElement | null;
+    hit: HTMLAudioElement | null;
+    gameOver: HTMLAudioElement | null;
+    music: HTMLAudioElement | null;
+  };
 };
 
-type PowerUpKind = "boost" | "burst" | "shield" | "slow";
+type SubmitStatus =
+  | { state: "idle" }
+  | { state: "sending" }
+  | { state: "sent"; rank: number; total: number }
+  | { state: "error"; message: string };
 
-type PowerUp = Rect & {
-  speed: number;
-  kind: PowerUpKind;
+type PlayerStats = {
+  ammo: number;
+  shield: number;
 };
 
-type GameState = {
+type Stats = {
   score: number;
   lives: number;
-  lastSpawnMs: number;
-  nextShotUpgrade: number;
   combo: number;
-  comboExpiresAt: number;
-  boostUntil: number;
-  burstUntil: number;
-  slowUntil: number;
-  player: Player;
-  shots: Shot[];
-  enemies: Enemy[];
-  powerUps: PowerUp[];
+  players: PlayerStats[];
 };
 
-type Controls = {
-  up: boolean;
-  down: boolean;
-  left: boolean;
-  right: boolean;
-  shoot: boolean;
-};
+const statsFor = (state: GameState): Stats => ({
+  score: state.score,
+  lives: state.lives,
+  combo: state.combo,
+  players: state.players.map((player, index) => ({
+    ammo: ammoFor(state, index),
+    shield: player.shield,
+  })),
+});
+
+const sameStats = (a: Stats, b: Stats) =>
+  a.score === b.score &&
+  a.lives === b.lives &&
+  a.combo === b.combo &&
+  a.players.length === b.players.length &&
+  a.players.every(
+    (player, index) =>
+      player.ammo === b.players[index]!.ammo &&
+      player.shield === b.players[index]!.shield
+  );
 
-type Assets = {
-  background: HTMLImageElement;
-  player: HTMLImageElement;
-  shot: HTMLImageElement;
-  enemy: HTMLImageElement;
-  sounds: {
-    shot: HTMLAudioElement;
-    hit: HTMLAudioElement;
-    gameOver: HTMLAudioElement;
-    music: HTMLAudioElement;
+// Held keys for both toasters; solo runs only read the first entry.
+const idleControls = () => [emptyControls(), emptyControls()];
+
+// In co-op, WASD + Space drive P1 and the arrows (+ Enter to fire) drive P2.
+// Solo runs accept both sets for P1.
+const KEY_BINDINGS: Record<string, { key: keyof Controls; coopPlayer: number }> =
+  {
+    KeyW: { key: "up", coopPlayer: 0 },
+    KeyS: { key: "down", coopPlayer: 0 },
+    KeyA: { key: "left", coopPlayer: 0 },
+    KeyD: { key: "right", coopPlayer: 0 },
+    Space: { key: "shoot", coopPlayer: 0 },
+    ArrowUp: { key: "up", coopPlayer: 1 },
+    ArrowDown: { key: "down", coopPlayer: 1 },
+    ArrowLeft: { key: "left", coopPlayer: 1 },
+    ArrowRight: { key: "right", coopPlayer: 1 },
   };
-};
-
-type Stats = {
-  score: number;
-  lives: number;
-  ammo: number;
-  combo: number;
-  shield: number;
-};
 
-const POWERUP_STYLES: Record<
-  PowerUpKind,
-  { label: string; fill: string; stroke: string }
-> = {
-  boost: { label: "T", fill: "rgba(88, 211, 192, 0.9)", stroke: "#2fb7a3" },
-  burst: { label: "R", fill: "rgba(244, 195, 122, 0.9)", stroke: "#d08a43" },
-  shield: { label: "S", fill: "rgba(90, 160, 255, 0.9)", stroke: "#3f7ad8" },
-  slow: { label: "L", fill: "rgba(226, 93, 111, 0.85)", stroke: "#b94a5b" },
+const ROOM_STATUS_LABELS: Record<RoomStatus, string> = {
+  connecting: "Conectando...",
+  open: "Conectado",
+  reconnecting: "Reconectando...",
+  closed: "Conexao encerrada.",
 };
 
 export function GalacticToast() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  // Goes fullscreen as a whole, so the touch controls come along.
+  const shellRef = useRef<HTMLDivElement | null>(null);
   const assetsRef = useRef<Assets | null>(null);
   const modeRef = useRef<GameMode>("ready");
   const gameRef = useRef<GameState | null>(null);
-  const controlsRef = useRef<Controls>({
-    up: false,
-    down: false,
-    left: false,
-    right: false,
-    shoot: false,
+  // The tick before gameRef, kept so drawing can interpolate between them.
+  const previousGameRef = useRef<GameState | null>(null);
+  const clockRef = useRef(createFixedStep());
+  // Every step's events go through here; see the subscriptions below.
+  const eventsRef = useRef(createEventBus());
+  const achievementsRef = useRef<AchievementTracker | null>(null);
+  const effectsRef = useRef<Effects | null>(null);
+  const reducedMotionRef = useRef(loadReducedMotion());
+  // Seed of the current run; the starfield is drawn from it.
+  const seedRef = useRef(randomSeed());
+  const rngRef = useRef<Rng>(createRng(seedRef.current));
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const broadcastRef = useRef<BroadcastConnection | null>(null);
+  // Ticks of the current run already streamed, and when that last happened.
+  const broadcastSentRef = useRef({ tick: 0, atMs: 0 });
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null);
+  const replayPlaybackRef = useRef({ playing: true, speed: 1 });
+  const previousReplayStateRef = useRef<GameState | null>(null);
+  // Fast-forwarding at 4x legitimately needs four times the ticks per frame.
+  const replayClockRef = useRef(
+    createFixedStep(TICK_SECONDS, MAX_TICKS_PER_FRAME * 4)
+  );
+  const replayReturnModeRef = useRef<GameMode>("ready");
+  const replayInputRef = useRef<HTMLInputElement | null>(null);
+  // Scripted level for the next run; null plays the endless generator.
+  const levelRef = useRef<Level | null>(null);
+  const levelInputRef = useRef<HTMLInputElement | null>(null);
+  const difficultyRef = useRef<DifficultySetting>(defaultDifficulty());
+  const playModeRef = useRef<PlayModeId>("endless");
+  // Day of the daily challenge being played, or null for a regular run.
+  const dailyRef = useRef<string | null>(null);
+  // False when today's ranked challenge attempt was already used, and for
+  // ghost races, whose seed is known in advance.
+  const rankedRef = useRef(true);
+  const ghostChoiceRef = useRef<GhostChoice>("off");
+  // The ghost raced in the current run; its setup and seed replace the
+  // pickers' the way the daily challenge does.
+  const ghostRef = useRef<{
+    label: string;
+    player: ReplayPlayer;
+    previous: GameState | null;
+  } | null>(null);
+  const coopRef = useRef(false);
+  const roomRef = useRef<RoomConnection | null>(null);
+  // Latest authoritative snapshot and what the local prediction runs on
+  // until the next one lands.
+  const onlineRef = useRef<{
+    you: number;
+    snapshot: SnapshotMessage | null;
+    rng: Rng;
+    controls: Controls[];
+    events: GameEvent[];
+  }>({
+    you: 0,
+    snapshot: null,
+    rng: createRng(0),
+    controls: [],
+    events: [],
   });
+  const controlsRef = useRef<Controls[]>(idleControls());
   const lastTimeRef = useRef(0);
   const rafRef = useRef<number | null>(null);
   const audioUnlockedRef = useRef(false);
-  const statsRef = useRef<Stats>({
-    score: 0,
-    lives: LIVES_START,
-    ammo: MAX_SHOTS_BASE,
-    combo: 0,
-    shield: 0,
-  });
+  const statsRef = useRef<Stats>(
+    statsFor(createGameState({ difficulty: difficultyRef.current.values }))
+  );
 
   const [assetsReady, setAssetsReady] = useState(false);
   const [loadingError, setLoadingError] = useState<string | null>(null);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress>({
+    loaded: 0,
+    total: 0,
+  });
+  // Bumped by "Tentar de novo" to run the asset load again.
+  const [loadAttempt, setLoadAttempt] = useState(0);
   const [mode, setMode] = useState<GameMode>("ready");
   const [stats, setStats] = useState<Stats>(statsRef.current);
   const [lastScore, setLastScore] = useState(0);
+  const [lastEnding, setLastEnding] = useState<{
+    outcome: RunOutcome;
+    mode: PlayModeId;
+  }>({ outcome: "lost", mode: "endless" });
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [replayView, setReplayView] = useState<ReplayView | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [levels, setLevels] = useState<Level[]>(LEVELS);
+  const [levelId, setLevelId] = useState("endless");
+  const [levelError, setLevelError] = useState<string | null>(null);
+  const [difficulty, setDifficulty] = useState<DifficultySetting>(
+    difficultyRef.current
+  );
+  const [playMode, setPlayMode] = useState<PlayModeId>(playModeRef.current);
+  const [coop, setCoop] = useState(coopRef.current);
+  const [broadcast, setBroadcast] = useState<{
+    status: BroadcastStatus;
+    id: string | null;
+  } | null>(null);
+  const [ghostChoice, setGhostChoice] = useState<GhostChoice>(
+    ghostChoiceRef.current
+  );
+  const [pickedGhost, setPickedGhost] = useState(loadPickedGhost);
+  const [ghostError, setGhostError] = useState<string | null>(null);
+  const [hasPersonalBest, setHasPersonalBest] = useState(false);
+  // Bumped when a new personal best is saved, so the picker re-reads it.
+  const [bestVersion, setBestVersion] = useState(0);
+  const [reducedMotion, setReducedMotion] = useState(reducedMotionRef.current);
+  const [fullscreen, setFullscreen] = useState(false);
+  const [rendererChoice, setRendererChoice] = useState(loadRendererChoice);
+  // No WebGL in this browser, or the context was lost mid-run.
+  const [webglFailed, setWebglFailed] = useState(() => !canUseWebgl());
+  // Shown on touch devices held upright, until turned or waved away.
+  const [rotatePrompt, setRotatePrompt] = useState(isPortrait);
+  // Unlock notices on screen, oldest first.
+  const [unlocks, setUnlocks] = useState<Achievement[]>([]);
+  const [online, setOnline] = useState<OnlineView | null>(null);
+  const [roomCode, setRoomCode] = useState("");
+  const [roomError, setRoomError] = useState<string | null>(null);
+  const [highScores, setHighScores] = useState<HighScore[]>(() =>
+    loadHighScores(difficultyRef.current.id, playModeRef.current)
+  );
+  const [newRecordRank, setNewRecordRank] = useState<number | null>(null);
+  // The finished run, ready to post to the online leaderboard.
+  const [lastRun, setLastRun] = useState<Omit<
+    ScoreUpload,
+    "name" | "playerId"
+  > | null>(null);
+  const [playerName, setPlayerName] = useState(loadPlayerName);
+  const [submitStatus, setSubmitStatus] = useState<SubmitStatus>({
+    state: "idle",
+  });
+  const [clockMs, setClockMs] = useState(Date.now);
+  const [dailyBoard, setDailyBoard] = useState<ScoreEntry[] | null>(null);
+  // Top ranked runs for the selected difficulty, any of which can be raced.
+  const [boardPeriod, setBoardPeriod] = useState<LeaderboardPeriod>("all");
+  const [topBoard, setTopBoard] = useState<ScoreEntry[] | null>(null);
+  const [lastRunDaily, setLastRunDaily] = useState<{
+    day: string;
+    ranked: boolean;
+  } | null>(null);
 
   const setModeSafe = (next: GameMode) => {
     modeRef.current = next;
     setMode(next);
   };
 
-  const syncStats = (state: GameState, nowMs: number) => {
-    const bonusShots = nowMs < state.burstUntil ? BURST_BONUS_SHOTS : 0;
-    const maxShots = state.player.maxShots + bonusShots;
-    const nextStats = {
-      score: state.score,
-      lives: state.lives,
-      ammo: Math.max(maxShots - state.shots.length, 0),
-      combo: state.combo,
-      shield: state.player.shield,
-    };
-
-    const prev = statsRef.current;
-    if (
-      prev.score !== nextStats.score ||
-      prev.lives !== nextStats.lives ||
-      prev.ammo !== nextStats.ammo ||
-      prev.combo !== nextStats.combo ||
-      prev.shield !== nextStats.shield
-    ) {
+  const syncStats = (state: GameState) => {
+    const nextStats = statsFor(state);
+    if (!sameStats(statsRef.current, nextStats)) {
       statsRef.current = nextStats;
       setStats(nextStats);
     }
   };
 
-  const resetGame = (nowMs: number) => {
-    const assets = assetsRef.current;
-    if (!assets) {
-      return;
+  // The daily challenge ignores the level, difficulty, mode and co-op
+  // pickers, and a ghost race plays whatever the ghost played.
+  const runSetup = (): Required<RunSetup> => {
+    if (dailyRef.current) {
+      return {
+        level: null,
+        difficulty: presetDifficulty("normal"),
+        mode: "endless",
+        coop: false,
+        daily: dailyRef.current,
+      };
     }
-
-    const playerWidth = assets.player.width;
-    const playerHeight = assets.player.height;
-
-    const player: Player = {
-      x: 80 - playerWidth / 2,
-      y: HEIGHT / 2 - playerHeight / 2,
-      width: playerWidth,
-      height: playerHeight,
-      speed: PLAYER_SPEED,
-      maxShots: MAX_SHOTS_BASE,
-      lastShotMs: 0,
-      invulnerableUntil: 0,
-      shield: 0,
+    const ghost = ghostRef.current?.player.replay;
+    if (ghost) {
+      return ghostRace(ghost).setup;
+    }
+    return {
+      level: levelRef.current,
+      difficulty: difficultyRef.current,
+      mode: playModeRef.current,
+      coop: coopRef.current,
+      daily: null,
     };
+  };
 
-    const state: GameState = {
-      score: 0,
-      lives: LIVES_START,
-      lastSpawnMs: nowMs,
-      nextShotUpgrade: 15,
-      combo: 0,
-      comboExpiresAt: 0,
-      boostUntil: 0,
-      burstUntil: 0,
-      slowUntil: 0,
-      player,
-      shots: [],
-      enemies: [],
-      powerUps: [],
-    };
+  const resolveGhost = (): Ghost | null => {
+    switch (ghostChoiceRef.current) {
+      case "best":
+        return loadPersonalBest({
+          difficulty: difficultyRef.current.id,
+          mode: playModeRef.current,
+          levelId: levelRef.current?.id ?? null,
+        });
+      case "picked":
+        return loadPickedGhost();
+      default:
+        return null;
+    }
+  };
 
+  const resetGame = (seed = randomSeed()) => {
+    const setup = runSetup();
+    const state = createGameState({
+      level: setup.level,
+      difficulty: setup.difficulty.values,
+      mode: setup.mode,
+      players: setup.coop ? 2 : 1,
+    });
     gameRef.current = state;
-    controlsRef.current = {
-      up: false,
-      down: false,
-      left: false,
-      right: false,
-      shoot: false,
-    };
-    statsRef.current = {
-      score: 0,
-      lives: LIVES_START,
-      ammo: MAX_SHOTS_BASE,
-      combo: 0,
-      shield: 0,
-    };
+    previousGameRef.current = null;
+    clockRef.current.reset();
+    seedRef.current = seed;
+    rngRef.current = createRng(seed);
+    controlsRef.current = idleControls();
+    statsRef.current = statsFor(state);
     setStats(statsRef.current);
     setLastScore(0);
+    achievementsRef.current?.startRun();
+    effectsRef.current?.clear();
   };
 
   const stopMusic = () => {
@@ -317,712 +523,871 @@ export function GalacticToast() {
     instance.play().catch(() => undefined);
   };
 
-  const startGame = () => {
-    if (!assetsReady) {
-      return;
-    }
-    const nowMs = performance.now();
-    resetGame(nowMs);
+  const startMusic = () => {
     audioUnlockedRef.current = true;
     const music = assetsRef.current?.sounds.music;
     if (music) {
       music.currentTime = 0;
+      music.volume = MUSIC_VOLUME;
       music.play().catch(() => undefined);
     }
+  };
+
+  const startGame = (daily: string | null = null) => {
+    if (!assetsReady) {
+      return;
+    }
+    dailyRef.current = daily;
+    // The challenge has its own seed, so it is never raced.
+    const ghost = daily ? null : resolveGhost();
+    ghostRef.current = ghost && {
+      label: ghost.label,
+      player: createReplayPlayer(ghost.replay),
+      previous: null,
+    };
+    rankedRef.current = !ghost && (!daily || !hasPlayedDaily(daily));
+    if (daily) {
+      markDailyPlayed(daily);
+    }
+    const seed = daily
+      ? dailySeed(daily)
+      : ghost
+        ? ghostRace(ghost.replay).seed
+        : randomSeed();
+    resetGame(seed);
+    recorderRef.current = createReplayRecorder(seed, runSetup());
+    // finish() has no side effects, so it doubles as the run header.
+    broadcastRef.current?.run(recorderRef.current.finish(0));
+    broadcastSentRef.current = { tick: 0, atMs: performance.now() };
+    setNewRecordRank(null);
+    setLastRunDaily(daily ? { day: daily, ranked: rankedRef.current } : null);
+    setLastRun(null);
+    setSubmitStatus({ state: "idle" });
+    recorderRef.current.mark("start");
+    setReplayError(null);
+    startMusic();
     setModeSafe("playing");
   };
 
-  const exitGame = () => {
-    stopMusic();
-    setModeSafe("ready");
-    const nowMs = performance.now();
-    resetGame(nowMs);
+  // The simulation clock only moves while ticks run, so every *Until timer
+  // (power-ups, invulnerability, combo window) is frozen for free here.
+  const pauseGame = () => {
+    if (modeRef.current !== "playing") {
+      return;
+    }
+    controlsRef.current = idleControls();
+    recorderRef.current?.mark("pause");
+    const music = assetsRef.current?.sounds.music;
+    if (music) {
+      music.volume = MUSIC_DUCKED_VOLUME;
+    }
+    setModeSafe("paused");
   };
 
-  useEffect(() => {
-    let cancelled = false;
-    const loadAssets = async () => {
-      try {
-        const [background, player, shot, enemy] = await Promise.all([
-          loadImage(backgroundUrl),
-          loadImage(toasterUrl),
-          loadImage(toastUrl),
-          loadImage(asteroidUrl),
-        ]);
-
-        if ("fonts" in document) {
-          await document.fonts.load('16px "Space Grotesk"');
-          await document.fonts.load('14px "JetBrains Mono"');
-        }
+  const resumeGame = () => {
+    if (modeRef.current !== "paused") {
+      return;
+    }
+    recorderRef.current?.mark("resume");
+    const music = assetsRef.current?.sounds.music;
+    if (music) {
+      music.volume = MUSIC_VOLUME;
+    }
+    clockRef.current.reset();
+    setModeSafe("playing");
+  };
 
-        const sounds = {
-          shot: createAudio(shotSoundUrl, 0.7),
-          hit: createAudio(hitSoundUrl, 0.6),
-          gameOver: createAudio(gameOverSoundUrl, 0.7),
-          music: createAudio(musicUrl, 0.5, true),
-        };
+  // Streams whatever the recorder gained since the last flush.
+  const flushBroadcast = () => {
+    const recorder = recorderRef.current;
+    const sent = broadcastSentRef.current;
+    if (!broadcastRef.current || !recorder || recorder.tick === sent.tick) {
+      return;
+    }
+    broadcastRef.current.push(
+      recorder.inputsSince(sent.tick),
+      gameRef.current?.score ?? 0
+    );
+    broadcastSentRef.current = { tick: recorder.tick, atMs: performance.now() };
+  };
 
-        if (!cancelled) {
-          assetsRef.current = { background, player, shot, enemy, sounds };
-          setAssetsReady(true);
-          setLoadingError(null);
-          resetGame(performance.now());
-        }
-      } catch (error) {
-        if (!cancelled) {
-          setLoadingError(
-            error instanceof Error ? error.message : "Falha ao carregar assets."
-          );
-        }
+  const toggleBroadcast = (next: boolean) => {
+    broadcastRef.current?.stop();
+    broadcastRef.current = null;
+    if (!next) {
+      setBroadcast(null);
+      return;
+    }
+    const connection = startBroadcast(playerName.trim(), (status, id) => {
+      // A stale callback from a broadcast that was already switched off.
+      if (broadcastRef.current !== connection) {
+        return;
       }
-    };
+      if (status === "closed") {
+        broadcastRef.current = null;
+      }
+      setBroadcast({ status, id });
+    });
+    broadcastRef.current = connection;
+  };
 
-    loadAssets();
+  const finishRecording = (action: "exit" | "gameover", score: number) => {
+    const recorder = recorderRef.current;
+    if (!recorder) {
+      return null;
+    }
+    recorder.mark(action);
+    flushBroadcast();
+    broadcastRef.current?.over(score);
+    const replay = recorder.finish(score);
+    setLastReplay(replay);
+    recorderRef.current = null;
+    return replay;
+  };
 
-    return () => {
-      cancelled = true;
-    };
-  }, []);
+  const retryLoading = () => {
+    setLoadingError(null);
+    setLoadProgress({ loaded: 0, total: 0 });
+    setLoadAttempt(attempt => attempt + 1);
+  };
 
-  useEffect(() => {
-    if (!assetsReady) {
-      return;
+  const abandonRun = () => {
+    if (
+      (modeRef.current === "playing" || modeRef.current === "paused") &&
+      gameRef.current
+    ) {
+      finishRecording("exit", gameRef.current.score);
+    }
+    // Career counts from the abandoned run still count.
+    if (achievementsRef.current) {
+      saveAchievementProgress(achievementsRef.current.progress);
     }
+  };
 
-    const handleKey = (event: KeyboardEvent, isDown: boolean) => {
-      if (
-        event.code === "Space" ||
-        event.code.startsWith("Arrow") ||
-        event.code === "KeyW" ||
-        event.code === "KeyA" ||
-        event.code === "KeyS" ||
-        event.code === "KeyD"
-      ) {
-        event.preventDefault();
-      }
+  const exitGame = () => {
+    abandonRun();
+    dailyRef.current = null;
+    ghostRef.current = null;
+    stopMusic();
+    setModeSafe("ready");
+    resetGame();
+  };
 
-      switch (event.code) {
-        case "ArrowUp":
-        case "KeyW":
-          controlsRef.current.up = isDown;
-          break;
-        case "ArrowDown":
-        case "KeyS":
-          controlsRef.current.down = isDown;
-          break;
-        case "ArrowLeft":
-        case "KeyA":
-          controlsRef.current.left = isDown;
-          break;
-        case "ArrowRight":
-        case "KeyD":
-          controlsRef.current.right = isDown;
-          break;
-        case "Space":
-          controlsRef.current.shoot = isDown;
-          break;
-        case "Enter":
-          if (isDown && modeRef.current !== "playing") {
-            startGame();
-          }
-          break;
-        case "Escape":
-          if (isDown) {
-            exitGame();
+  // Restarting a challenge replays the same day, unranked from here on.
+  const restartGame = () => {
+    abandonRun();
+    startGame(dailyRef.current);
+  };
+
+  // Online runs are simulated by the server; the tab only predicts its own
+  // toaster ahead of the latest snapshot.
+  const handleRoomMessage = (message: ServerMessage) => {
+    const online = onlineRef.current;
+    switch (message.type) {
+      case "lobby": {
+        online.you = message.you;
+        setOnline(
+          prev =>
+            prev && {
+              ...prev,
+              error: null,
+              phase: message.phase,
+              members: message.members,
+              host: message.host,
+              you: message.you,
+            }
+        );
+        if (message.phase === "playing") {
+          if (modeRef.current !== "online") {
+            setLastScore(0);
+            achievementsRef.current?.startRun();
+            startMusic();
+            clockRef.current.reset();
+            setModeSafe("online");
           }
-          break;
-        default:
-          break;
+        } else if (modeRef.current === "online") {
+          setModeSafe("lobby");
+        }
+        break;
+      }
+      case "snapshot": {
+        online.snapshot = message;
+        seedRef.current = message.seed;
+        online.events.push(...message.events);
+        const own = mergeControls(controlsRef.current[0]!, readGamepad(0));
+        const predicted = predictFromSnapshot(
+          message,
+          online.you,
+          own,
+          leadTicks(roomRef.current?.latencyMs ?? 0)
+        );
+        previousGameRef.current = gameRef.current;
+        gameRef.current = predicted.state;
+        online.rng = predicted.rng;
+        online.controls = predicted.controls;
+        clockRef.current.reset();
+        break;
       }
+      case "error":
+        setOnline(
+          prev =>
+            prev && {
+              ...prev,
+              error: errorMessage(message.code, "Erro na sala."),
+            }
+        );
+        break;
+      default:
+        break;
+    }
+  };
+
+  const joinRoom = (rawCode: string) => {
+    const code = rawCode.trim().toUpperCase();
+    if (!ROOM_CODE_PATTERN.test(code)) {
+      setRoomError("Codigo de sala invalido.");
+      return;
+    }
+    roomRef.current?.leave();
+    setRoomError(null);
+    savePlayerName(playerName.trim());
+    onlineRef.current = {
+      you: 0,
+      snapshot: null,
+      rng: createRng(0),
+      controls: [],
+      events: [],
     };
+    controlsRef.current = idleControls();
+    setOnline({
+      code,
+      status: "connecting",
+      error: null,
+      phase: "lobby",
+      members: [],
+      host: 0,
+      you: 0,
+    });
+    // An empty name gets the server's default.
+    roomRef.current = connectRoom(code, playerName.trim(), {
+      onMessage: handleRoomMessage,
+      onStatus: (status, error) =>
+        setOnline(
+          prev =>
+            prev && {
+              ...prev,
+              status,
+              error: error ?? prev.error,
+            }
+        ),
+    });
+    setModeSafe("lobby");
+  };
 
-    const onKeyDown = (event: KeyboardEvent) => handleKey(event, true);
-    const onKeyUp = (event: KeyboardEvent) => handleKey(event, false);
+  const hostRoom = () => {
+    setRoomError(null);
+    createRoom()
+      .then(joinRoom)
+      .catch(error =>
+        setRoomError(
+          error instanceof Error ? error.message : "Falha ao criar sala."
+        )
+      );
+  };
 
-    window.addEventListener("keydown", onKeyDown);
-    window.addEventListener("keyup", onKeyUp);
+  const leaveRoom = () => {
+    roomRef.current?.leave();
+    roomRef.current = null;
+    onlineRef.current.snapshot = null;
+    setOnline(null);
+    stopMusic();
+    setModeSafe("ready");
+    resetGame();
+  };
 
-    return () => {
-      window.removeEventListener("keydown", onKeyDown);
-      window.removeEventListener("keyup", onKeyUp);
-    };
-  }, [assetsReady]);
+  const publishReplayView = (player: ReplayPlayer) => {
+    const playback = replayPlaybackRef.current;
+    setReplayView(prev => {
+      if (
+        prev &&
+        prev.tick === player.tick &&
+        prev.playing === playback.playing &&
+        prev.speed === playback.speed
+      ) {
+        return prev;
+      }
+      return {
+        playing: playback.playing,
+        speed: playback.speed,
+        tick: player.tick,
+        tickCount: player.tickCount,
+        timeMs: player.state.timeMs,
+        durationMs: player.durationMs,
+      };
+    });
+  };
 
-  useEffect(() => {
-    if (!assetsReady) {
+  const watchReplay = (replay: Replay) => {
+    if (!assetsReady || modeRef.current === "playing") {
       return;
     }
+    const player = createReplayPlayer(replay);
+    replayPlayerRef.current = player;
+    replayPlaybackRef.current = { playing: true, speed: 1 };
+    previousReplayStateRef.current = null;
+    replayClockRef.current.reset();
+    if (modeRef.current !== "replay") {
+      replayReturnModeRef.current = modeRef.current;
+    }
+    controlsRef.current = idleControls();
+    effectsRef.current?.clear();
+    syncStats(player.state);
+    publishReplayView(player);
+    setModeSafe("replay");
+  };
+
+  const stopReplay = () => {
+    replayPlayerRef.current = null;
+    setReplayView(null);
+    const state = gameRef.current;
+    if (state) {
+      syncStats(state);
+    }
+    setModeSafe(replayReturnModeRef.current);
+  };
 
-    const canvas = canvasRef.current;
-    const assets = assetsRef.current;
-    if (!canvas || !assets) {
+  const toggleReplayPlay = () => {
+    const player = replayPlayerRef.current;
+    if (!player) {
       return;
     }
+    const playback = replayPlaybackRef.current;
+    if (!playback.playing && player.finished) {
+      player.seek(0);
+    }
+    playback.playing = !playback.playing;
+    previousReplayStateRef.current = null;
+    replayClockRef.current.reset();
+    publishReplayView(player);
+  };
 
-    const ctx = canvas.getContext("2d");
-    if (!ctx) {
+  const setReplaySpeed = (speed: number) => {
+    const player = replayPlayerRef.current;
+    if (!player) {
       return;
     }
+    replayPlaybackRef.current.speed = speed;
+    publishReplayView(player);
+  };
 
-    const pickEnemyKind = (score: number): EnemyKind => {
-      const roll = Math.random();
-      if (score < 8) {
-        return roll < 0.75 ? "drifter" : "zigzag";
-      }
-      if (score < 18) {
-        if (roll < 0.5) {
-          return "drifter";
-        }
-        if (roll < 0.75) {
-          return "zigzag";
-        }
-        return "armored";
-      }
-      if (roll < 0.45) {
-        return "drifter";
-      }
-      if (roll < 0.7) {
-        return "zigzag";
-      }
-      if (roll < 0.88) {
-        return "armored";
-      }
-      return "splitter";
-    };
-
-    const createEnemy = (score: number): Enemy => {
-      const base = enemySpeed(score);
-      const kind = pickEnemyKind(score);
-      let speed = randomBetween(Math.max(120, base - 30), base + 30);
-      let sizeScale = 1;
-      let hp = 1;
-      let waveAmplitude = 0;
-      let waveFrequency = 0;
-      let wavePhase = 0;
-
-      switch (kind) {
-        case "zigzag":
-          sizeScale = 0.9;
-          waveAmplitude = randomBetween(18, 34);
-          waveFrequency = randomBetween(6, 10) / 1000;
-          wavePhase = Math.random() * Math.PI * 2;
-          break;
-        case "armored":
-          sizeScale = 1.15;
-          hp = 2;
-          speed *= 0.85;
-          break;
-        case "splitter":
-          sizeScale = 1.05;
-          break;
-        default:
-          break;
-      }
+  const seekReplay = (tick: number) => {
+    const player = replayPlayerRef.current;
+    if (!player) {
+      return;
+    }
+    player.seek(tick);
+    previousReplayStateRef.current = null;
+    replayClockRef.current.reset();
+    syncStats(player.state);
+    publishReplayView(player);
+  };
 
-      const enemyWidth = assets.enemy.width * sizeScale;
-      const enemyHeight = assets.enemy.height * sizeScale;
-      const spawnY = randomBetween(
-        Math.floor(enemyHeight / 2),
-        Math.floor(HEIGHT - enemyHeight / 2)
+  const importReplay = async (file: File) => {
+    try {
+      const replay = parseReplay(await file.text());
+      setReplayError(null);
+      watchReplay(replay);
+    } catch (error) {
+      setReplayError(
+        error instanceof Error ? error.message : "Replay invalido."
       );
-      const baseY = spawnY - enemyHeight / 2;
+    }
+  };
 
-      return {
-        x: WIDTH + 10,
-        y: baseY,
-        width: enemyWidth,
-        height: enemyHeight,
-        speed,
-        kind,
-        hp,
-        baseY,
-        waveAmplitude,
-        waveFrequency,
-        wavePhase,
-        sizeScale,
-      };
-    };
+  const chooseLevel = (id: string, available = levels) => {
+    levelRef.current = available.find(level => level.id === id) ?? null;
+    setLevelId(levelRef.current ? id : "endless");
+    resetGame();
+  };
+
+  const applyDifficulty = (next: DifficultySetting) => {
+    difficultyRef.current = next;
+    setDifficulty(next);
+    setHighScores(loadHighScores(next.id, playModeRef.current));
+    resetGame();
+  };
+
+  const toggleCoop = (next: boolean) => {
+    coopRef.current = next;
+    setCoop(next);
+    resetGame();
+  };
+
+  const toggleReducedMotion = (next: boolean) => {
+    reducedMotionRef.current = next;
+    setReducedMotion(next);
+    saveReducedMotion(next);
+  };
 
-    const createShard = (source: Enemy, offsetY: number): Enemy => {
-      const sizeScale = 0.65;
-      const enemyWidth = assets.enemy.width * sizeScale;
-      const enemyHeight = assets.enemy.height * sizeScale;
-      const baseY = clamp(
-        source.y + source.height / 2 - enemyHeight / 2 + offsetY,
-        0,
-        HEIGHT - enemyHeight
+  const chooseRenderer = (next: RendererKind) => {
+    setRendererChoice(next);
+    saveRendererChoice(next);
+  };
+
+  const toggleFullscreenMode = () => {
+    const shell = shellRef.current;
+    if (shell) {
+      toggleFullscreen(shell).catch(() => {
+        // Refused by the browser; the game stays in the page.
+      });
+    }
+  };
+
+  const chooseGhost = (next: GhostChoice) => {
+    ghostChoiceRef.current = next;
+    setGhostChoice(next);
+  };
+
+  // Fetches a ranked run's replay and makes it the ghost to race.
+  const pickGhost = (entry: ScoreEntry) => {
+    setGhostError(null);
+    fetchBoardGhost(entry)
+      .then(ghost => {
+        savePickedGhost(ghost);
+        setPickedGhost(ghost);
+        chooseGhost("picked");
+      })
+      .catch(error =>
+        setGhostError(
+          error instanceof Error ? error.message : "Falha ao baixar fantasma."
+        )
       );
-      return {
-        x: source.x + source.width * 0.3,
-        y: baseY,
-        width: enemyWidth,
-        height: enemyHeight,
-        speed: source.speed * 1.2,
-        kind: "shard",
-        hp: 1,
-        baseY,
-        waveAmplitude: 0,
-        waveFrequency: 0,
-        wavePhase: 0,
-        sizeScale,
-      };
-    };
+  };
 
-    const pickPowerUpKind = (): PowerUpKind => {
-      const roll = Math.random();
-      if (roll < 0.3) {
-        return "boost";
-      }
-      if (roll < 0.55) {
-        return "burst";
-      }
-      if (roll < 0.78) {
-        return "slow";
-      }
-      return "shield";
-    };
+  const choosePlayMode = (next: PlayModeId) => {
+    playModeRef.current = next;
+    setPlayMode(next);
+    setHighScores(loadHighScores(difficultyRef.current.id, next));
+    resetGame();
+  };
 
-    const createPowerUp = (
-      kind: PowerUpKind,
-      x: number,
-      y: number
-    ): PowerUp => {
-      const size = POWERUP_SIZE;
-      return {
-        x: clamp(x - size / 2, 0, WIDTH - size),
-        y: clamp(y - size / 2, 0, HEIGHT - size),
-        width: size,
-        height: size,
-        speed: randomBetween(POWERUP_SPEED - 20, POWERUP_SPEED + 30),
-        kind,
-      };
-    };
+  const chooseDifficulty = (id: DifficultyId) => {
+    if (id === "custom") {
+      // Custom starts from whatever was selected so tweaks are incremental.
+      applyDifficulty({ id, values: { ...difficultyRef.current.values } });
+    } else {
+      applyDifficulty(presetDifficulty(id));
+    }
+  };
 
-    const updateGame = (state: GameState, dt: number, nowMs: number) => {
-      const controls = controlsRef.current;
-      const boostActive = nowMs < state.boostUntil;
-      const burstActive = nowMs < state.burstUntil;
-      const slowActive = nowMs < state.slowUntil;
-
-      const directionX = (controls.right ? 1 : 0) - (controls.left ? 1 : 0);
-      const directionY = (controls.down ? 1 : 0) - (controls.up ? 1 : 0);
-      if (directionX !== 0 || directionY !== 0) {
-        const length = Math.hypot(directionX, directionY) || 1;
-        const playerSpeed =
-          state.player.speed * (boostActive ? BOOST_MULTIPLIER : 1);
-        state.player.x += (directionX / length) * playerSpeed * dt;
-        state.player.y += (directionY / length) * playerSpeed * dt;
-
-        state.player.x = clamp(
-          state.player.x,
-          0,
-          WIDTH - state.player.width
-        );
-        state.player.y = clamp(
-          state.player.y,
-          0,
-          HEIGHT - state.player.height
-        );
+  const tweakDifficulty = <K extends keyof Difficulty>(
+    key: K,
+    value: Difficulty[K]
+  ) => {
+    applyDifficulty({
+      id: "custom",
+      values: { ...difficultyRef.current.values, [key]: value },
+    });
+  };
+
+  const recordHighScore = (score: number) => {
+    const setup = runSetup();
+    const { scores, rank } = saveHighScore(setup.difficulty.id, setup.mode, {
+      score,
+      recordedAt: new Date().toISOString(),
+      levelId: setup.level?.id ?? null,
+    });
+    setHighScores(scores);
+    setNewRecordRank(rank);
+  };
+
+  const refreshDailyBoard = () => {
+    fetchTopScores("normal", "all", { daily: dailyKey(Date.now()), limit: 5 })
+      .then(setDailyBoard)
+      .catch(() => setDailyBoard(null));
+  };
+
+  const refreshTopBoard = () => {
+    fetchTopScores(difficultyRef.current.id, boardPeriod, { limit: 5 })
+      .then(setTopBoard)
+      .catch(() => setTopBoard(null));
+  };
+
+  const submitRun = async () => {
+    const name = playerName.trim();
+    if (!lastRun || !name || submitStatus.state === "sending") {
+      return;
+    }
+    savePlayerName(name);
+    setSubmitStatus({ state: "sending" });
+    try {
+      const { rank, total } = await submitScore({
+        ...lastRun,
+        name,
+        playerId: loadPlayerId(),
+      });
+      setSubmitStatus({ state: "sent", rank, total });
+      if (lastRun.replay.daily) {
+        refreshDailyBoard();
+      } else {
+        refreshTopBoard();
       }
+    } catch (error) {
+      setSubmitStatus({
+        state: "error",
+        message:
+          error instanceof Error ? error.message : "Falha ao enviar placar.",
+      });
+    }
+  };
+
+  const importLevel = async (file: File) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setLevelError("Fase invalida: o arquivo nao e JSON.");
+      return;
+    }
+    const result = validateLevel(data);
+    if (!result.ok) {
+      setLevelError(`Fase invalida: ${result.errors.slice(0, 3).join(" ")}`);
+      return;
+    }
+    const imported = result.level;
+    const next = [...levels.filter(level => level.id !== imported.id), imported];
+    setLevels(next);
+    setLevelError(null);
+    chooseLevel(imported.id, next);
+  };
+
+  // Leaving the page drops the room seat and ends the broadcast right away
+  // instead of on timeout.
+  useEffect(
+    () => () => {
+      roomRef.current?.leave();
+      broadcastRef.current?.stop();
+    },
+    []
+  );
+
+  useEffect(() => {
+    setHasPersonalBest(
+      loadPersonalBest({
+        difficulty: difficulty.id,
+        mode: playMode,
+        levelId: levelId === "endless" ? null : levelId,
+      }) !== null
+    );
+  }, [difficulty.id, playMode, levelId, bestVersion]);
 
-      if (controls.shoot) {
-        const shotCooldown = burstActive
-          ? BURST_COOLDOWN_MS
-          : SHOT_COOLDOWN_MS;
-        if (nowMs - state.player.lastShotMs >= shotCooldown) {
-          const bonusShots = burstActive ? BURST_BONUS_SHOTS : 0;
-          const maxShots = state.player.maxShots + bonusShots;
-          if (state.shots.length < maxShots) {
-            state.player.lastShotMs = nowMs;
-            const shotWidth = assets.shot.width;
-            const shotHeight = assets.shot.height;
-            const baseY =
-              state.player.y + state.player.height / 2 - shotHeight / 2;
-            const patterns = burstActive
-              ? [
-                  { offset: 0, velocityY: 0 },
-                  { offset: -BURST_SPREAD_OFFSET, velocityY: -BURST_SPREAD_SPEED },
-                  { offset: BURST_SPREAD_OFFSET, velocityY: BURST_SPREAD_SPEED },
-                ]
-              : [{ offset: 0, velocityY: 0 }];
-            let fired = false;
-            for (const pattern of patterns) {
-              if (state.shots.length >= maxShots) {
-                break;
-              }
-              state.shots.push({
-                x: state.player.x + state.player.width,
-                y: baseY + pattern.offset,
-                width: shotWidth,
-                height: shotHeight,
-                velocityX: SHOT_SPEED,
-                velocityY: pattern.velocityY,
-              });
-              fired = true;
-            }
-            if (fired) {
-              playSfx("shot");
-            }
-          }
+  useEffect(() => {
+    const unsubscribes = [
+      subscribeFullscreen(element =>
+        setFullscreen(element !== null && element === shellRef.current)
+      ),
+      // Turning upright mid-run pauses it, since the prompt covers the field.
+      subscribePortrait(portrait => {
+        setRotatePrompt(portrait);
+        if (portrait) {
+          pauseGame();
         }
+      }),
+    ];
+    return () => {
+      for (const unsubscribe of unsubscribes) {
+        unsubscribe();
       }
+    };
+  }, []);
 
-      for (const shot of state.shots) {
-        shot.x += shot.velocityX * dt;
-        shot.y += shot.velocityY * dt;
-      }
-      state.shots = state.shots.filter(
-        shot =>
-          shot.x < WIDTH + shot.width &&
-          shot.y > -shot.height &&
-          shot.y < HEIGHT + shot.height
-      );
+  // A canvas keeps the first kind of context it hands out, so every renderer
+  // gets a fresh canvas.
+  const rendererKind: RendererKind =
+    rendererChoice === "webgl" && !webglFailed ? "webgl" : "canvas";
 
-      if (nowMs - state.lastSpawnMs >= spawnInterval(state.score)) {
-        state.enemies.push(createEnemy(state.score));
-        state.lastSpawnMs = nowMs;
-      }
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    return canvas ? watchCanvasResolution(canvas) : undefined;
+  }, [rendererKind]);
 
-      const enemySpeedScale = slowActive ? SLOW_MULTIPLIER : 1;
-      for (const enemy of state.enemies) {
-        enemy.x -= enemy.speed * enemySpeedScale * dt;
-        if (enemy.waveAmplitude > 0) {
-          enemy.y =
-            enemy.baseY +
-            Math.sin(nowMs * enemy.waveFrequency + enemy.wavePhase) *
-              enemy.waveAmplitude;
-          enemy.y = clamp(enemy.y, 0, HEIGHT - enemy.height);
-        }
-      }
+  const overlayOpen = mode === "ready" || mode === "gameover";
+  const today = dailyKey(clockMs);
 
-      const remainingEnemies: Enemy[] = [];
-      let escaped = 0;
-      for (const enemy of state.enemies) {
-        if (enemy.x + enemy.width < 0) {
-          escaped += 1;
-        } else {
-          remainingEnemies.push(enemy);
-        }
-      }
-      if (escaped > 0) {
-        state.lives -= escaped;
-        state.combo = 0;
-        state.comboExpiresAt = 0;
-      }
-      state.enemies = remainingEnemies;
+  // The challenge countdown only matters while the overlay is up.
+  useEffect(() => {
+    if (!overlayOpen) {
+      return;
+    }
+    setClockMs(Date.now());
+    const timer = window.setInterval(() => setClockMs(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [overlayOpen]);
 
-      for (const powerUp of state.powerUps) {
-        powerUp.x -= powerUp.speed * dt;
-      }
-      state.powerUps = state.powerUps.filter(
-        powerUp => powerUp.x + powerUp.width > 0
-      );
+  useEffect(() => {
+    if (overlayOpen) {
+      refreshDailyBoard();
+    }
+  }, [overlayOpen, today]);
 
-      let hitCount = 0;
-      const survivors: Shot[] = [];
-      const destroyedEnemies: Enemy[] = [];
+  useEffect(() => {
+    if (overlayOpen) {
+      refreshTopBoard();
+    }
+  }, [overlayOpen, difficulty.id, boardPeriod]);
 
-      for (const shot of state.shots) {
-        let collided = false;
-        for (const enemy of state.enemies) {
-          if (enemy.hp <= 0) {
-            continue;
-          }
-          if (rectsIntersect(shot, enemy)) {
-            enemy.hp -= 1;
-            hitCount += 1;
-            collided = true;
-            if (enemy.hp <= 0) {
-              destroyedEnemies.push(enemy);
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const { shotSound, hitSound, gameOverSound, music, ...scene } =
+          await loadAssets({ ...SCENE_ASSETS, ...SOUND_ASSETS }, progress => {
+            if (!cancelled) {
+              setLoadProgress(progress);
             }
-            break;
-          }
+          });
+
+        if (!cancelled) {
+          assetsRef.current = {
+            ...scene,
+            sounds: {
+              shot: shotSound,
+              hit: hitSound,
+              gameOver: gameOverSound,
+              music,
+            },
+          };
+          setAssetsReady(true);
+          setLoadingError(null);
+          resetGame();
         }
-        if (!collided) {
-          survivors.push(shot);
+      } catch (error) {
+        if (!cancelled) {
+          setLoadingError(
+            error instanceof Error ? error.message : "Falha ao carregar assets."
+          );
         }
       }
+    };
 
-      state.shots = survivors;
-
-      if (hitCount > 0) {
-        playSfx("hit");
-      }
-
-      state.enemies = state.enemies.filter(enemy => enemy.hp > 0);
+    load();
 
-      if (destroyedEnemies.length > 0) {
-        for (const enemy of destroyedEnemies) {
-          state.score += 1;
-          if (nowMs <= state.comboExpiresAt) {
-            state.combo += 1;
-          } else {
-            state.combo = 1;
-          }
-          state.comboExpiresAt = nowMs + COMBO_WINDOW_MS;
-
-          const comboTier = Math.min(3, Math.floor(state.combo / 4));
-          const dropChance =
-            POWERUP_DROP_BASE + comboTier * POWERUP_DROP_COMBO_BONUS;
-          if (
-            state.powerUps.length < 3 &&
-            Math.random() < dropChance
-          ) {
-            const kind = pickPowerUpKind();
-            state.powerUps.push(
-              createPowerUp(
-                kind,
-                enemy.x + enemy.width / 2,
-                enemy.y + enemy.height / 2
-              )
-            );
-          }
+    return () => {
+      cancelled = true;
+    };
+  }, [loadAttempt]);
 
-          if (enemy.kind === "splitter") {
-            state.enemies.push(createShard(enemy, -14));
-            state.enemies.push(createShard(enemy, 14));
-          }
-        }
-      }
+  useEffect(() => {
+    if (!assetsReady) {
+      return;
+    }
 
-      while (
-        state.score >= state.nextShotUpgrade &&
-        state.player.maxShots < MAX_SHOTS_CAP
+    const handleKey = (event: KeyboardEvent, isDown: boolean) => {
+      // Typing a leaderboard name must not steer the ship or restart the run.
+      if (
+        event.target instanceof HTMLInputElement &&
+        event.target.type === "text"
       ) {
-        state.player.maxShots += 1;
-        state.nextShotUpgrade += 15;
+        return;
       }
-
-      if (nowMs >= state.player.invulnerableUntil) {
-        let collided = false;
-        const survivorsAfterPlayer: Enemy[] = [];
-        for (const enemy of state.enemies) {
-          if (!collided && rectsIntersect(state.player, enemy)) {
-            collided = true;
-            if (state.player.shield > 0) {
-              state.player.shield -= 1;
-            } else {
-              state.lives -= 1;
-            }
-            state.player.invulnerableUntil = nowMs + INVULNERABLE_MS;
-            state.combo = 0;
-            state.comboExpiresAt = 0;
-          } else {
-            survivorsAfterPlayer.push(enemy);
+      if (modeRef.current === "replay") {
+        if (event.code === "Space") {
+          event.preventDefault();
+          if (isDown && !event.repeat) {
+            toggleReplayPlay();
           }
         }
-        if (collided) {
-          state.enemies = survivorsAfterPlayer;
-        }
-      }
-
-      const remainingPowerUps: PowerUp[] = [];
-      for (const powerUp of state.powerUps) {
-        if (rectsIntersect(state.player, powerUp)) {
-          switch (powerUp.kind) {
-            case "boost":
-              state.boostUntil =
-                Math.max(state.boostUntil, nowMs) + BOOST_DURATION_MS;
-              break;
-            case "burst":
-              state.burstUntil =
-                Math.max(state.burstUntil, nowMs) + BURST_DURATION_MS;
-              break;
-            case "slow":
-              state.slowUntil =
-                Math.max(state.slowUntil, nowMs) + SLOW_DURATION_MS;
-              break;
-            case "shield":
-              state.player.shield = Math.min(
-                SHIELD_CAP,
-                state.player.shield + 1
-              );
-              break;
-            default:
-              break;
-          }
-          playSfx("hit");
-        } else {
-          remainingPowerUps.push(powerUp);
+        if (event.code === "Escape" && isDown) {
+          stopReplay();
         }
+        return;
       }
-      state.powerUps = remainingPowerUps;
 
-      if (state.combo > 0 && nowMs > state.comboExpiresAt) {
-        state.combo = 0;
+      const binding = KEY_BINDINGS[event.code];
+      if (binding) {
+        event.preventDefault();
+        // Online, every tab drives its own toaster with either key set.
+        const player =
+          coopRef.current && modeRef.current !== "online"
+            ? binding.coopPlayer
+            : 0;
+        controlsRef.current[player]![binding.key] = isDown;
+        return;
       }
 
-      if (state.lives <= 0) {
-        stopMusic();
-        playSfx("gameOver");
-        setLastScore(state.score);
-        setModeSafe("gameover");
+      switch (event.code) {
+        case "Enter":
+          // P2's fire button while a co-op run is on.
+          if (coopRef.current && modeRef.current === "playing") {
+            event.preventDefault();
+            controlsRef.current[1]!.shoot = isDown;
+            break;
+          }
+          if (!isDown) {
+            break;
+          }
+          if (modeRef.current === "ready" || modeRef.current === "gameover") {
+            startGame();
+          } else if (modeRef.current === "paused") {
+            resumeGame();
+          }
+          break;
+        case "KeyF":
+          if (isDown && !event.repeat) {
+            toggleFullscreenMode();
+          }
+          break;
+        case "KeyP":
+          if (isDown && !event.repeat) {
+            if (modeRef.current === "playing") {
+              pauseGame();
+            } else if (modeRef.current === "paused") {
+              resumeGame();
+            }
+          }
+          break;
+        case "Escape":
+          if (!isDown || event.repeat) {
+            break;
+          }
+          if (modeRef.current === "playing") {
+            pauseGame();
+          } else if (modeRef.current === "paused") {
+            resumeGame();
+          } else if (modeRef.current === "gameover") {
+            exitGame();
+          }
+          break;
+        default:
+          break;
       }
-
-      syncStats(state, nowMs);
     };
 
-    const drawHud = (state: GameState, nowMs: number) => {
-      const boostActive = nowMs < state.boostUntil;
-      const burstActive = nowMs < state.burstUntil;
-      const slowActive = nowMs < state.slowUntil;
-      const bonusShots = burstActive ? BURST_BONUS_SHOTS : 0;
-      const maxShots = state.player.maxShots + bonusShots;
-
-      ctx.save();
-      ctx.fillStyle = "#f8f1e7";
-      ctx.font = '16px "JetBrains Mono", "Space Grotesk", sans-serif';
-      ctx.textAlign = "left";
-      ctx.textBaseline = "top";
-      ctx.fillText(`Mortes: ${state.score}`, 12, 12);
-      ctx.fillText(`Vidas: ${state.lives}`, 12, 32);
-      ctx.fillText(
-        `Torradas: ${Math.max(maxShots - state.shots.length, 0)}`,
-        12,
-        52
-      );
-
-      let line = 72;
-      if (state.combo > 1) {
-        ctx.fillText(`Combo: x${state.combo}`, 12, line);
-        line += 20;
-      }
-      if (state.player.shield > 0) {
-        ctx.fillText(`Escudo: ${state.player.shield}`, 12, line);
-      }
+    const onKeyDown = (event: KeyboardEvent) => handleKey(event, true);
+    const onKeyUp = (event: KeyboardEvent) => handleKey(event, false);
 
-      const effects: string[] = [];
-      if (boostActive) {
-        effects.push("Turbo");
-      }
-      if (burstActive) {
-        effects.push("Rajada");
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        pauseGame();
       }
-      if (slowActive) {
-        effects.push("Lento");
-      }
-      if (effects.length > 0) {
-        ctx.textAlign = "right";
-        ctx.fillStyle = "#f4c37a";
-        ctx.fillText(`Efeitos: ${effects.join(" / ")}`, WIDTH - 12, 12);
-      }
-      ctx.restore();
     };
 
-    const drawPowerUp = (powerUp: PowerUp) => {
-      const style = POWERUP_STYLES[powerUp.kind];
-      const centerX = powerUp.x + powerUp.width / 2;
-      const centerY = powerUp.y + powerUp.height / 2;
-      const radius = powerUp.width / 2;
-
-      ctx.save();
-      ctx.fillStyle = style.fill;
-      ctx.strokeStyle = style.stroke;
-      ctx.lineWidth = 2;
-      ctx.beginPath();
-      ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.stroke();
-      ctx.fillStyle = "#0f1119";
-      ctx.font = 'bold 14px "JetBrains Mono", "Space Grotesk", sans-serif';
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-      ctx.fillText(style.label, centerX, centerY + 1);
-      ctx.restore();
-    };
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", pauseGame);
+    document.addEventListener("visibilitychange", onVisibilityChange);
 
-    const drawEnemy = (enemy: Enemy) => {
-      ctx.save();
-      if (enemy.kind === "shard") {
-        ctx.globalAlpha = 0.7;
-      }
-      ctx.drawImage(assets.enemy, enemy.x, enemy.y, enemy.width, enemy.height);
-      if (enemy.kind === "armored") {
-        ctx.strokeStyle = "rgba(244, 195, 122, 0.9)";
-        ctx.lineWidth = 3;
-        ctx.strokeRect(
-          enemy.x + 2,
-          enemy.y + 2,
-          enemy.width - 4,
-          enemy.height - 4
-        );
-      }
-      if (enemy.kind === "zigzag") {
-        ctx.strokeStyle = "rgba(88, 211, 192, 0.7)";
-        ctx.lineWidth = 2;
-        ctx.strokeRect(
-          enemy.x + 6,
-          enemy.y + 6,
-          enemy.width - 12,
-          enemy.height - 12
-        );
-      }
-      if (enemy.kind === "splitter") {
-        ctx.strokeStyle = "rgba(226, 93, 111, 0.8)";
-        ctx.lineWidth = 2;
-        ctx.strokeRect(
-          enemy.x + 4,
-          enemy.y + 4,
-          enemy.width - 8,
-          enemy.height - 8
-        );
-      }
-      ctx.restore();
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", pauseGame);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
     };
+  }, [assetsReady]);
 
-    const drawGame = (state: GameState, nowMs: number) => {
-      ctx.clearRect(0, 0, WIDTH, HEIGHT);
-      ctx.drawImage(assets.background, 0, 0, WIDTH, HEIGHT);
-
-      if (nowMs < state.slowUntil) {
-        ctx.fillStyle = "rgba(88, 211, 192, 0.08)";
-        ctx.fillRect(0, 0, WIDTH, HEIGHT);
-      }
-
-      drawHud(state, nowMs);
-
-      for (const enemy of state.enemies) {
-        drawEnemy(enemy);
-      }
-
-      for (const shot of state.shots) {
-        ctx.drawImage(assets.shot, shot.x, shot.y, shot.width, shot.height);
-      }
-
-      for (const powerUp of state.powerUps) {
-        drawPowerUp(powerUp);
-      }
-
-      if (
-        nowMs >= state.player.invulnerableUntil ||
-        Math.floor(nowMs / 120) % 2 !== 0
-      ) {
-        ctx.drawImage(
-          assets.player,
-          state.player.x,
-          state.player.y,
-          state.player.width,
-          state.player.height
-        );
-        if (state.player.shield > 0) {
-          ctx.save();
-          ctx.strokeStyle = "rgba(90, 160, 255, 0.7)";
-          ctx.lineWidth = 2;
-          ctx.beginPath();
-          ctx.ellipse(
-            state.player.x + state.player.width / 2,
-            state.player.y + state.player.height / 2,
-            state.player.width * 0.6,
-            state.player.height * 0.7,
-            0,
-            0,
-            Math.PI * 2
+  // Features hook into the run through the event bus rather than the game
+  // loop, which only emits what each step returned.
+  useEffect(() => {
+    const bus = eventsRef.current;
+    const tracker = createAchievementTracker(loadAchievementProgress());
+    achievementsRef.current = tracker;
+    const effects = createEffects(() => reducedMotionRef.current);
+    effectsRef.current = effects;
+    const unsubscribes = [
+      effects.connect(bus),
+      // Progress is stored on unlocks and at the end of a run; shots alone
+      // are not worth a write.
+      bus.onAny(event => {
+        const state = gameRef.current;
+        if (!state) {
+          return;
+        }
+        const unlocked = tracker.observe(event, state);
+        if (unlocked.length > 0 || event.type === "gameOver") {
+          saveAchievementProgress(tracker.progress);
+        }
+        if (unlocked.length > 0) {
+          setUnlocks(prev => [...prev, ...unlocked]);
+          window.setTimeout(
+            () =>
+              setUnlocks(prev =>
+                prev.filter(achievement => !unlocked.includes(achievement))
+              ),
+            UNLOCK_NOTICE_MS
           );
-          ctx.stroke();
-          ctx.restore();
         }
+      }),
+      bus.on("shotFired", () => playSfx("shot")),
+      ...(
+        [
+          "enemyHit",
+          "powerUpCollected",
+          "novaDetonated",
+          "bossHit",
+          "bossDefeated",
+        ] as const
+      ).map(type => bus.on(type, () => playSfx("hit"))),
+      bus.on("gameOver", event => {
+        // Online runs have no replay or local board; the room shows the
+        // result.
+        if (roomRef.current) {
+          stopMusic();
+          playSfx("gameOver");
+          setLastScore(event.score);
+          return;
+        }
+        const replay = finishRecording("gameover", event.score);
+        recordHighScore(event.score);
+        if (replay && savePersonalBest(replay)) {
+          setBestVersion(version => version + 1);
+        }
+        // Only solo endless runs have an online board.
+        if (
+          gameRef.current &&
+          replay &&
+          rankedRef.current &&
+          runSetup().mode === "endless" &&
+          !runSetup().coop
+        ) {
+          setLastRun({
+            replay,
+            score: event.score,
+            maxCombo: gameRef.current.maxCombo,
+            durationMs: Math.round(gameRef.current.timeMs),
+            difficulty: runSetup().difficulty.id,
+          });
+        }
+        stopMusic();
+        playSfx("gameOver");
+        setLastScore(event.score);
+        setLastEnding({ outcome: event.outcome, mode: runSetup().mode });
+        setModeSafe("gameover");
+      }),
+    ];
+    return () => {
+      for (const unsubscribe of unsubscribes) {
+        unsubscribe();
       }
     };
+  }, [assetsReady]);
+
+  useEffect(() => {
+    if (!assetsReady) {
+      return;
+    }
+
+    const canvas = canvasRef.current;
+    const assets = assetsRef.current;
+    if (!canvas || !assets) {
+      return;
+    }
+
+    const renderer = createRenderer(canvas, assets, rendererKind, () =>
+      setWebglFailed(true)
+    );
+    if (renderer.kind !== rendererKind) {
+      setWebglFailed(true);
+    }
 
     const loop = (timestamp: number) => {
       const state = gameRef.current;
@@ -1031,13 +1396,137 @@ export function GalacticToast() {
         return;
       }
 
-      const delta = Math.min((timestamp - lastTimeRef.current) / 1000, 0.05);
+      const frameSeconds = (timestamp - lastTimeRef.current) / 1000;
       lastTimeRef.current = timestamp;
 
+      let view = state;
       if (modeRef.current === "playing") {
-        updateGame(state, delta, timestamp);
+        const clock = clockRef.current;
+        clock.advance(frameSeconds, () => {
+          const current = gameRef.current;
+          if (!current || modeRef.current !== "playing") {
+            return false;
+          }
+          const controls = current.players.map((_player, index) =>
+            mergeControls(controlsRef.current[index]!, readGamepad(index))
+          );
+          recorderRef.current?.record(controls);
+          const result = stepGame(
+            current,
+            controls,
+            rngRef.current,
+            TICK_SECONDS
+          );
+          previousGameRef.current = current;
+          gameRef.current = result.state;
+          // The ghost moves tick for tick with the run it races.
+          const ghost = ghostRef.current;
+          if (ghost) {
+            ghost.previous = ghost.player.state;
+            ghost.player.step();
+          }
+          for (const event of result.events) {
+            eventsRef.current.emit(event);
+          }
+          return true;
+        });
+        if (
+          performance.now() - broadcastSentRef.current.atMs >=
+          BROADCAST_FLUSH_MS
+        ) {
+          flushBroadcast();
+        }
+        const current = gameRef.current ?? state;
+        syncStats(current);
+        view = interpolateState(
+          previousGameRef.current ?? current,
+          current,
+          clock.alpha
+        );
+      } else if (modeRef.current === "online") {
+        const online = onlineRef.current;
+        const own = mergeControls(controlsRef.current[0]!, readGamepad(0));
+        roomRef.current?.sendControls(own);
+        const clock = clockRef.current;
+        if (online.snapshot) {
+          online.controls[online.you] = own;
+          clock.advance(frameSeconds, () => {
+            const current = gameRef.current;
+            if (!current || current.outcome) {
+              return false;
+            }
+            // Predicted ticks only move the picture; sounds and the game
+            // over wait for the server's events.
+            previousGameRef.current = current;
+            gameRef.current = stepGame(
+              current,
+              online.controls,
+              online.rng,
+              TICK_SECONDS
+            ).state;
+            return true;
+          });
+        }
+        for (const event of online.events.splice(0)) {
+          eventsRef.current.emit(event);
+        }
+        const current = gameRef.current ?? state;
+        syncStats(current);
+        view = interpolateState(
+          previousGameRef.current ?? current,
+          current,
+          clock.alpha
+        );
+      } else if (modeRef.current === "replay" && replayPlayerRef.current) {
+        const player = replayPlayerRef.current;
+        const playback = replayPlaybackRef.current;
+        view = player.state;
+        if (playback.playing) {
+          const clock = replayClockRef.current;
+          clock.advance(frameSeconds * playback.speed, () => {
+            const previous = player.state;
+            if (!player.step()) {
+              return false;
+            }
+            previousReplayStateRef.current = previous;
+            return true;
+          });
+          if (player.finished) {
+            playback.playing = false;
+          }
+          syncStats(player.state);
+          publishReplayView(player);
+          view = interpolateState(
+            previousReplayStateRef.current ?? player.state,
+            player.state,
+            clock.alpha
+          );
+        }
       }
-      drawGame(state, timestamp);
+      // Effects freeze with the run while paused.
+      if (modeRef.current !== "paused") {
+        effectsRef.current?.update(frameSeconds);
+      }
+      const ghost = ghostRef.current;
+      renderer.draw(view, {
+        seed:
+          modeRef.current === "replay" && replayPlayerRef.current
+            ? replayPlayerRef.current.replay.seed
+            : seedRef.current,
+        ghost:
+          ghost &&
+          (modeRef.current === "playing" || modeRef.current === "paused")
+            ? {
+                label: ghost.label,
+                state: interpolateState(
+                  ghost.previous ?? ghost.player.state,
+                  ghost.player.state,
+                  clockRef.current.alpha
+                ),
+              }
+            : null,
+        effects: effectsRef.current,
+      });
 
       rafRef.current = requestAnimationFrame(loop);
     };
@@ -1049,32 +1538,37 @@ export function GalacticToast() {
       if (rafRef.current) {
         cancelAnimationFrame(rafRef.current);
       }
+      renderer.dispose();
     };
-  }, [assetsReady]);
+  }, [assetsReady, rendererKind]);
 
   const bindControl = (key: keyof Controls) => ({
     onPointerDown: (event: ReactPointerEvent<HTMLButtonElement>) => {
       event.preventDefault();
-      controlsRef.current[key] = true;
+      controlsRef.current[0]![key] = true;
     },
     onPointerUp: (event: ReactPointerEvent<HTMLButtonElement>) => {
       event.preventDefault();
-      controlsRef.current[key] = false;
+      controlsRef.current[0]![key] = false;
     },
     onPointerLeave: (event: ReactPointerEvent<HTMLButtonElement>) => {
       event.preventDefault();
-      controlsRef.current[key] = false;
+      controlsRef.current[0]![key] = false;
     },
     onPointerCancel: (event: ReactPointerEvent<HTMLButtonElement>) => {
       event.preventDefault();
-      controlsRef.current[key] = false;
+      controlsRef.current[0]![key] = false;
     },
   });
 
   return (
-    <div className="game-shell">
+    <div
+      ref={shellRef}
+      className={fullscreen ? "game-shell fullscreen" : "game-shell"}
+    >
       <div className="game-stage">
         <canvas
+          key={rendererKind}
           ref={canvasRef}
           width={WIDTH}
           height={HEIGHT}
@@ -1085,6 +1579,20 @@ export function GalacticToast() {
             <div className="overlay-card">
               <h2>Carregando missao...</h2>
               <p>Preparando as torradas espaciais.</p>
+              <div className="load-progress">
+                <div
+                  style={{
+                    width: `${
+                      loadProgress.total
+                        ? (loadProgress.loaded / loadProgress.total) * 100
+                        : 0
+                    }%`,
+                  }}
+                />
+                <span>
+                  {loadProgress.loaded}/{loadProgress.total}
+                </span>
+              </div>
             </div>
           </div>
         )}
@@ -1093,21 +1601,357 @@ export function GalacticToast() {
             <div className="overlay-card">
               <h2>Falha nos motores</h2>
               <p>{loadingError}</p>
+              <button className="primary" onClick={retryLoading}>
+                Tentar de novo
+              </button>
             </div>
           </div>
         )}
-        {assetsReady && !loadingError && mode !== "playing" && (
+        {assetsReady &&
+          !loadingError &&
+          (mode === "ready" || mode === "gameover") && (
           <div className="game-overlay">
             <div className="overlay-card">
               <p className="overlay-tag">Operacao: Galactic Toast</p>
-              <h2>{mode === "gameover" ? "Fim da jornada" : "Pronto para decolar?"}</h2>
+              <h2>
+                {mode !== "gameover"
+                  ? "Pronto para decolar?"
+                  : lastEnding.outcome === "won"
+                    ? "Tempo esgotado!"
+                    : "Fim da jornada"}
+              </h2>
               <p>
                 {mode === "gameover"
-                  ? `Mortes confirmadas: ${lastScore}.`
+                  ? `${PLAY_MODES[lastEnding.mode].label}: ${formatRunScore(lastEnding.mode, lastScore)}.`
                   : "Desvie dos asteroides, capture orbes e libere mais torradas no arsenal."}
               </p>
+              {mode === "gameover" && lastRunDaily && (
+                <p className="overlay-daily-status">
+                  {lastRunDaily.ranked
+                    ? `Desafio de ${lastRunDaily.day}: tentativa valendo placar.`
+                    : `Desafio de ${lastRunDaily.day}: treino, fora do placar.`}
+                </p>
+              )}
+              {mode === "gameover" && newRecordRank !== null && (
+                <p className="overlay-record">
+                  {newRecordRank === 0
+                    ? "Novo recorde!"
+                    : `${newRecordRank + 1}o lugar no placar.`}
+                </p>
+              )}
+              {mode === "gameover" && lastRun && (
+                <form
+                  className="score-submit"
+                  onSubmit={event => {
+                    event.preventDefault();
+                    submitRun();
+                  }}
+                >
+                  <input
+                    value={playerName}
+                    maxLength={16}
+                    placeholder="Seu nome"
+                    disabled={
+                      submitStatus.state === "sending" ||
+                      submitStatus.state === "sent"
+                    }
+                    onChange={event => setPlayerName(event.target.value)}
+                  />
+                  <button
+                    type="submit"
+                    className="ghost"
+                    disabled={
+                      !playerName.trim() ||
+                      submitStatus.state === "sending" ||
+                      submitStatus.state === "sent"
+                    }
+                  >
+                    {submitStatus.state === "sending"
+                      ? "Enviando..."
+                      : "Enviar placar"}
+                  </button>
+                </form>
+              )}
+              {submitStatus.state === "sent" && (
+                <p className="overlay-record">
+                  Posicao #{submitStatus.rank} de {submitStatus.total} no placar
+                  online (
+                  {lastRun?.replay.daily
+                    ? `desafio ${lastRun.replay.daily}`
+                    : DIFFICULTY_LABELS[lastRun?.difficulty ?? difficulty.id]}
+                  ).
+                </p>
+              )}
+              {submitStatus.state === "error" && (
+                <p className="overlay-error">{submitStatus.message}</p>
+              )}
+              <div className="difficulty-picker">
+                {PLAY_MODE_IDS.map(id => (
+                  <button
+                    key={id}
+                    className={id === playMode ? "active" : undefined}
+                    onClick={() => choosePlayMode(id)}
+                  >
+                    {PLAY_MODES[id].label}
+                  </button>
+                ))}
+              </div>
+              <p className="overlay-mode">{PLAY_MODES[playMode].description}</p>
+              <label className="coop-toggle">
+                <input
+                  type="checkbox"
+                  checked={coop}
+                  onChange={event => toggleCoop(event.target.checked)}
+                />
+                <span>
+                  Cooperativo: P1 em WASD + Espaco, P2 nas setas + Enter ou no
+                  segundo controle
+                </span>
+              </label>
+              <label className="coop-toggle">
+                <input
+                  type="checkbox"
+                  checked={reducedMotion}
+                  onChange={event => toggleReducedMotion(event.target.checked)}
+                />
+                <span>
+                  Movimento reduzido: sem tremor de tela nem particulas
+                </span>
+              </label>
+              <div className="difficulty-picker">
+                {(["canvas", "webgl"] as const).map(kind => (
+                  <button
+                    key={kind}
+                    className={rendererKind === kind ? "active" : undefined}
+                    disabled={kind === "webgl" && webglFailed}
+                    onClick={() => chooseRenderer(kind)}
+                  >
+                    {RENDERER_LABELS[kind]}
+                  </button>
+                ))}
+              </div>
+              {rendererChoice === "webgl" && webglFailed && (
+                <p className="overlay-mode">
+                  WebGL indisponivel neste navegador; usando Canvas 2D.
+                </p>
+              )}
+              <div className="difficulty-picker">
+                <button
+                  className={ghostChoice === "off" ? "active" : undefined}
+                  onClick={() => chooseGhost("off")}
+                >
+                  Sem fantasma
+                </button>
+                <button
+                  className={ghostChoice === "best" ? "active" : undefined}
+                  disabled={!hasPersonalBest}
+                  onClick={() => chooseGhost("best")}
+                >
+                  Fantasma: recorde
+                </button>
+                <button
+                  className={ghostChoice === "picked" ? "active" : undefined}
+                  disabled={!pickedGhost}
+                  onClick={() => chooseGhost("picked")}
+                >
+                  Fantasma: {pickedGhost?.label ?? "do placar"}
+                </button>
+              </div>
+              {ghostChoice !== "off" && (
+                <p className="overlay-mode">
+                  Corridas contra fantasma usam a semente e as regras dele e
+                  ficam fora do placar online.
+                </p>
+              )}
+              {ghostError && <p className="overlay-error">{ghostError}</p>}
+              <label className="coop-toggle">
+                <input
+                  type="checkbox"
+                  checked={
+                    broadcast !== null && broadcast.status !== "closed"
+                  }
+                  onChange={event => toggleBroadcast(event.target.checked)}
+                />
+                <span>
+                  {broadcast?.status === "live" ? (
+                    <>
+                      Transmitindo em{" "}
+                      <a href={`/watch/${broadcast.id}`} target="_blank">
+                        /watch/{broadcast.id}
+                      </a>
+                    </>
+                  ) : broadcast?.status === "closed" ? (
+                    "Transmissao caiu; marque de novo para retomar"
+                  ) : (
+                    "Transmitir minhas partidas ao vivo"
+                  )}
+                </span>
+              </label>
+              <div className="difficulty-picker">
+                {(Object.keys(DIFFICULTY_LABELS) as DifficultyId[]).map(id => (
+                  <button
+                    key={id}
+                    className={id === difficulty.id ? "active" : undefined}
+                    onClick={() => chooseDifficulty(id)}
+                  >
+                    {DIFFICULTY_LABELS[id]}
+                  </button>
+                ))}
+              </div>
+              {difficulty.id === "custom" && (
+                <div className="difficulty-custom">
+                  {(
+                    Object.keys(CUSTOM_LIMITS) as (keyof typeof CUSTOM_LIMITS)[]
+                  ).map(key => {
+                    const limits = CUSTOM_LIMITS[key];
+                    return (
+                      <label key={key}>
+                        <span>
+                          {limits.label}: {difficulty.values[key]}
+                        </span>
+                        <input
+                          type="range"
+                          min={limits.min}
+                          max={limits.max}
+                          step={limits.step}
+                          value={difficulty.values[key]}
+                          onChange={event =>
+                            tweakDifficulty(key, Number(event.target.value))
+                          }
+                        />
+                      </label>
+                    );
+                  })}
+                  <label className="difficulty-toggle">
+                    <input
+                      type="checkbox"
+                      checked={difficulty.values.escapesCostLife}
+                      onChange={event =>
+                        tweakDifficulty("escapesCostLife", event.target.checked)
+                      }
+                    />
+                    <span>Asteroide que escapa custa vida</span>
+                  </label>
+                </div>
+              )}
+              <p className="overlay-scores">
+                {highScores.length > 0
+                  ? `Recordes (${PLAY_MODES[playMode].label}, ${DIFFICULTY_LABELS[difficulty.id]}): ${highScores
+                      .map(entry => formatRunScore(playMode, entry.score))
+                      .join(" / ")}`
+                  : `Sem recordes em ${PLAY_MODES[playMode].label}, ${DIFFICULTY_LABELS[difficulty.id]} ainda.`}
+              </p>
+              <div className="overlay-daily">
+                <div className="overlay-daily-head">
+                  <span>
+                    Desafio diario {today} &middot; novo em{" "}
+                    {formatCountdown(msUntilNextDaily(clockMs))}
+                  </span>
+                  <button className="ghost" onClick={() => startGame(today)}>
+                    {hasPlayedDaily(today) ? "Treinar desafio" : "Jogar desafio"}
+                  </button>
+                </div>
+                {dailyBoard === null ? (
+                  <p>Placar do desafio indisponivel.</p>
+                ) : dailyBoard.length === 0 ? (
+                  <p>Ninguem completou o desafio de hoje ainda.</p>
+                ) : (
+                  <ol>
+                    {dailyBoard.map(entry => (
+                      <li key={entry.id}>
+                        <span>{entry.name}</span>
+                        <span>{entry.score}</span>
+                        <button
+                          className="ghost"
+                          title="Correr contra esta partida"
+                          onClick={() => pickGhost(entry)}
+                        >
+                          Fantasma
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+              <div className="overlay-daily">
+                <div className="overlay-daily-head">
+                  <span>
+                    Placar online &middot; {DIFFICULTY_LABELS[difficulty.id]}
+                  </span>
+                  <span className="overlay-periods">
+                    {(
+                      Object.keys(BOARD_PERIOD_LABELS) as LeaderboardPeriod[]
+                    ).map(period => (
+                      <button
+                        key={period}
+                        className={
+                          period === boardPeriod ? "ghost active" : "ghost"
+                        }
+                        onClick={() => setBoardPeriod(period)}
+                      >
+                        {BOARD_PERIOD_LABELS[period]}
+                      </button>
+                    ))}
+                  </span>
+                </div>
+                {topBoard === null ? (
+                  <p>Placar online indisponivel.</p>
+                ) : topBoard.length === 0 ? (
+                  <p>Nenhuma partida no placar ainda.</p>
+                ) : (
+                  <ol>
+                    {topBoard.map(entry => (
+                      <li key={entry.id}>
+                        <span>{entry.name}</span>
+                        <span>{entry.score}</span>
+                        <button
+                          className="ghost"
+                          title="Correr contra esta partida"
+                          onClick={() => pickGhost(entry)}
+                        >
+                          Fantasma
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+              <div className="overlay-online">
+                <span>
+                  Sala online: {MIN_ROOM_PLAYERS} a {MAX_ROOM_PLAYERS}{" "}
+                  torradeiras no mesmo campo
+                </span>
+                <form
+                  onSubmit={event => {
+                    event.preventDefault();
+                    joinRoom(roomCode);
+                  }}
+                >
+                  <input
+                    value={playerName}
+                    maxLength={MAX_PLAYER_NAME_LENGTH}
+                    placeholder="Seu nome"
+                    onChange={event => setPlayerName(event.target.value)}
+                  />
+                  <input
+                    value={roomCode}
+                    maxLength={4}
+                    placeholder="Codigo"
+                    onChange={event =>
+                      setRoomCode(event.target.value.toUpperCase())
+                    }
+                  />
+                  <button type="submit" className="ghost">
+                    Entrar
+                  </button>
+                  <button type="button" className="ghost" onClick={hostRoom}>
+                    Criar sala
+                  </button>
+                </form>
+                {roomError && <p className="overlay-error">{roomError}</p>}
+              </div>
               <div className="overlay-actions">
-                <button className="primary" onClick={startGame}>
+                <button className="primary" onClick={() => startGame()}>
                   {mode === "gameover" ? "Jogar de novo" : "Iniciar missao"}
                 </button>
                 {mode === "gameover" && (
@@ -1115,8 +1959,219 @@ export function GalacticToast() {
                     Voltar ao menu
                   </button>
                 )}
+                {canFullscreen() && (
+                  <button className="ghost" onClick={toggleFullscreenMode}>
+                    {fullscreen ? "Sair da tela cheia" : "Tela cheia"}
+                  </button>
+                )}
+              </div>
+              <div className="overlay-actions">
+                {lastReplay && (
+                  <button
+                    className="ghost"
+                    onClick={() => watchReplay(lastReplay)}
+                  >
+                    Assistir replay
+                  </button>
+                )}
+                {lastReplay && (
+                  <button
+                    className="ghost"
+                    onClick={() => downloadReplay(lastReplay)}
+                  >
+                    Exportar replay
+                  </button>
+                )}
+                <button
+                  className="ghost"
+                  onClick={() => replayInputRef.current?.click()}
+                >
+                  Importar replay
+                </button>
+                <input
+                  ref={replayInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  hidden
+                  onChange={event => {
+                    const file = event.target.files?.[0];
+                    event.target.value = "";
+                    if (file) {
+                      importReplay(file);
+                    }
+                  }}
+                />
+              </div>
+              {replayError && <p className="overlay-error">{replayError}</p>}
+              <div className="overlay-actions">
+                <select
+                  className="level-select"
+                  value={levelId}
+                  onChange={event => chooseLevel(event.target.value)}
+                >
+                  <option value="endless">Infinito</option>
+                  {levels.map(level => (
+                    <option key={level.id} value={level.id}>
+                      {level.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  className="ghost"
+                  onClick={() => levelInputRef.current?.click()}
+                >
+                  Importar fase
+                </button>
+                <input
+                  ref={levelInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  hidden
+                  onChange={event => {
+                    const file = event.target.files?.[0];
+                    event.target.value = "";
+                    if (file) {
+                      importLevel(file);
+                    }
+                  }}
+                />
+              </div>
+              {levelError && <p className="overlay-error">{levelError}</p>}
+              <div className="overlay-hint">
+                Enter inicia / P ou Esc pausa / F tela cheia
+              </div>
+            </div>
+          </div>
+        )}
+        {mode === "paused" && (
+          <div className="game-overlay">
+            <div className="overlay-card">
+              <p className="overlay-tag">Operacao: Galactic Toast</p>
+              <h2>Pausado</h2>
+              <p>Os motores estao em espera. Nenhum efeito expira agora.</p>
+              <div className="overlay-actions">
+                <button className="primary" onClick={resumeGame}>
+                  Continuar
+                </button>
+                <button className="ghost" onClick={restartGame}>
+                  Reiniciar
+                </button>
+                <button className="ghost" onClick={exitGame}>
+                  Sair para o menu
+                </button>
+                {canFullscreen() && (
+                  <button className="ghost" onClick={toggleFullscreenMode}>
+                    {fullscreen ? "Sair da tela cheia" : "Tela cheia"}
+                  </button>
+                )}
+              </div>
+              <div className="overlay-hint">P, Esc ou Enter continua</div>
+            </div>
+          </div>
+        )}
+        {mode === "lobby" && online && (
+          <div className="game-overlay">
+            <div className="overlay-card">
+              <p className="overlay-tag">Sala {online.code}</p>
+              <h2>
+                {online.phase === "over"
+                  ? `Fim de jogo: ${lastScore} mortes`
+                  : "Aguardando tripulacao"}
+              </h2>
+              <p>
+                Compartilhe o codigo <strong>{online.code}</strong> para chamar
+                mais torradeiras.
+              </p>
+              <ol className="overlay-members">
+                {online.members.map((member, index) => (
+                  <li key={index}>
+                    <span>
+                      {member.name}
+                      {index === online.you ? " (voce)" : ""}
+                    </span>
+                    <span>
+                      {index === online.host
+                        ? "anfitriao"
+                        : member.connected
+                          ? "pronto"
+                          : "desconectado"}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+              {online.status !== "open" && (
+                <p className="overlay-hint">
+                  {ROOM_STATUS_LABELS[online.status]}
+                </p>
+              )}
+              {online.error && <p className="overlay-error">{online.error}</p>}
+              <div className="overlay-actions">
+                {online.host === online.you && online.status === "open" && (
+                  <button
+                    className="primary"
+                    disabled={
+                      online.members.filter(member => member.connected).length <
+                      MIN_ROOM_PLAYERS
+                    }
+                    onClick={() => roomRef.current?.start()}
+                  >
+                    {online.phase === "over" ? "Jogar de novo" : "Iniciar"}
+                  </button>
+                )}
+                <button className="ghost" onClick={leaveRoom}>
+                  Sair da sala
+                </button>
+              </div>
+              {online.host !== online.you && (
+                <div className="overlay-hint">
+                  O anfitriao inicia a partida.
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+        {unlocks.length > 0 && (
+          <div className="unlock-notices">
+            {unlocks.map(achievement => (
+              <div key={achievement.id} className="unlock-notice">
+                <span>Conquista desbloqueada</span>
+                <strong>{achievement.title}</strong>
+              </div>
+            ))}
+          </div>
+        )}
+        {mode === "online" && online && online.status !== "open" && (
+          <div className="online-status">
+            {ROOM_STATUS_LABELS[online.status]}
+            {online.status === "closed" && (
+              <button className="ghost" onClick={leaveRoom}>
+                Sair da sala
+              </button>
+            )}
+          </div>
+        )}
+        {mode === "replay" && replayView && (
+          <ReplayControls
+            view={replayView}
+            onTogglePlay={toggleReplayPlay}
+            onSpeed={setReplaySpeed}
+            onSeek={seekReplay}
+            onExit={stopReplay}
+          />
+        )}
+        {rotatePrompt && (
+          <div className="game-overlay rotate-prompt">
+            <div className="overlay-card">
+              <h2>Gire o aparelho</h2>
+              <p>A missao cabe melhor com a tela deitada.</p>
+              <div className="overlay-actions">
+                <button
+                  className="ghost"
+                  onClick={() => setRotatePrompt(false)}
+                >
+                  Jogar assim mesmo
+                </button>
               </div>
-              <div className="overlay-hint">Enter inicia / Esc encerra</div>
             </div>
           </div>
         )}
@@ -1131,18 +2186,25 @@ export function GalacticToast() {
           <span>Vidas</span>
           <strong>{stats.lives}</strong>
         </div>
-        <div>
-          <span>Torradas</span>
-          <strong>{stats.ammo}</strong>
-        </div>
         <div>
           <span>Combo</span>
           <strong>{stats.combo}</strong>
         </div>
-        <div>
-          <span>Escudo</span>
-          <strong>{stats.shield}</strong>
-        </div>
+        {stats.players.map((player, index) => {
+          const tag = stats.players.length > 1 ? `P${index + 1} ` : "";
+          return (
+            <Fragment key={index}>
+              <div>
+                <span>{tag}Torradas</span>
+                <strong>{player.ammo}</strong>
+              </div>
+              <div>
+                <span>{tag}Escudo</span>
+                <strong>{player.shield}</strong>
+              </div>
+            </Fragment>
+          );
+        })}
       </div>
 
       <div className="touch-controls" aria-hidden="true">
@@ -1162,6 +2224,15 @@ export function GalacticToast() {
             </button>
           </div>
         </div>
+        <button
+          type="button"
+          className="pad-button"
+          onClick={() =>
+            modeRef.current === "paused" ? resumeGame() : pauseGame()
+          }
+        >
+          ||
+        </button>
         <button type="button" className="fire-button" {...bindControl("shoot")}>
           Torrar
         </button>
@@ -0,0 +1,71 @@
+export type ReplayView = {
+  playing: boolean;
+  speed: number;
+  tick: number;
+  tickCount: number;
+  timeMs: number;
+  durationMs: number;
+};
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+const formatClock = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+type ReplayControlsProps = {
+  view: ReplayView;
+  onTogglePlay: () => void;
+  onSpeed: (speed: number) => void;
+  onSeek: (tick: number) => void;
+  onExit: () => void;
+};
+
+export function ReplayControls({
+  view,
+  onTogglePlay,
+  onSpeed,
+  onSeek,
+  onExit,
+}: ReplayControlsProps) {
+  return (
+    <div className="replay-bar">
+      <span className="replay-tag">Replay</span>
+      <button type="button" onClick={onTogglePlay}>
+        {view.playing ? "Pausar" : "Continuar"}
+      </button>
+      <div className="replay-speeds">
+        {REPLAY_SPEEDS.map(speed => (
+          <button
+            key={speed}
+            type="button"
+            className={speed === view.speed ? "active" : undefined}
+            onClick={() => onSpeed(speed)}
+          >
+            {speed}x
+          </button>
+        ))}
+      </div>
+      <input
+        type="range"
+        className="replay-scrubber"
+        min={0}
+        max={view.tickCount}
+        value={view.tick}
+        onChange={event => onSeek(Number(event.target.value))}
+        aria-label="Posicao do replay"
+      />
+      <span className="replay-clock">
+        {formatClock(view.timeMs)} / {formatClock(view.durationMs)}
+      </span>
+      <button type="button" onClick={onExit}>
+        Sair
+      </button>
+    </div>
+  );
+}
+
+export default ReplayControls;
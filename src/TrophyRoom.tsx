@@ -0,0 +1,47 @@
+import { useEffect, useState } from "react";
+
+import { loadAchievementProgress, subscribeAchievements } from "./achievements";
+import { ACHIEVEMENTS } from "./game/achievements";
+
+export function TrophyRoom() {
+  const [progress, setProgress] = useState(loadAchievementProgress);
+
+  // Copies, since the game updates its progress object in place.
+  useEffect(() => subscribeAchievements(next => setProgress({ ...next })), []);
+
+  const unlocked = ACHIEVEMENTS.filter(
+    achievement => progress[achievement.id]?.unlockedAt
+  ).length;
+
+  return (
+    <div className="panel-block trophy-room">
+      <h2>
+        Trofeus {unlocked}/{ACHIEVEMENTS.length}
+      </h2>
+      <ul>
+        {ACHIEVEMENTS.map(achievement => {
+          const entry = progress[achievement.id];
+          const done = Boolean(entry?.unlockedAt);
+          return (
+            <li key={achievement.id} className={done ? "unlocked" : undefined}>
+              <strong>{achievement.title}</strong>
+              <span>{achievement.description}</span>
+              {achievement.goal > 1 && !done && (
+                <div className="trophy-progress">
+                  <div
+                    style={{
+                      width: `${((entry?.progress ?? 0) / achievement.goal) * 100}%`,
+                    }}
+                  />
+                  <span>
+                    {entry?.progress ?? 0}/{achievement.goal}
+                  </span>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useEffect, useRef, useState } from "react";
+
+import { fetchBroadcasts, watchBroadcast } from "./broadcast";
+import { watchCanvasResolution } from "./display";
+import { HEIGHT, TICK_MS, WIDTH } from "./game/constants";
+import { createFixedStep } from "./game/fixedStep";
+import { interpolateState } from "./game/interpolate";
+import { formatRunScore } from "./game/modes";
+import { createReplayPlayer } from "./game/replay";
+import type { ReplayPlayer } from "./game/replay";
+import type { GameState } from "./game/types";
+import type { Renderer } from "./renderer";
+import { createRenderer, loadRendererChoice, loadScene } from "./renderer";
+import type { BroadcastSummary } from "./server/broadcasts";
+
+// Spectators trail the live run by this much, so uneven chunk delivery
+// never shows up as stutter.
+const WATCH_DELAY_MS = 2000;
+const DELAY_TICKS = Math.round(WATCH_DELAY_MS / TICK_MS);
+// Further behind than this (a stalled tab, say) jumps straight to the delay.
+const CATCH_UP_TICKS = DELAY_TICKS * 3;
+const LIST_REFRESH_MS = 3000;
+
+type WatchStatus = "waiting" | "live" | "over" | "ended";
+
+const WATCH_STATUS_LABELS: Record<WatchStatus, string> = {
+  waiting: "Aguardando a proxima partida...",
+  live: "Ao vivo",
+  over: "Partida encerrada",
+  ended: "Transmissao encerrada.",
+};
+
+export function WatchIndex() {
+  const [broadcasts, setBroadcasts] = useState<BroadcastSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () =>
+      fetchBroadcasts()
+        .then(next => {
+          if (!cancelled) {
+            setBroadcasts(next);
+            setError(null);
+          }
+        })
+        .catch(failure => {
+          if (!cancelled) {
+            setError(
+              failure instanceof Error
+                ? failure.message
+                : "Falha ao listar transmissoes."
+            );
+          }
+        });
+    refresh();
+    const timer = window.setInterval(refresh, LIST_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, []);
+
+  return (
+    <div className="watch-index">
+      <h1>Transmissoes ao vivo</h1>
+      {error && <p className="overlay-error">{error}</p>}
+      {broadcasts === null ? (
+        <p>Carregando...</p>
+      ) : broadcasts.length === 0 ? (
+        <p>Ninguem esta transmitindo agora.</p>
+      ) : (
+        <ul>
+          {broadcasts.map(broadcast => (
+            <li key={broadcast.id}>
+              <a href={`/watch/${broadcast.id}`}>{broadcast.name}</a>
+              <span>
+                {broadcast.startedAt === null
+                  ? "aguardando"
+                  : `${broadcast.over ? "fim" : "ao vivo"}: ${formatRunScore(
+                      broadcast.mode,
+                      broadcast.score
+                    )}`}
+              </span>
+              <span>{broadcast.watchers} assistindo</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <a className="watch-back" href="/">
+        Voltar ao jogo
+      </a>
+    </div>
+  );
+}
+
+export function WatchRun({ id }: { id: string }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  const overRef = useRef(false);
+  const [name, setName] = useState<string | null>(null);
+  const [status, setStatus] = useState<WatchStatus>("waiting");
+  const [loadingError, setLoadingError] = useState<string | null>(null);
+  // Set when the WebGL context is lost; the canvas is swapped for a 2D one.
+  const [webglLost, setWebglLost] = useState(false);
+  const rendererKind = webglLost ? "canvas" : loadRendererChoice();
+
+  useEffect(() => {
+    const connection = watchBroadcast(
+      id,
+      message => {
+        switch (message.type) {
+          case "run":
+            playerRef.current = createReplayPlayer(message.replay);
+            overRef.current = false;
+            setName(message.name);
+            setStatus("live");
+            break;
+          case "inputs":
+            playerRef.current?.extend(message.inputs);
+            break;
+          case "over":
+            overRef.current = true;
+            setStatus("over");
+            break;
+          case "ended":
+            overRef.current = true;
+            setStatus("ended");
+            break;
+        }
+      },
+      () => {
+        overRef.current = true;
+        setStatus("ended");
+      }
+    );
+    return () => connection.close();
+  }, [id]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    return canvas ? watchCanvasResolution(canvas) : undefined;
+  }, [rendererKind]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let frame = 0;
+    let renderer: Renderer | null = null;
+    loadScene()
+      .then(images => {
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) {
+          return;
+        }
+        renderer = createRenderer(canvas, images, rendererKind, () =>
+          setWebglLost(true)
+        );
+        const clock = createFixedStep();
+        let shown: ReplayPlayer | null = null;
+        let previous: GameState | null = null;
+        let lastTime = performance.now();
+
+        const loop = (timestamp: number) => {
+          const frameSeconds = (timestamp - lastTime) / 1000;
+          lastTime = timestamp;
+          const player = playerRef.current;
+          if (player !== shown) {
+            shown = player;
+            previous = null;
+            clock.reset();
+          }
+          if (player) {
+            // Once the run is over there is nothing left to wait for.
+            const target = overRef.current
+              ? player.tickCount
+              : player.tickCount - DELAY_TICKS;
+            if (target - player.tick > CATCH_UP_TICKS) {
+              player.seek(target);
+              previous = null;
+              clock.reset();
+            }
+            clock.advance(frameSeconds, () => {
+              if (player.tick >= target) {
+                return false;
+              }
+              previous = player.state;
+              player.step();
+              return true;
+            });
+            renderer?.draw(
+              interpolateState(
+                previous ?? player.state,
+                player.state,
+                clock.alpha
+              ),
+              { seed: player.replay.seed }
+            );
+          }
+          frame = requestAnimationFrame(loop);
+        };
+        frame = requestAnimationFrame(loop);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setLoadingError(
+            error instanceof Error ? error.message : "Falha ao carregar assets."
+          );
+        }
+      });
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      renderer?.dispose();
+    };
+  }, [rendererKind]);
+
+  return (
+    <div className="game-shell">
+      <div className="game-stage">
+        <canvas
+          key={rendererKind}
+          ref={canvasRef}
+          className="game-canvas"
+          width={WIDTH}
+          height={HEIGHT}
+        />
+        <div className="watch-bar">
+          <span className="replay-tag">{WATCH_STATUS_LABELS[status]}</span>
+          {name && <strong>{name}</strong>}
+          <a href="/watch">Outras transmissoes</a>
+        </div>
+        {loadingError && (
+          <div className="game-overlay">
+            <p className="overlay-error">{loadingError}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import type { AchievementProgress } from "./game/achievements";
+
+const STORAGE_KEY = "galactic-toast:achievements";
+
+const listeners = new Set<(progress: AchievementProgress) => void>();
+
+export const loadAchievementProgress = (): AchievementProgress => {
+  try {
+    const data: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return data && typeof data === "object"
+      ? (data as AchievementProgress)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+// Stores `progress` and tells every subscriber in this tab, so the trophy
+// room follows the game without polling.
+export const saveAchievementProgress = (progress: AchievementProgress) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+  } catch {
+    // Storage full or disabled; unlocks still show for this session.
+  }
+  for (const listener of listeners) {
+    listener(progress);
+  }
+};
+
+export const subscribeAchievements = (
+  listener: (progress: AchievementProgress) => void
+) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
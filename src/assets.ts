@@ -0,0 +1,143 @@
+import { bakeSheet, sheetFromStrip } from "./sprites";
+import type { SheetBake, SpriteSheet } from "./sprites";
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 400;
+
+export type ImageAsset = { type: "image"; url: string };
+// Without `bake`, `url` is already a strip of `frameCount` frames.
+export type SheetAsset = {
+  type: "sheet";
+  url: string;
+  frameCount: number;
+  fps: number;
+  bake?: SheetBake;
+};
+export type SoundAsset = {
+  type: "sound";
+  url: string;
+  volume: number;
+  loop?: boolean;
+};
+// A CSS font shorthand, e.g. '16px "Space Grotesk"'.
+export type FontAsset = { type: "font"; font: string };
+
+// `optional` assets that fail to load come back as null instead of failing
+// the whole load.
+export type AssetEntry = (ImageAsset | SheetAsset | SoundAsset | FontAsset) & {
+  optional?: boolean;
+};
+
+export type AssetManifest = Readonly<Record<string, AssetEntry>>;
+
+type LoadedAsset<E> = E extends ImageAsset
+  ? HTMLImageElement
+  : E extends SheetAsset
+    ? SpriteSheet
+    : E extends SoundAsset
+      ? HTMLAudioElement
+      : true;
+
+export type LoadedAssets<M extends AssetManifest> = {
+  [K in keyof M]: M[K] extends { optional: true }
+    ? LoadedAsset<M[K]> | null
+    : LoadedAsset<M[K]>;
+};
+
+export type LoadProgress = { loaded: number; total: number };
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load ${url}`));
+    img.src = url;
+  });
+
+// Fetched up front so progress means the sound is really there, not just
+// that the browser agreed to stream it later.
+const loadSound = async ({ url, volume, loop = false }: SoundAsset) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}`);
+  }
+  const audio = new Audio(URL.createObjectURL(await response.blob()));
+  audio.preload = "auto";
+  audio.volume = volume;
+  audio.loop = loop;
+  return audio;
+};
+
+const loadEntry = async (entry: AssetEntry) => {
+  switch (entry.type) {
+    case "image":
+      return loadImage(entry.url);
+    case "sheet": {
+      const image = await loadImage(entry.url);
+      return entry.bake
+        ? bakeSheet(image, entry.bake, entry.frameCount, entry.fps)
+        : sheetFromStrip(image, entry.frameCount, entry.fps);
+    }
+    case "sound":
+      return loadSound(entry);
+    case "font":
+      await document.fonts.load(entry.font);
+      return true;
+  }
+};
+
+const withRetry = async <T>(load: () => Promise<T>) => {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await load();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+      await wait(RETRY_BASE_MS * attempt);
+    }
+  }
+};
+
+/**
+ * Loads every entry of `manifest` in parallel, retrying each one a few times
+ * before giving up on it. A required asset that still fails rejects the load
+ * with its name; an optional one resolves to null so the game runs without
+ * it. `onProgress` hears about every settled entry.
+ */
+export const loadAssets = async <M extends AssetManifest>(
+  manifest: M,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<LoadedAssets<M>> => {
+  const names = Object.keys(manifest);
+  const progress = { loaded: 0, total: names.length };
+  onProgress?.({ ...progress });
+
+  const loaded = await Promise.all(
+    names.map(async name => {
+      const entry = manifest[name]!;
+      try {
+        return await withRetry(() => loadEntry(entry));
+      } catch (error) {
+        if (!entry.optional) {
+          throw new Error(
+            `Failed to load "${name}": ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+        // Whoever uses an optional asset checks for null.
+        return null;
+      } finally {
+        progress.loaded += 1;
+        onProgress?.({ ...progress });
+      }
+    })
+  );
+
+  return Object.fromEntries(
+    names.map((name, index) => [name, loaded[index]])
+  ) as LoadedAssets<M>;
+};
@@ -0,0 +1,92 @@
+import type { Replay } from "./game/replay";
+import { readError } from "./scoresApi";
+import type {
+  BroadcastSummary,
+  BroadcasterMessage,
+  BroadcasterReply,
+  WatchMessage,
+} from "./server/broadcasts";
+
+export type BroadcastStatus = "connecting" | "live" | "closed";
+
+export type BroadcastConnection = {
+  // Opens a new run; `replay` is its header, with no inputs yet.
+  run: (replay: Replay) => void;
+  push: (inputs: number[], score: number) => void;
+  over: (score: number) => void;
+  stop: () => void;
+};
+
+const socketUrl = (path: string) => {
+  const protocol = location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${location.host}${path}`;
+};
+
+/**
+ * Opens a broadcast for this tab. Anything sent before the socket is up is
+ * queued, so a run started right after opting in is not cut short. There is
+ * no reconnect: a dropped broadcast ends for its watchers too.
+ */
+export const startBroadcast = (
+  name: string,
+  onStatus: (status: BroadcastStatus, id: string | null) => void
+): BroadcastConnection => {
+  const params = new URLSearchParams({ name });
+  const socket = new WebSocket(socketUrl(`/api/broadcasts/socket?${params}`));
+  const queue: string[] = [];
+  let id: string | null = null;
+  onStatus("connecting", null);
+
+  socket.onopen = () => {
+    for (const text of queue.splice(0)) {
+      socket.send(text);
+    }
+  };
+  socket.onmessage = event => {
+    const message = JSON.parse(String(event.data)) as BroadcasterReply;
+    if (message.type === "welcome") {
+      id = message.id;
+      onStatus("live", id);
+    }
+  };
+  socket.onclose = () => onStatus("closed", id);
+
+  const send = (message: BroadcasterMessage) => {
+    const text = JSON.stringify(message);
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(text);
+    } else if (socket.readyState === WebSocket.CONNECTING) {
+      queue.push(text);
+    }
+  };
+
+  return {
+    run: replay => send({ type: "run", replay }),
+    push: (inputs, score) => send({ type: "inputs", inputs, score }),
+    over: score => send({ type: "over", score }),
+    stop: () => socket.close(),
+  };
+};
+
+export const fetchBroadcasts = async () => {
+  const response = await fetch("/api/broadcasts");
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const body = (await response.json()) as { broadcasts: BroadcastSummary[] };
+  return body.broadcasts;
+};
+
+// Read-only feed of broadcast `id`. `onClose` runs once the socket is gone,
+// whatever the reason.
+export const watchBroadcast = (
+  id: string,
+  onMessage: (message: WatchMessage) => void,
+  onClose: () => void
+) => {
+  const socket = new WebSocket(socketUrl(`/api/broadcasts/${id}/socket`));
+  socket.onmessage = event =>
+    onMessage(JSON.parse(String(event.data)) as WatchMessage);
+  socket.onclose = onClose;
+  return { close: () => socket.close() };
+};
@@ -0,0 +1,28 @@
+const ATTEMPTS_KEY = "galactic-toast:daily-attempts";
+// Old days are dropped so the list stays tiny.
+const KEEP_DAYS = 14;
+
+const readAttempts = (): string[] => {
+  try {
+    const data: unknown = JSON.parse(
+      localStorage.getItem(ATTEMPTS_KEY) ?? "[]"
+    );
+    return Array.isArray(data)
+      ? data.filter(day => typeof day === "string")
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const hasPlayedDaily = (day: string) => readAttempts().includes(day);
+
+// Called when a challenge run starts: quitting early still spends the attempt.
+export const markDailyPlayed = (day: string) => {
+  const days = [...readAttempts().filter(known => known !== day), day];
+  try {
+    localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(days.slice(-KEEP_DAYS)));
+  } catch {
+    // Without storage the server still enforces one ranked attempt.
+  }
+};
@@ -0,0 +1,107 @@
+import { HEIGHT, WIDTH } from "./game/constants";
+
+// Past this the canvas costs a lot of fill for no visible gain.
+const MAX_PIXEL_RATIO = 3;
+// Phones and tablets held upright; a narrow desktop window is left alone.
+const PORTRAIT_QUERY = "(orientation: portrait) and (pointer: coarse)";
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+// Backing sizes are whole multiples of WIDTH / SIZE_UNIT by HEIGHT / SIZE_UNIT,
+// so they keep the exact aspect ratio and a rounded size never nudges the CSS
+// layout into another resize.
+const SIZE_UNIT = gcd(WIDTH, HEIGHT);
+
+/**
+ * Keeps the canvas's backing store at its on-screen size times the device
+ * pixel ratio, so it stays sharp on HiDPI screens. Drawing code keeps using
+ * the logical WIDTH x HEIGHT space by scaling to `canvas.width / WIDTH`.
+ * Follows layout changes and moves to a screen with another pixel ratio.
+ * Returns the cleanup.
+ */
+export const watchCanvasResolution = (canvas: HTMLCanvasElement) => {
+  let media: MediaQueryList | null = null;
+
+  const fit = () => {
+    const ratio = Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO);
+    const units = Math.max(
+      1,
+      Math.round(((canvas.clientWidth || WIDTH) * ratio * SIZE_UNIT) / WIDTH)
+    );
+    const width = (units * WIDTH) / SIZE_UNIT;
+    const height = (units * HEIGHT) / SIZE_UNIT;
+    // Assigning the size clears the canvas, even to the same value.
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+  };
+
+  // A resolution query only matches one ratio, so it is swapped for a new
+  // one every time the ratio changes.
+  const onRatioChange = () => {
+    fit();
+    watchRatio();
+  };
+  const watchRatio = () => {
+    media?.removeEventListener("change", onRatioChange);
+    media = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+    media.addEventListener("change", onRatioChange);
+  };
+
+  const observer = new ResizeObserver(fit);
+  observer.observe(canvas);
+  fit();
+  watchRatio();
+
+  return () => {
+    observer.disconnect();
+    media?.removeEventListener("change", onRatioChange);
+  };
+};
+
+export const canFullscreen = () => Boolean(document.fullscreenEnabled);
+
+/**
+ * Takes `element` fullscreen, or leaves fullscreen if anything is. Phones
+ * are asked to hold landscape while fullscreen; browsers that refuse the
+ * lock just keep following the device.
+ */
+export const toggleFullscreen = async (element: HTMLElement) => {
+  if (document.fullscreenElement) {
+    await document.exitFullscreen();
+    return;
+  }
+  await element.requestFullscreen({ navigationUI: "hide" });
+  const orientation = screen.orientation as ScreenOrientation & {
+    lock?: (orientation: "landscape") => Promise<void>;
+  };
+  try {
+    await orientation.lock?.("landscape");
+  } catch {
+    // Not supported or not allowed here; the rotate prompt covers it.
+  }
+};
+
+// Calls `listener` with the fullscreen element, or null, on every change.
+export const subscribeFullscreen = (
+  listener: (element: Element | null) => void
+) => {
+  const onChange = () => listener(document.fullscreenElement);
+  document.addEventListener("fullscreenchange", onChange);
+  return () => {
+    document.removeEventListener("fullscreenchange", onChange);
+  };
+};
+
+export const isPortrait = () => window.matchMedia(PORTRAIT_QUERY).matches;
+
+// Calls `listener` whenever a touch device turns between portrait and
+// landscape.
+export const subscribePortrait = (listener: (portrait: boolean) => void) => {
+  const media = window.matchMedia(PORTRAIT_QUERY);
+  const onChange = (event: MediaQueryListEvent) => listener(event.matches);
+  media.addEventListener("change", onChange);
+  return () => {
+    media.removeEventListener("change", onChange);
+  };
+};
@@ -0,0 +1,345 @@
+import type { GameEventBus } from "./game/events";
+import { POWERUPS } from "./game/powerUps";
+
+// Particles live in a fixed pool; bursts past the cap are dropped rather than
+// allocating mid-run.
+const MAX_PARTICLES = 600;
+const MAX_FLOATERS = 24;
+const FLOATER_SECONDS = 0.9;
+const FLOATER_RISE = 36;
+export const FLOATER_FONT =
+  'bold 14px "JetBrains Mono", "Space Grotesk", sans-serif';
+// Shake follows "trauma": events add to it, it decays over time and the
+// offset grows with its square, so small hits barely register.
+const MAX_SHAKE_PX = 14;
+const TRAUMA_DECAY = 1.8;
+const REDUCED_MOTION_KEY = "galactic-toast:reduced-motion";
+
+const SHAKE = {
+  enemyDestroyed: 0.1,
+  shieldBreak: 0.3,
+  playerHit: 0.6,
+  nova: 0.5,
+  bossDefeated: 0.9,
+};
+
+type Particle = {
+  x: number;
+  y: number;
+  velocityX: number;
+  velocityY: number;
+  age: number;
+  life: number;
+  size: number;
+  color: string;
+};
+
+type Floater = {
+  x: number;
+  y: number;
+  text: string;
+  color: string;
+  age: number;
+};
+
+type Burst = {
+  count: number;
+  color: string;
+  speed: [number, number];
+  life: [number, number];
+  size: [number, number];
+  // Evenly spaced directions instead of random ones.
+  ring?: boolean;
+};
+
+const EXPLOSION: Burst = {
+  count: 14,
+  color: "#f4a25b",
+  speed: [60, 220],
+  life: [0.35, 0.7],
+  size: [2, 4],
+};
+const SPLITTER_DEBRIS: Burst = {
+  count: 8,
+  color: "#8c7a6b",
+  speed: [30, 110],
+  life: [0.6, 1],
+  size: [3, 6],
+};
+const CRUMBS: Burst = {
+  count: 5,
+  color: "#d9a35f",
+  speed: [40, 120],
+  life: [0.2, 0.4],
+  size: [1.5, 3],
+};
+const SHIELD_SPARKS: Burst = {
+  count: 12,
+  color: "#8fc2ff",
+  speed: [150, 300],
+  life: [0.15, 0.3],
+  size: [1.5, 2.5],
+};
+const TOASTER_HIT: Burst = {
+  count: 18,
+  color: "#e25d6f",
+  speed: [80, 240],
+  life: [0.3, 0.6],
+  size: [2, 4],
+};
+const BOSS_EXPLOSION: Burst = {
+  count: 70,
+  color: "#f4c37a",
+  speed: [80, 360],
+  life: [0.6, 1.3],
+  size: [3, 6],
+};
+
+// A choice made in the game wins; until then, follow the system setting.
+export const loadReducedMotion = () => {
+  try {
+    const saved = localStorage.getItem(REDUCED_MOTION_KEY);
+    if (saved !== null) {
+      return saved === "1";
+    }
+  } catch {
+    // Fall through to the system setting.
+  }
+  return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+};
+
+export const saveReducedMotion = (reduced: boolean) => {
+  try {
+    localStorage.setItem(REDUCED_MOTION_KEY, reduced ? "1" : "0");
+  } catch {
+    // Storage disabled; the choice lasts until the tab closes.
+  }
+};
+
+const between = ([min, max]: [number, number]) =>
+  min + Math.random() * (max - min);
+
+export type Effects = {
+  // Offset to draw the playfield at this frame; zero with reduced motion.
+  readonly shake: { x: number; y: number };
+  // Subscribes to `bus`; returns the unsubscribe.
+  connect: (bus: GameEventBus) => () => void;
+  update: (seconds: number) => void;
+  draw: (ctx: CanvasRenderingContext2D) => void;
+  // What `draw` paints, for renderers without a 2D context. Positions are
+  // centers and already include the fade and the rise.
+  forEachParticle: (
+    visit: (
+      x: number,
+      y: number,
+      size: number,
+      color: string,
+      alpha: number
+    ) => void
+  ) => void;
+  forEachFloater: (
+    visit: (
+      text: string,
+      x: number,
+      y: number,
+      color: string,
+      alpha: number
+    ) => void
+  ) => void;
+  clear: () => void;
+};
+
+/**
+ * Juice layered over the simulation: particles, floating text and camera
+ * shake, all driven by gameplay events. Purely cosmetic, so it runs on the
+ * frame clock and Math.random and never feeds back into a run. With reduced
+ * motion there is no shake and no particles, and text fades in place.
+ */
+export const createEffects = (reducedMotion: () => boolean): Effects => {
+  const pool: Particle[] = Array.from({ length: MAX_PARTICLES }, () => ({
+    x: 0,
+    y: 0,
+    velocityX: 0,
+    velocityY: 0,
+    age: 0,
+    life: 0,
+    size: 0,
+    color: "",
+  }));
+  // pool[0..active) are alive.
+  let active = 0;
+  let floaters: Floater[] = [];
+  let trauma = 0;
+  const shake = { x: 0, y: 0 };
+  // Combo text goes where the last kill happened.
+  let lastKill = { x: 0, y: 0 };
+
+  const burst = (x: number, y: number, recipe: Burst) => {
+    if (reducedMotion()) {
+      return;
+    }
+    for (let i = 0; i < recipe.count && active < MAX_PARTICLES; i += 1) {
+      const particle = pool[active]!;
+      active += 1;
+      const angle = recipe.ring
+        ? (i / recipe.count) * Math.PI * 2
+        : Math.random() * Math.PI * 2;
+      const speed = between(recipe.speed);
+      particle.x = x;
+      particle.y = y;
+      particle.velocityX = Math.cos(angle) * speed;
+      particle.velocityY = Math.sin(angle) * speed;
+      particle.age = 0;
+      particle.life = between(recipe.life);
+      particle.size = between(recipe.size);
+      particle.color = recipe.color;
+    }
+  };
+
+  const float = (x: number, y: number, text: string, color: string) => {
+    floaters.push({ x, y, text, color, age: 0 });
+    if (floaters.length > MAX_FLOATERS) {
+      floaters.shift();
+    }
+  };
+
+  const addTrauma = (amount: number) => {
+    trauma = Math.min(1, trauma + amount);
+  };
+
+  const forEachParticle: Effects["forEachParticle"] = visit => {
+    for (let i = 0; i < active; i += 1) {
+      const particle = pool[i]!;
+      visit(
+        particle.x,
+        particle.y,
+        particle.size,
+        particle.color,
+        1 - particle.age / particle.life
+      );
+    }
+  };
+
+  const forEachFloater: Effects["forEachFloater"] = visit => {
+    const rise = reducedMotion() ? 0 : FLOATER_RISE;
+    for (const floater of floaters) {
+      const progress = floater.age / FLOATER_SECONDS;
+      visit(
+        floater.text,
+        floater.x,
+        floater.y - rise * progress,
+        floater.color,
+        1 - progress
+      );
+    }
+  };
+
+  return {
+    shake,
+    connect: bus => {
+      const unsubscribes = [
+        bus.on("shotImpact", event => burst(event.x, event.y, CRUMBS)),
+        bus.on("enemyDestroyed", event => {
+          burst(event.x, event.y, EXPLOSION);
+          if (event.kind === "splitter") {
+            burst(event.x, event.y, SPLITTER_DEBRIS);
+          }
+          float(event.x, event.y, "+1", "#f8f1e7");
+          lastKill = { x: event.x, y: event.y };
+          addTrauma(SHAKE.enemyDestroyed);
+        }),
+        bus.on("comboChanged", event => {
+          if (event.combo >= 2) {
+            float(
+              lastKill.x,
+              lastKill.y - 20,
+              `Combo x${event.combo}`,
+              "#58d3c0"
+            );
+          }
+        }),
+        bus.on("playerHit", event => {
+          if (event.shielded) {
+            burst(event.x, event.y, SHIELD_SPARKS);
+            addTrauma(SHAKE.shieldBreak);
+          } else {
+            burst(event.x, event.y, TOASTER_HIT);
+            addTrauma(SHAKE.playerHit);
+          }
+        }),
+        bus.on("powerUpCollected", event =>
+          burst(event.x, event.y, {
+            count: 16,
+            color: POWERUPS[event.kind].style.stroke,
+            speed: [140, 160],
+            life: [0.4, 0.5],
+            size: [2, 3],
+            ring: true,
+          })
+        ),
+        bus.on("novaDetonated", () => addTrauma(SHAKE.nova)),
+        bus.on("bossDefeated", event => {
+          burst(event.x, event.y, BOSS_EXPLOSION);
+          float(event.x, event.y, `+${event.bonus}`, "#f4c37a");
+          addTrauma(SHAKE.bossDefeated);
+        }),
+      ];
+      return () => {
+        for (const unsubscribe of unsubscribes) {
+          unsubscribe();
+        }
+      };
+    },
+    update: seconds => {
+      for (let i = 0; i < active;) {
+        const particle = pool[i]!;
+        particle.age += seconds;
+        if (particle.age >= particle.life) {
+          // Swap the dead one with the last live one; order does not matter.
+          active -= 1;
+          pool[i] = pool[active]!;
+          pool[active] = particle;
+          continue;
+        }
+        particle.x += particle.velocityX * seconds;
+        particle.y += particle.velocityY * seconds;
+        i += 1;
+      }
+      for (const floater of floaters) {
+        floater.age += seconds;
+      }
+      floaters = floaters.filter(floater => floater.age < FLOATER_SECONDS);
+
+      trauma = Math.max(0, trauma - TRAUMA_DECAY * seconds);
+      const magnitude = reducedMotion() ? 0 : MAX_SHAKE_PX * trauma * trauma;
+      shake.x = (Math.random() * 2 - 1) * magnitude;
+      shake.y = (Math.random() * 2 - 1) * magnitude;
+    },
+    draw: ctx => {
+      ctx.save();
+      forEachParticle((x, y, size, color, alpha) => {
+        ctx.globalAlpha = alpha;
+        ctx.fillStyle = color;
+        ctx.fillRect(x - size / 2, y - size / 2, size, size);
+      });
+      ctx.font = FLOATER_FONT;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      forEachFloater((text, x, y, color, alpha) => {
+        ctx.globalAlpha = alpha;
+        ctx.fillStyle = color;
+        ctx.fillText(text, x, y);
+      });
+      ctx.restore();
+    },
+    forEachParticle,
+    forEachFloater,
+    clear: () => {
+      active = 0;
+      floaters = [];
+      trauma = 0;
+      shake.x = 0;
+      shake.y = 0;
+    },
+  };
+};
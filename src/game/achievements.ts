@@ -0,0 +1,397 @@
+import { MAX_SHOTS_CAP } from "./constants";
+import type { GameEventOf, GameEventType } from "./events";
+import { POWERUP_KINDS } from "./powerUps";
+import type { GameEvent, GameState } from "./types";
+
+// What a rule can look at besides the event: the state after the step that
+// emitted it, and how often each event happened so far this run. `kind`
+// narrows to events that carry one, e.g. tally("enemyDestroyed", "splitter").
+export type RunContext = {
+  state: GameState;
+  tally: (type: GameEventType, kind?: string) => number;
+};
+
+// "count" adds what `measure` returns, "reach" keeps the highest value seen.
+export type AchievementRule = {
+  // Only this event moves the achievement; null listens to every event.
+  on: GameEventType | null;
+  mode: "count" | "reach";
+  measure: (event: GameEvent, run: RunContext) => number;
+};
+
+export type Achievement = {
+  id: string;
+  title: string;
+  description: string;
+  // Progress needed to unlock; 1 for one-off feats, which get no progress bar.
+  goal: number;
+  // "run" progress starts over every run and the best run is kept; "career"
+  // progress adds up across runs.
+  scope: "run" | "career";
+  rule: AchievementRule;
+};
+
+export type AchievementProgress = Partial<
+  Record<string, { progress: number; unlockedAt: string | null }>
+>;
+
+const count = <T extends GameEventType>(
+  type: T,
+  amount: (event: GameEventOf<T>, run: RunContext) => number = () => 1
+): AchievementRule => ({
+  on: type,
+  mode: "count",
+  measure: (event, run) => amount(event as GameEventOf<T>, run),
+});
+
+const reach = <T extends GameEventType>(
+  type: T,
+  measure: (event: GameEventOf<T>, run: RunContext) => number
+): AchievementRule => ({
+  on: type,
+  mode: "reach",
+  measure: (event, run) => measure(event as GameEventOf<T>, run),
+});
+
+// Checked on every event, for things read off the state such as the clock.
+const reachAny = (measure: (run: RunContext) => number): AchievementRule => ({
+  on: null,
+  mode: "reach",
+  measure: (_event, run) => measure(run),
+});
+
+const seconds = (state: GameState) => Math.floor(state.timeMs / 1000);
+
+/**
+ * Every achievement and what unlocks it. Adding one means adding an entry
+ * here: rules only read gameplay events and the run's state, so neither the
+ * simulation nor the game loop changes.
+ */
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "first-toast",
+    title: "Primeira torrada",
+    description: "Destrua um inimigo.",
+    goal: 1,
+    scope: "career",
+    rule: count("enemyDestroyed"),
+  },
+  {
+    id: "hundred-toasts",
+    title: "Fornada",
+    description: "Destrua 100 inimigos no total.",
+    goal: 100,
+    scope: "career",
+    rule: count("enemyDestroyed"),
+  },
+  {
+    id: "thousand-toasts",
+    title: "Padaria industrial",
+    description: "Destrua 1000 inimigos no total.",
+    goal: 1000,
+    scope: "career",
+    rule: count("enemyDestroyed"),
+  },
+  {
+    id: "combo-5",
+    title: "Combo x5",
+    description: "Chegue a um combo de 5.",
+    goal: 5,
+    scope: "run",
+    rule: reach("comboChanged", event => event.combo),
+  },
+  {
+    id: "combo-10",
+    title: "Combo x10",
+    description: "Chegue a um combo de 10.",
+    goal: 10,
+    scope: "run",
+    rule: reach("comboChanged", event => event.combo),
+  },
+  {
+    id: "combo-20",
+    title: "Combo x20",
+    description: "Chegue a um combo de 20.",
+    goal: 20,
+    scope: "run",
+    rule: reach("comboChanged", event => event.combo),
+  },
+  {
+    id: "splitters-10",
+    title: "Sem migalhas",
+    description: "Destrua 10 divisores em uma partida.",
+    goal: 10,
+    scope: "run",
+    rule: count("enemyDestroyed", event => (event.kind === "splitter" ? 1 : 0)),
+  },
+  {
+    id: "gunners-15",
+    title: "Desarmamento",
+    description: "Destrua 15 atiradores em uma partida.",
+    goal: 15,
+    scope: "run",
+    rule: count("enemyDestroyed", event => (event.kind === "gunner" ? 1 : 0)),
+  },
+  {
+    id: "armored-50",
+    title: "Abridor de latas",
+    description: "Destrua 50 blindados no total.",
+    goal: 50,
+    scope: "career",
+    rule: count("enemyDestroyed", event => (event.kind === "armored" ? 1 : 0)),
+  },
+  {
+    id: "first-upgrade",
+    title: "Mais pao na chapa",
+    description: "Ganhe um tiro extra.",
+    goal: 1,
+    scope: "career",
+    rule: count("upgradeUnlocked"),
+  },
+  {
+    id: "max-ammo",
+    title: "Forno no maximo",
+    description: `Chegue a ${MAX_SHOTS_CAP} tiros simultaneos.`,
+    goal: MAX_SHOTS_CAP,
+    scope: "run",
+    rule: reach("upgradeUnlocked", event => event.maxShots),
+  },
+  {
+    id: "first-boss",
+    title: "Nave-mae tostada",
+    description: "Derrote uma nave-mae.",
+    goal: 1,
+    scope: "career",
+    rule: count("bossDefeated"),
+  },
+  {
+    id: "bosses-3",
+    title: "Frota dizimada",
+    description: "Derrote 3 naves-mae em uma partida.",
+    goal: 3,
+    scope: "run",
+    rule: count("bossDefeated"),
+  },
+  {
+    id: "bosses-10",
+    title: "Cacador de naves",
+    description: "Derrote 10 naves-mae no total.",
+    goal: 10,
+    scope: "career",
+    rule: count("bossDefeated"),
+  },
+  {
+    id: "nova-10",
+    title: "Supernova",
+    description: "Limpe 10 inimigos com uma unica nova.",
+    goal: 10,
+    scope: "run",
+    rule: reach("novaDetonated", event => event.cleared),
+  },
+  {
+    id: "power-ups-50",
+    title: "Cesta de cafe",
+    description: "Colete 50 power-ups no total.",
+    goal: 50,
+    scope: "career",
+    rule: count("powerUpCollected"),
+  },
+  {
+    id: "every-power-up",
+    title: "Cardapio completo",
+    description: "Colete todos os tipos de power-up em uma partida.",
+    goal: POWERUP_KINDS.length,
+    scope: "run",
+    rule: reach(
+      "powerUpCollected",
+      (_event, run) =>
+        POWERUP_KINDS.filter(kind => run.tally("powerUpCollected", kind) > 0)
+          .length
+    ),
+  },
+  {
+    id: "shield-10",
+    title: "Casca de pao",
+    description: "Deixe o escudo absorver 10 golpes no total.",
+    goal: 10,
+    scope: "career",
+    rule: count("playerHit", event => (event.shielded ? 1 : 0)),
+  },
+  {
+    id: "first-win",
+    title: "Missao cumprida",
+    description: "Venca uma partida contra o tempo.",
+    goal: 1,
+    scope: "career",
+    rule: count("gameOver", event => (event.outcome === "won" ? 1 : 0)),
+  },
+  {
+    id: "win-without-shield",
+    title: "Sem rede",
+    description: "Venca uma partida sem coletar nenhum escudo.",
+    goal: 1,
+    scope: "run",
+    rule: reach("gameOver", (event, run) =>
+      event.outcome === "won" && run.tally("powerUpCollected", "shield") === 0
+        ? 1
+        : 0
+    ),
+  },
+  {
+    id: "win-untouched",
+    title: "Intocavel",
+    description: "Venca uma partida sem levar nenhum golpe.",
+    goal: 1,
+    scope: "run",
+    rule: reach("gameOver", (event, run) =>
+      event.outcome === "won" && run.tally("playerHit") === 0 ? 1 : 0
+    ),
+  },
+  {
+    id: "coop-win",
+    title: "Torradeira dupla",
+    description: "Venca uma partida em cooperativo.",
+    goal: 1,
+    scope: "run",
+    rule: reach("gameOver", (event, run) =>
+      event.outcome === "won" && run.state.players.length > 1 ? 1 : 0
+    ),
+  },
+  {
+    id: "survive-5-minutes",
+    title: "Resistente",
+    description: "Sobreviva 5 minutos em uma partida.",
+    goal: 300,
+    scope: "run",
+    rule: reachAny(run => seconds(run.state)),
+  },
+  {
+    id: "survive-10-minutes",
+    title: "Maratona",
+    description: "Sobreviva 10 minutos em uma partida.",
+    goal: 600,
+    scope: "run",
+    rule: reachAny(run => seconds(run.state)),
+  },
+  {
+    id: "pacifist-2-minutes",
+    title: "Paz e amor",
+    description: "Sobreviva 2 minutos no modo pacifista.",
+    goal: 120,
+    scope: "run",
+    rule: reachAny(run =>
+      run.state.mode === "pacifist" ? seconds(run.state) : 0
+    ),
+  },
+  {
+    id: "unscathed-2-minutes",
+    title: "Sem um arranhao",
+    description: "Passe 2 minutos sem ser atingido.",
+    goal: 120,
+    scope: "run",
+    rule: reachAny(run =>
+      run.tally("playerHit") === 0 ? seconds(run.state) : 0
+    ),
+  },
+  {
+    id: "score-50",
+    title: "Meio cento",
+    description: "Faca 50 mortes em uma partida.",
+    goal: 50,
+    scope: "run",
+    rule: reachAny(run => run.state.score),
+  },
+  {
+    id: "score-150",
+    title: "Torradeira lendaria",
+    description: "Faca 150 mortes em uma partida.",
+    goal: 150,
+    scope: "run",
+    rule: reachAny(run => run.state.score),
+  },
+  {
+    id: "shots-5000",
+    title: "Gatilho quente",
+    description: "Dispare 5000 vezes no total.",
+    goal: 5000,
+    scope: "career",
+    rule: count("shotFired"),
+  },
+  {
+    id: "runs-25",
+    title: "Fregues de sempre",
+    description: "Termine 25 partidas.",
+    goal: 25,
+    scope: "career",
+    rule: count("gameOver"),
+  },
+];
+
+const tallyKey = (type: GameEventType, kind?: string) =>
+  kind === undefined ? type : `${type}:${kind}`;
+
+export type AchievementTracker = {
+  // Live progress, updated in place; persist it whenever convenient.
+  readonly progress: AchievementProgress;
+  // Forgets the run so far; call before each run.
+  startRun: () => void;
+  // Feeds one event and the state after its step; returns what it unlocked.
+  observe: (event: GameEvent, state: GameState) => Achievement[];
+};
+
+export const createAchievementTracker = (
+  progress: AchievementProgress
+): AchievementTracker => {
+  let runProgress = new Map<string, number>();
+  let tallies = new Map<string, number>();
+  const tally: RunContext["tally"] = (type, kind) =>
+    tallies.get(tallyKey(type, kind)) ?? 0;
+  const bump = (key: string) => tallies.set(key, (tallies.get(key) ?? 0) + 1);
+
+  return {
+    progress,
+    startRun: () => {
+      runProgress = new Map();
+      tallies = new Map();
+    },
+    observe: (event, state) => {
+      bump(event.type);
+      if ("kind" in event) {
+        bump(tallyKey(event.type, event.kind));
+      }
+      const run: RunContext = { state, tally };
+
+      const unlocked: Achievement[] = [];
+      for (const achievement of ACHIEVEMENTS) {
+        const { rule } = achievement;
+        if (rule.on !== null && rule.on !== event.type) {
+          continue;
+        }
+        const value = rule.measure(event, run);
+        const entry = progress[achievement.id] ?? {
+          progress: 0,
+          unlockedAt: null,
+        };
+        const previous = runProgress.get(achievement.id) ?? 0;
+        const current =
+          rule.mode === "count" ? previous + value : Math.max(previous, value);
+        if (current === previous) {
+          continue;
+        }
+        runProgress.set(achievement.id, current);
+        entry.progress = Math.min(
+          achievement.goal,
+          achievement.scope === "career"
+            ? entry.progress + (current - previous)
+            : Math.max(entry.progress, current)
+        );
+        if (!entry.unlockedAt && entry.progress >= achievement.goal) {
+          entry.unlockedAt = new Date().toISOString();
+          unlocked.push(achievement);
+        }
+        progress[achievement.id] = entry;
+      }
+      return unlocked;
+    },
+  };
+};
@@ -0,0 +1,300 @@
+import {
+  BOSS_BASE_HP,
+  BOSS_ENTRY_SPEED,
+  BOSS_EVERY_KILLS,
+  BOSS_HIT_FLASH_MS,
+  BOSS_HP_PER_DEFEAT,
+  BOSS_SCALE,
+  BOSS_SCORE_BONUS,
+  HEIGHT,
+  SPRITE_SIZES,
+  WIDTH,
+} from "./constants";
+import { resolveHitbox, shapesIntersect } from "./collision";
+import type { HitboxShape, WorldShape } from "./collision";
+import { createEnemy, createPowerUp, nearestPlayer, takeId } from "./entities";
+import { pickPowerUpKind } from "./powerUps";
+import { randomBetween } from "./rng";
+import type { Rng } from "./rng";
+import type { Boss, BossPhase, GameEvent, GameState, Shot } from "./types";
+
+const BOSS_HULL: HitboxShape = {
+  type: "circle",
+  x: 0.52,
+  y: 0.52,
+  radius: 0.46,
+};
+
+const SWEEP_SPEED: Record<BossPhase, number> = {
+  1: 0.0009,
+  2: 0.0013,
+  3: 0.0017,
+};
+
+const ATTACK_INTERVAL_MS: Record<BossPhase, number> = {
+  1: 1700,
+  2: 1400,
+  3: 1100,
+};
+
+const CHARGE_MS = 1400;
+const CHARGE_EVERY_MS = 4200;
+const CHARGE_DISTANCE = 300;
+
+export type BossWeakPoint = {
+  id: string;
+  // Center as a fraction of the boss rect, radius as a fraction of its
+  // shorter side.
+  x: number;
+  y: number;
+  radius: number;
+  // Outward direction the weak point faces (canvas coordinates, y down).
+  facingX: number;
+  facingY: number;
+  // A shot only does damage when it travels within `arcDegrees` of straight
+  // into the weak point. Anything else bounces off the hull.
+  arcDegrees: number;
+  phases: BossPhase[];
+};
+
+const facing = (degreesBelowLeft: number) => {
+  const radians = (degreesBelowLeft * Math.PI) / 180;
+  return { facingX: -Math.cos(radians), facingY: Math.sin(radians) };
+};
+
+// The core takes straight shots. The vents are tilted 20 degrees: level shots
+// and the burst spread angled the same way get through, the opposite spread
+// glances off.
+export const BOSS_WEAK_POINTS: BossWeakPoint[] = [
+  {
+    id: "core",
+    x: 0.2,
+    y: 0.52,
+    radius: 0.14,
+    ...facing(0),
+    arcDegrees: 18,
+    phases: [1, 3],
+  },
+  {
+    id: "upperVent",
+    x: 0.26,
+    y: 0.22,
+    radius: 0.12,
+    ...facing(-20),
+    arcDegrees: 26,
+    phases: [2, 3],
+  },
+  {
+    id: "lowerVent",
+    x: 0.26,
+    y: 0.82,
+    radius: 0.12,
+    ...facing(20),
+    arcDegrees: 26,
+    phases: [2, 3],
+  },
+];
+
+export const isWeakPointOpen = (boss: Boss, weakPoint: BossWeakPoint) =>
+  !boss.entering && weakPoint.phases.includes(boss.phase);
+
+export const bossHullShape = (boss: Boss) => resolveHitbox(boss, BOSS_HULL);
+
+export const weakPointShape = (
+  boss: Boss,
+  weakPoint: BossWeakPoint
+): WorldShape => resolveHitbox(boss, { type: "circle", ...weakPoint });
+
+const phaseForHp = (hp: number, maxHp: number): BossPhase => {
+  if (hp > (maxHp * 2) / 3) {
+    return 1;
+  }
+  if (hp > maxHp / 3) {
+    return 2;
+  }
+  return 3;
+};
+
+const arrivesHeadOn = (shot: Shot, weakPoint: BossWeakPoint) => {
+  const length = Math.hypot(shot.velocityX, shot.velocityY) || 1;
+  const incoming =
+    -(shot.velocityX * weakPoint.facingX + shot.velocityY * weakPoint.facingY) /
+    length;
+  return incoming >= Math.cos((weakPoint.arcDegrees * Math.PI) / 180);
+};
+
+export const createBoss = (state: GameState): Boss => {
+  const width = SPRITE_SIZES.enemy.width * BOSS_SCALE;
+  const height = SPRITE_SIZES.enemy.height * BOSS_SCALE;
+  const maxHp = BOSS_BASE_HP + state.bossesDefeated * BOSS_HP_PER_DEFEAT;
+  return {
+    id: takeId(state),
+    x: WIDTH + 20,
+    y: (HEIGHT - height) / 2,
+    width,
+    height,
+    hp: maxHp,
+    maxHp,
+    phase: 1,
+    entering: true,
+    sweepAngle: 0,
+    homeX: WIDTH - width - 24,
+    nextAttackAt: 0,
+    chargeStartedAt: null,
+    nextChargeAt: 0,
+    hitFlashUntil: 0,
+  };
+};
+
+const launchAttack = (state: GameState, boss: Boss, rng: Rng) => {
+  const centerY = boss.y + boss.height / 2;
+  const x = boss.x + boss.width * 0.1;
+  switch (boss.phase) {
+    case 1:
+      for (const offset of [-60, 0, 60]) {
+        state.enemies.push(
+          createEnemy(state, rng, "shard", { x, centerY: centerY + offset })
+        );
+      }
+      break;
+    case 2: {
+      const spread = randomBetween(rng, 50, 90);
+      for (const offset of [-spread, spread]) {
+        state.enemies.push(
+          createEnemy(state, rng, "zigzag", { x, centerY: centerY + offset })
+        );
+      }
+      break;
+    }
+    case 3: {
+      const target = nearestPlayer(state, x, centerY);
+      const playerY = target.y + target.height / 2;
+      state.enemies.push(
+        createEnemy(state, rng, "drifter", {
+          x,
+          centerY: playerY + randomBetween(rng, -30, 30),
+          speedScale: 1.15,
+        })
+      );
+      break;
+    }
+  }
+};
+
+/**
+ * Moves the boss, advances its charge and fires the attack pattern of its
+ * current phase. The boss is immune while it slides in from the right.
+ */
+export const updateBoss = (state: GameState, rng: Rng, dt: number) => {
+  const boss = state.boss;
+  if (!boss) {
+    return;
+  }
+  const nowMs = state.timeMs;
+
+  if (boss.entering) {
+    boss.x -= BOSS_ENTRY_SPEED * dt;
+    if (boss.x <= boss.homeX) {
+      boss.x = boss.homeX;
+      boss.entering = false;
+      boss.nextAttackAt = nowMs + 900;
+    }
+    return;
+  }
+
+  const anchorY = (HEIGHT - boss.height) / 2;
+  boss.sweepAngle += dt * 1000 * SWEEP_SPEED[boss.phase];
+  boss.y = anchorY + Math.sin(boss.sweepAngle) * (anchorY - 12);
+
+  if (boss.phase === 3) {
+    if (boss.chargeStartedAt === null && nowMs >= boss.nextChargeAt) {
+      boss.chargeStartedAt = nowMs;
+    }
+    if (boss.chargeStartedAt !== null) {
+      const progress = (nowMs - boss.chargeStartedAt) / CHARGE_MS;
+      if (progress >= 1) {
+        boss.chargeStartedAt = null;
+        boss.x = boss.homeX;
+        boss.nextChargeAt = nowMs + CHARGE_EVERY_MS;
+      } else {
+        boss.x = boss.homeX - Math.sin(progress * Math.PI) * CHARGE_DISTANCE;
+      }
+    }
+  }
+
+  if (nowMs >= boss.nextAttackAt) {
+    launchAttack(state, boss, rng);
+    boss.nextAttackAt = nowMs + ATTACK_INTERVAL_MS[boss.phase];
+  }
+};
+
+/**
+ * Resolves a shot against the boss. Returns true when the shot is used up,
+ * either by damaging an open weak point or by glancing off the hull.
+ */
+export const shootBoss = (
+  state: GameState,
+  shot: Shot,
+  shotShape: WorldShape,
+  events: GameEvent[]
+) => {
+  const boss = state.boss;
+  if (!boss || boss.hp <= 0) {
+    return false;
+  }
+  for (const weakPoint of BOSS_WEAK_POINTS) {
+    if (
+      isWeakPointOpen(boss, weakPoint) &&
+      arrivesHeadOn(shot, weakPoint) &&
+      shapesIntersect(shotShape, weakPointShape(boss, weakPoint))
+    ) {
+      boss.hp -= 1;
+      boss.hitFlashUntil = state.timeMs + BOSS_HIT_FLASH_MS;
+      events.push({ type: "bossHit", weakPoint: weakPoint.id });
+      const phase = phaseForHp(boss.hp, boss.maxHp);
+      if (boss.hp > 0 && phase !== boss.phase) {
+        boss.phase = phase;
+        boss.nextChargeAt = state.timeMs + 1500;
+        events.push({ type: "bossPhaseChanged", phase });
+      }
+      return true;
+    }
+  }
+  if (shapesIntersect(shotShape, bossHullShape(boss))) {
+    events.push({ type: "bossDeflected" });
+    return true;
+  }
+  return false;
+};
+
+export const defeatBoss = (
+  state: GameState,
+  rng: Rng,
+  events: GameEvent[]
+) => {
+  const boss = state.boss;
+  if (!boss) {
+    return;
+  }
+  state.boss = null;
+  state.bossesDefeated += 1;
+  state.score += BOSS_SCORE_BONUS;
+  state.nextBossAt = state.score + BOSS_EVERY_KILLS;
+  state.lastSpawnMs = state.timeMs;
+  // The reward drop ignores the usual on-screen power-up cap.
+  state.powerUps.push(
+    createPowerUp(
+      state,
+      rng,
+      pickPowerUpKind(rng),
+      boss.x + boss.width / 2,
+      boss.y + boss.height / 2
+    )
+  );
+  events.push({
+    type: "bossDefeated",
+    bonus: BOSS_SCORE_BONUS,
+    x: boss.x + boss.width / 2,
+    y: boss.y + boss.height / 2,
+  });
+};
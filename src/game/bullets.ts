@@ -0,0 +1,80 @@
+import {
+  ENEMY_BULLET_SIZE,
+  ENEMY_BULLET_SPEED,
+  ENEMY_BULLET_SPREAD_DEGREES,
+  HEIGHT,
+  WIDTH,
+} from "./constants";
+import { nearestPlayer, nextGunnerShotAt, takeId } from "./entities";
+import type { Rng } from "./rng";
+import type { Enemy, EnemyBullet, GameEvent, GameState, Player } from "./types";
+
+const createEnemyBullet = (
+  state: GameState,
+  x: number,
+  y: number,
+  angle: number
+): EnemyBullet => ({
+  id: takeId(state),
+  x: x - ENEMY_BULLET_SIZE / 2,
+  y: y - ENEMY_BULLET_SIZE / 2,
+  width: ENEMY_BULLET_SIZE,
+  height: ENEMY_BULLET_SIZE,
+  velocityX: Math.cos(angle) * ENEMY_BULLET_SPEED,
+  velocityY: Math.sin(angle) * ENEMY_BULLET_SPEED,
+});
+
+const fireFrom = (state: GameState, enemy: Enemy, target: Player) => {
+  const muzzleX = enemy.x;
+  const muzzleY = enemy.y + enemy.height / 2;
+  const targetX = target.x + target.width / 2;
+  const targetY = target.y + target.height / 2;
+  const aim = Math.atan2(targetY - muzzleY, targetX - muzzleX);
+  const spread = (ENEMY_BULLET_SPREAD_DEGREES * Math.PI) / 180;
+  const angles =
+    enemy.firePattern === "spread" ? [aim - spread, aim, aim + spread] : [aim];
+  for (const angle of angles) {
+    state.enemyBullets.push(createEnemyBullet(state, muzzleX, muzzleY, angle));
+  }
+};
+
+/**
+ * Lets every armed enemy that is fully on screen fire on its own cooldown,
+ * then moves all enemy bullets and drops the ones that left the field.
+ */
+export const updateEnemyFire = (
+  state: GameState,
+  rng: Rng,
+  dt: number,
+  speedScale: number,
+  events: GameEvent[]
+) => {
+  for (const enemy of state.enemies) {
+    if (
+      enemy.firePattern === "none" ||
+      state.timeMs < enemy.nextFireAt ||
+      enemy.x > WIDTH - enemy.width
+    ) {
+      continue;
+    }
+    const target = nearestPlayer(state, enemy.x, enemy.y + enemy.height / 2);
+    if (enemy.x + enemy.width / 2 < target.x + target.width) {
+      continue;
+    }
+    fireFrom(state, enemy, target);
+    enemy.nextFireAt = nextGunnerShotAt(state, rng);
+    events.push({ type: "enemyFired", pattern: enemy.firePattern });
+  }
+
+  for (const bullet of state.enemyBullets) {
+    bullet.x += bullet.velocityX * speedScale * dt;
+    bullet.y += bullet.velocityY * speedScale * dt;
+  }
+  state.enemyBullets = state.enemyBullets.filter(
+    bullet =>
+      bullet.x + bullet.width > 0 &&
+      bullet.x < WIDTH &&
+      bullet.y + bullet.height > 0 &&
+      bullet.y < HEIGHT
+  );
+};
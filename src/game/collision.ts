@@ -0,0 +1,182 @@
+import type { Rect } from "./types";
+
+type Point = { x: number; y: number };
+
+/**
+ * Hitbox shapes are described relative to the entity's rect: every
+ * coordinate is a fraction of its width/height, so the same shape follows
+ * the sprite when an enemy is scaled up or down.
+ */
+export type HitboxShape =
+  | { type: "rect"; x: number; y: number; width: number; height: number }
+  // `radius` is a fraction of the rect's shorter side.
+  | { type: "circle"; x: number; y: number; radius: number }
+  // Convex polygon, points in winding order.
+  | { type: "polygon"; points: [number, number][] };
+
+export type WorldShape =
+  | { type: "circle"; x: number; y: number; radius: number }
+  | { type: "polygon"; points: Point[] };
+
+export const rectsIntersect = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width &&
+  a.x + a.width > b.x &&
+  a.y < b.y + b.height &&
+  a.y + a.height > b.y;
+
+export const resolveHitbox = (rect: Rect, shape: HitboxShape): WorldShape => {
+  switch (shape.type) {
+    case "circle":
+      return {
+        type: "circle",
+        x: rect.x + rect.width * shape.x,
+        y: rect.y + rect.height * shape.y,
+        radius: Math.min(rect.width, rect.height) * shape.radius,
+      };
+    case "rect": {
+      const left = rect.x + rect.width * shape.x;
+      const top = rect.y + rect.height * shape.y;
+      const right = left + rect.width * shape.width;
+      const bottom = top + rect.height * shape.height;
+      return {
+        type: "polygon",
+        points: [
+          { x: left, y: top },
+          { x: right, y: top },
+          { x: right, y: bottom },
+          { x: left, y: bottom },
+        ],
+      };
+    }
+    case "polygon":
+      return {
+        type: "polygon",
+        points: shape.points.map(([x, y]) => ({
+          x: rect.x + rect.width * x,
+          y: rect.y + rect.height * y,
+        })),
+      };
+  }
+};
+
+export const shapeBounds = (shape: WorldShape): Rect => {
+  if (shape.type === "circle") {
+    return {
+      x: shape.x - shape.radius,
+      y: shape.y - shape.radius,
+      width: shape.radius * 2,
+      height: shape.radius * 2,
+    };
+  }
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const point of shape.points) {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+const distanceToSegmentSquared = (p: Point, a: Point, b: Point) => {
+  const abX = b.x - a.x;
+  const abY = b.y - a.y;
+  const lengthSquared = abX * abX + abY * abY;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.min(
+          Math.max(((p.x - a.x) * abX + (p.y - a.y) * abY) / lengthSquared, 0),
+          1
+        );
+  const dx = a.x + abX * t - p.x;
+  const dy = a.y + abY * t - p.y;
+  return dx * dx + dy * dy;
+};
+
+const pointInPolygon = (p: Point, points: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i, i += 1) {
+    const a = points[i]!;
+    const b = points[j]!;
+    if (
+      a.y > p.y !== b.y > p.y &&
+      p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const circleHitsPolygon = (
+  circle: Point & { radius: number },
+  points: Point[]
+) => {
+  if (pointInPolygon(circle, points)) {
+    return true;
+  }
+  const radiusSquared = circle.radius * circle.radius;
+  for (let i = 0; i < points.length; i += 1) {
+    const a = points[i]!;
+    const b = points[(i + 1) % points.length]!;
+    if (distanceToSegmentSquared(circle, a, b) < radiusSquared) {
+      return true;
+    }
+  }
+  return false;
+};
+
+const projectOnto = (points: Point[], axisX: number, axisY: number) => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const point of points) {
+    const value = point.x * axisX + point.y * axisY;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return { min, max };
+};
+
+// Separating axis test; both polygons must be convex.
+const polygonsIntersect = (a: Point[], b: Point[]) => {
+  for (const points of [a, b]) {
+    for (let i = 0; i < points.length; i += 1) {
+      const p1 = points[i]!;
+      const p2 = points[(i + 1) % points.length]!;
+      const axisX = p2.y - p1.y;
+      const axisY = p1.x - p2.x;
+      const projectionA = projectOnto(a, axisX, axisY);
+      const projectionB = projectOnto(b, axisX, axisY);
+      if (
+        projectionA.max <= projectionB.min ||
+        projectionB.max <= projectionA.min
+      ) {
+        return false;
+      }
+    }
+  }
+  return true;
+};
+
+export const shapesIntersect = (a: WorldShape, b: WorldShape): boolean => {
+  if (a.type === "circle" && b.type === "circle") {
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    const reach = a.radius + b.radius;
+    return dx * dx + dy * dy < reach * reach;
+  }
+  if (a.type === "circle" && b.type === "polygon") {
+    return circleHitsPolygon(a, b.points);
+  }
+  if (a.type === "polygon" && b.type === "circle") {
+    return circleHitsPolygon(b, a.points);
+  }
+  if (a.type === "polygon" && b.type === "polygon") {
+    return polygonsIntersect(a.points, b.points);
+  }
+  return false;
+};
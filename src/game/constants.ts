@@ -0,0 +1,89 @@
+export const WIDTH = 800;
+export const HEIGHT = 600;
+
+// The simulation always advances in fixed ticks, whatever the display's
+// refresh rate. The renderer interpolates between the last two ticks.
+export const TICK_HZ = 120;
+export const TICK_SECONDS = 1 / TICK_HZ;
+export const TICK_MS = 1000 / TICK_HZ;
+// Spiral-of-death guard: never run more than this many ticks for one frame.
+export const MAX_TICKS_PER_FRAME = 12;
+
+export const PLAYER_SPEED = 320;
+export const SHOT_SPEED = 640;
+export const BASE_ENEMY_SPEED = 180;
+export const MAX_ENEMY_SPEED = 420;
+
+export const BASE_SPAWN_MS = 1100;
+export const MIN_SPAWN_MS = 350;
+
+export const SHOT_COOLDOWN_MS = 250;
+export const INVULNERABLE_MS = 1000;
+
+export const MAX_SHOTS_BASE = 2;
+export const MAX_SHOTS_CAP = 6;
+
+export const LIVES_START = 3;
+// Extra-life pickups never push the count above this.
+export const LIVES_CAP = 5;
+
+export const COMBO_WINDOW_MS = 2400;
+
+export const POWERUP_DROP_BASE = 0.12;
+export const POWERUP_DROP_COMBO_BONUS = 0.03;
+export const POWERUP_SPEED = 140;
+export const POWERUP_SIZE = 30;
+
+export const BOOST_MULTIPLIER = 1.35;
+export const BOOST_DURATION_MS = 6000;
+
+export const BURST_COOLDOWN_MS = 140;
+export const BURST_DURATION_MS = 6000;
+export const BURST_BONUS_SHOTS = 2;
+export const BURST_SPREAD_SPEED = 140;
+export const BURST_SPREAD_OFFSET = 10;
+
+export const SLOW_DURATION_MS = 5200;
+export const SLOW_MULTIPLIER = 0.7;
+
+export const SHIELD_CAP = 2;
+
+export const MAGNET_DURATION_MS = 7000;
+export const MAGNET_RADIUS = 260;
+export const MAGNET_PULL_SPEED = 360;
+
+export const PIERCE_DURATION_MS = 5000;
+
+export const GUNNER_UNLOCK_SCORE = 25;
+export const GUNNER_FIRE_MIN_MS = 1600;
+export const GUNNER_FIRE_MAX_MS = 2300;
+export const ENEMY_BULLET_SPEED = 260;
+export const ENEMY_BULLET_SIZE = 12;
+export const ENEMY_BULLET_SPREAD_DEGREES = 16;
+// Whether toast shots can pop incoming enemy bullets (the shot is spent).
+export const SHOTS_DESTROY_BULLETS = true;
+
+// A boss ("nave-mae") arrives every BOSS_EVERY_KILLS kills. While it is on
+// screen the regular spawner is paused.
+export const BOSS_EVERY_KILLS = 40;
+export const BOSS_SCALE = 2.6;
+export const BOSS_BASE_HP = 36;
+export const BOSS_HP_PER_DEFEAT = 12;
+export const BOSS_SCORE_BONUS = 10;
+export const BOSS_ENTRY_SPEED = 90;
+export const BOSS_HIT_FLASH_MS = 90;
+export const ENEMY_HIT_FLASH_MS = 90;
+
+// Natural sizes of the sprites in assets/img. The simulation runs without
+// loading images, so it needs them up front.
+export const SPRITE_SIZES = {
+  player: { width: 56, height: 61 },
+  shot: { width: 30, height: 33 },
+  enemy: { width: 77, height: 65 },
+} as const;
+
+// Alternative play modes (see modes.ts).
+export const TIME_ATTACK_MS = 120 * 1000;
+// Pacifist runs cannot kill, so the spawner ramps on time instead: every
+// PACIFIST_RAMP_MS counts as one kill toward the spawn and speed curves.
+export const PACIFIST_RAMP_MS = 3000;
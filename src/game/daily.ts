@@ -0,0 +1,29 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The daily challenge always plays the endless generator on Normal, so the
+// seed alone decides the enemy sequence and every drop roll.
+export const DAILY_DIFFICULTY = "normal";
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// UTC calendar day, e.g. "2026-10-19". Everyone shares the same key at the
+// same moment, whatever their timezone.
+export const dailyKey = (nowMs: number) =>
+  new Date(Math.floor(nowMs / DAY_MS) * DAY_MS).toISOString().slice(0, 10);
+
+export const isDailyKey = (value: unknown): value is string =>
+  typeof value === "string" &&
+  DAY_KEY_PATTERN.test(value) &&
+  dailyKey(Date.parse(`${value}T00:00:00Z`)) === value;
+
+// FNV-1a over the key, so seeds are stable across builds and platforms.
+export const dailySeed = (key: string) => {
+  let hash = 0x811c9dc5;
+  for (const char of `galactic-toast:${key}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const msUntilNextDaily = (nowMs: number) => DAY_MS - (nowMs % DAY_MS);
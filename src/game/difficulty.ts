@@ -0,0 +1,145 @@
+import {
+  BASE_ENEMY_SPEED,
+  BASE_SPAWN_MS,
+  INVULNERABLE_MS,
+  LIVES_START,
+  MAX_ENEMY_SPEED,
+  MIN_SPAWN_MS,
+  POWERUP_DROP_BASE,
+} from "./constants";
+
+export type Difficulty = {
+  livesStart: number;
+  baseSpawnMs: number;
+  minSpawnMs: number;
+  baseEnemySpeed: number;
+  maxEnemySpeed: number;
+  powerUpDropBase: number;
+  invulnerableMs: number;
+  // Whether an asteroid slipping past the left edge costs a life.
+  escapesCostLife: boolean;
+};
+
+export type DifficultyPresetId = "easy" | "normal" | "hard" | "nightmare";
+export type DifficultyId = DifficultyPresetId | "custom";
+
+// The id travels with scores and replays so boards never mix difficulties.
+export type DifficultySetting = {
+  id: DifficultyId;
+  values: Difficulty;
+};
+
+export const DIFFICULTY_PRESETS: Record<DifficultyPresetId, Difficulty> = {
+  easy: {
+    livesStart: 5,
+    baseSpawnMs: 1400,
+    minSpawnMs: 520,
+    baseEnemySpeed: 150,
+    maxEnemySpeed: 340,
+    powerUpDropBase: 0.18,
+    invulnerableMs: 1500,
+    escapesCostLife: false,
+  },
+  normal: {
+    livesStart: LIVES_START,
+    baseSpawnMs: BASE_SPAWN_MS,
+    minSpawnMs: MIN_SPAWN_MS,
+    baseEnemySpeed: BASE_ENEMY_SPEED,
+    maxEnemySpeed: MAX_ENEMY_SPEED,
+    powerUpDropBase: POWERUP_DROP_BASE,
+    invulnerableMs: INVULNERABLE_MS,
+    escapesCostLife: true,
+  },
+  hard: {
+    livesStart: 3,
+    baseSpawnMs: 900,
+    minSpawnMs: 280,
+    baseEnemySpeed: 210,
+    maxEnemySpeed: 480,
+    powerUpDropBase: 0.09,
+    invulnerableMs: 800,
+    escapesCostLife: true,
+  },
+  nightmare: {
+    livesStart: 1,
+    baseSpawnMs: 700,
+    minSpawnMs: 220,
+    baseEnemySpeed: 250,
+    maxEnemySpeed: 560,
+    powerUpDropBase: 0.06,
+    invulnerableMs: 600,
+    escapesCostLife: true,
+  },
+};
+
+export const DIFFICULTY_LABELS: Record<DifficultyId, string> = {
+  easy: "Facil",
+  normal: "Normal",
+  hard: "Dificil",
+  nightmare: "Pesadelo",
+  custom: "Personalizado",
+};
+
+type NumericKey = Exclude<keyof Difficulty, "escapesCostLife">;
+
+// Slider ranges for the Custom preset; also used to reject tampered replays.
+export const CUSTOM_LIMITS: Record<
+  NumericKey,
+  { min: number; max: number; step: number; label: string }
+> = {
+  livesStart: { min: 1, max: 9, step: 1, label: "Vidas" },
+  baseSpawnMs: { min: 400, max: 2000, step: 50, label: "Intervalo inicial (ms)" },
+  minSpawnMs: { min: 150, max: 1000, step: 10, label: "Intervalo minimo (ms)" },
+  baseEnemySpeed: { min: 80, max: 400, step: 10, label: "Velocidade inicial" },
+  maxEnemySpeed: { min: 150, max: 700, step: 10, label: "Velocidade maxima" },
+  powerUpDropBase: { min: 0, max: 0.5, step: 0.01, label: "Chance de orbe" },
+  invulnerableMs: { min: 200, max: 3000, step: 50, label: "Invulneravel (ms)" },
+};
+
+export const defaultDifficulty = (): DifficultySetting => ({
+  id: "normal",
+  values: { ...DIFFICULTY_PRESETS.normal },
+});
+
+export const presetDifficulty = (id: DifficultyPresetId): DifficultySetting => ({
+  id,
+  values: { ...DIFFICULTY_PRESETS[id] },
+});
+
+/**
+ * Validates a difficulty read from a replay or a score submission. Presets
+ * must match their table exactly; custom values only have to stay within
+ * CUSTOM_LIMITS. Returns an error message, or null when it is fine.
+ */
+export const checkDifficulty = (data: unknown): string | null => {
+  if (!data || typeof data !== "object") {
+    return "difficulty must be an object.";
+  }
+  const raw = data as Record<string, unknown>;
+  if (typeof raw.id !== "string" || !(raw.id in DIFFICULTY_LABELS)) {
+    return `unknown difficulty ${JSON.stringify(raw.id)}.`;
+  }
+  const values = raw.values as Record<string, unknown> | undefined;
+  if (!values || typeof values !== "object") {
+    return "difficulty values are missing.";
+  }
+  if (typeof values.escapesCostLife !== "boolean") {
+    return "difficulty escapesCostLife must be true or false.";
+  }
+  for (const key of Object.keys(CUSTOM_LIMITS) as NumericKey[]) {
+    const value = values[key];
+    const { min, max } = CUSTOM_LIMITS[key];
+    if (typeof value !== "number" || !(value >= min && value <= max)) {
+      return `difficulty ${key} must be between ${min} and ${max}.`;
+    }
+  }
+  if (raw.id !== "custom") {
+    const preset = DIFFICULTY_PRESETS[raw.id as DifficultyPresetId];
+    for (const key of Object.keys(preset) as (keyof Difficulty)[]) {
+      if (values[key] !== preset[key]) {
+        return `difficulty ${raw.id} does not match its preset.`;
+      }
+    }
+  }
+  return null;
+};
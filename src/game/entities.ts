@@ -0,0 +1,282 @@
+import {
+  COMBO_WINDOW_MS,
+  GUNNER_FIRE_MAX_MS,
+  GUNNER_FIRE_MIN_MS,
+  GUNNER_UNLOCK_SCORE,
+  HEIGHT,
+  POWERUP_SIZE,
+  POWERUP_SPEED,
+  SPRITE_SIZES,
+  WIDTH,
+} from "./constants";
+import type { Difficulty } from "./difficulty";
+import { rampScore } from "./modes";
+import { randomBetween } from "./rng";
+import type { Rng } from "./rng";
+import type {
+  Enemy,
+  EnemyKind,
+  FirePattern,
+  GameState,
+  Player,
+  PowerUp,
+  PowerUpKind,
+} from "./types";
+
+export const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+export const enemySpeed = (score: number, difficulty: Difficulty) =>
+  Math.min(
+    difficulty.maxEnemySpeed,
+    difficulty.baseEnemySpeed + Math.floor(score / 5) * 12
+  );
+
+export const takeId = (state: GameState) => {
+  state.nextId += 1;
+  return state.nextId;
+};
+
+// Closest toaster to a point, for anything that aims or homes. Ties go to
+// the lower index so the pick stays deterministic.
+export const nearestPlayer = (state: GameState, x: number, y: number) => {
+  let nearest: Player = state.players[0]!;
+  let best = Infinity;
+  for (const player of state.players) {
+    const distance = Math.hypot(
+      player.x + player.width / 2 - x,
+      player.y + player.height / 2 - y
+    );
+    if (distance < best) {
+      nearest = player;
+      best = distance;
+    }
+  }
+  return nearest;
+};
+
+export const bumpCombo = (state: GameState) => {
+  if (state.timeMs <= state.comboExpiresAt) {
+    state.combo += 1;
+  } else {
+    state.combo = 1;
+  }
+  state.maxCombo = Math.max(state.maxCombo, state.combo);
+  state.comboExpiresAt = state.timeMs + COMBO_WINDOW_MS;
+};
+
+export const registerKill = (state: GameState) => {
+  state.score += 1;
+  bumpCombo(state);
+};
+
+type SpawnTier = {
+  // The tier applies from this score until the next tier's.
+  fromScore: number;
+  // Cumulative roll thresholds; the last entry catches everything above.
+  odds: [EnemyKind, number][];
+};
+
+// The endless generator's mix, used when no scripted level is loaded or once
+// a level's waves run out.
+export const ENDLESS_SPAWN_TIERS: SpawnTier[] = [
+  {
+    fromScore: 0,
+    odds: [
+      ["drifter", 0.75],
+      ["zigzag", 1],
+    ],
+  },
+  {
+    fromScore: 8,
+    odds: [
+      ["drifter", 0.5],
+      ["zigzag", 0.75],
+      ["armored", 1],
+    ],
+  },
+  {
+    fromScore: 18,
+    odds: [
+      ["drifter", 0.45],
+      ["zigzag", 0.7],
+      ["armored", 0.88],
+      ["splitter", 1],
+    ],
+  },
+  {
+    fromScore: GUNNER_UNLOCK_SCORE,
+    odds: [
+      ["drifter", 0.4],
+      ["zigzag", 0.62],
+      ["armored", 0.78],
+      ["splitter", 0.9],
+      ["gunner", 1],
+    ],
+  },
+];
+
+export const pickEnemyKind = (rng: Rng, score: number): EnemyKind => {
+  const roll = rng.next();
+  let tier = ENDLESS_SPAWN_TIERS[0]!;
+  for (const candidate of ENDLESS_SPAWN_TIERS) {
+    if (score >= candidate.fromScore) {
+      tier = candidate;
+    }
+  }
+  for (const [kind, upTo] of tier.odds) {
+    if (roll < upTo) {
+      return kind;
+    }
+  }
+  return tier.odds[tier.odds.length - 1]![0];
+};
+
+export type EnemySpawnOptions = {
+  // Left edge of the new enemy; defaults to just past the right border.
+  x?: number;
+  // Vertical center; defaults to a random lane.
+  centerY?: number;
+  speedScale?: number;
+  // Replaces the kind's own sine movement. Scripted formations pass this so
+  // every member moves in step (phase 0).
+  wave?: { amplitude: number; frequency: number };
+};
+
+export const createEnemy = (
+  state: GameState,
+  rng: Rng,
+  kind: EnemyKind,
+  options: EnemySpawnOptions = {}
+): Enemy => {
+  const base = enemySpeed(rampScore(state), state.difficulty);
+  let speed = randomBetween(rng, Math.max(120, base - 30), base + 30);
+  let sizeScale = 1;
+  let hp = 1;
+  let waveAmplitude = 0;
+  let waveFrequency = 0;
+  let wavePhase = 0;
+  let firePattern: FirePattern = "none";
+  let nextFireAt = 0;
+
+  switch (kind) {
+    case "zigzag":
+      sizeScale = 0.9;
+      waveAmplitude = randomBetween(rng, 18, 34);
+      waveFrequency = randomBetween(rng, 6, 10) / 1000;
+      wavePhase = rng.next() * Math.PI * 2;
+      break;
+    case "armored":
+      sizeScale = 1.15;
+      hp = 2;
+      speed *= 0.85;
+      break;
+    case "splitter":
+      sizeScale = 1.05;
+      break;
+    case "shard":
+      sizeScale = 0.65;
+      speed *= 1.2;
+      break;
+    case "gunner":
+      sizeScale = 0.95;
+      speed *= 0.7;
+      firePattern = rng.next() < 0.6 ? "aimed" : "spread";
+      nextFireAt =
+        state.timeMs + randomBetween(rng, 600, GUNNER_FIRE_MIN_MS);
+      break;
+    default:
+      break;
+  }
+  speed *= options.speedScale ?? 1;
+  if (options.wave) {
+    waveAmplitude = options.wave.amplitude;
+    waveFrequency = options.wave.frequency;
+    wavePhase = 0;
+  }
+
+  const enemyWidth = SPRITE_SIZES.enemy.width * sizeScale;
+  const enemyHeight = SPRITE_SIZES.enemy.height * sizeScale;
+  const spawnY =
+    options.centerY ??
+    randomBetween(
+      rng,
+      Math.floor(enemyHeight / 2),
+      Math.floor(HEIGHT - enemyHeight / 2)
+    );
+  const baseY = clamp(spawnY - enemyHeight / 2, 0, HEIGHT - enemyHeight);
+
+  return {
+    id: takeId(state),
+    x: options.x ?? WIDTH + 10,
+    y: baseY,
+    width: enemyWidth,
+    height: enemyHeight,
+    speed,
+    kind,
+    hp,
+    baseY,
+    waveAmplitude,
+    waveFrequency,
+    wavePhase,
+    sizeScale,
+    firePattern,
+    nextFireAt,
+    hitFlashUntil: 0,
+  };
+};
+
+export const createShard = (
+  state: GameState,
+  source: Enemy,
+  offsetY: number
+): Enemy => {
+  const sizeScale = 0.65;
+  const enemyWidth = SPRITE_SIZES.enemy.width * sizeScale;
+  const enemyHeight = SPRITE_SIZES.enemy.height * sizeScale;
+  const baseY = clamp(
+    source.y + source.height / 2 - enemyHeight / 2 + offsetY,
+    0,
+    HEIGHT - enemyHeight
+  );
+  return {
+    id: takeId(state),
+    x: source.x + source.width * 0.3,
+    y: baseY,
+    width: enemyWidth,
+    height: enemyHeight,
+    speed: source.speed * 1.2,
+    kind: "shard",
+    hp: 1,
+    baseY,
+    waveAmplitude: 0,
+    waveFrequency: 0,
+    wavePhase: 0,
+    sizeScale,
+    firePattern: "none",
+    nextFireAt: 0,
+    hitFlashUntil: 0,
+  };
+};
+
+export const nextGunnerShotAt = (state: GameState, rng: Rng) =>
+  state.timeMs + randomBetween(rng, GUNNER_FIRE_MIN_MS, GUNNER_FIRE_MAX_MS);
+
+export const createPowerUp = (
+  state: GameState,
+  rng: Rng,
+  kind: PowerUpKind,
+  x: number,
+  y: number
+): PowerUp => {
+  const size = POWERUP_SIZE;
+  return {
+    id: takeId(state),
+    x: clamp(x - size / 2, 0, WIDTH - size),
+    y: clamp(y - size / 2, 0, HEIGHT - size),
+    width: size,
+    height: size,
+    speed: randomBetween(rng, POWERUP_SPEED - 20, POWERUP_SPEED + 30),
+    kind,
+  };
+};
@@ -0,0 +1,58 @@
+import type { GameEvent } from "./types";
+
+export type GameEventType = GameEvent["type"];
+
+export type GameEventOf<T extends GameEventType> = Extract<
+  GameEvent,
+  { type: T }
+>;
+
+export type GameEventBus = {
+  // Each returns its unsubscribe function.
+  on: <T extends GameEventType>(
+    type: T,
+    handler: (event: GameEventOf<T>) => void
+  ) => () => void;
+  onAny: (handler: (event: GameEvent) => void) => () => void;
+  emit: (event: GameEvent) => void;
+};
+
+/**
+ * Where features hear about the run. The simulation only returns events from
+ * stepGame; whoever drives it emits them here, and audio, the HUD, effects
+ * and stats subscribe by type instead of living in the game loop. Handlers
+ * run in subscription order, synchronously, on the tick the event happened.
+ */
+export const createEventBus = (): GameEventBus => {
+  const handlers = new Map<GameEventType, Set<(event: GameEvent) => void>>();
+  const anyHandlers = new Set<(event: GameEvent) => void>();
+
+  return {
+    on: (type, handler) => {
+      const listener = handler as (event: GameEvent) => void;
+      const set = handlers.get(type) ?? new Set();
+      handlers.set(type, set);
+      set.add(listener);
+      return () => {
+        set.delete(listener);
+      };
+    },
+    onAny: handler => {
+      anyHandlers.add(handler);
+      return () => {
+        anyHandlers.delete(handler);
+      };
+    },
+    emit: event => {
+      const set = handlers.get(event.type);
+      if (set) {
+        for (const handler of [...set]) {
+          handler(event);
+        }
+      }
+      for (const handler of [...anyHandlers]) {
+        handler(event);
+      }
+    },
+  };
+};
@@ -0,0 +1,46 @@
+import { MAX_TICKS_PER_FRAME, TICK_SECONDS } from "./constants";
+
+export type FixedStep = {
+  // How far the clock is between the last tick and the next one, in [0, 1).
+  readonly alpha: number;
+  advance: (frameSeconds: number, tick: () => boolean) => number;
+  reset: () => void;
+};
+
+/**
+ * Accumulates real frame time and converts it into whole simulation ticks.
+ * `tick` returns false to stop early (for example when a replay runs out).
+ * When a stalled tab hands over more time than MAX_TICKS_PER_FRAME can cover,
+ * the backlog is dropped instead of being simulated in a burst.
+ */
+export const createFixedStep = (
+  stepSeconds = TICK_SECONDS,
+  maxTicks = MAX_TICKS_PER_FRAME
+): FixedStep => {
+  let accumulator = 0;
+  return {
+    get alpha() {
+      return accumulator / stepSeconds;
+    },
+    advance: (frameSeconds, tick) => {
+      accumulator += Math.max(frameSeconds, 0);
+      let ticks = 0;
+      while (accumulator >= stepSeconds) {
+        if (ticks >= maxTicks) {
+          accumulator = 0;
+          break;
+        }
+        if (!tick()) {
+          accumulator = 0;
+          break;
+        }
+        accumulator -= stepSeconds;
+        ticks += 1;
+      }
+      return ticks;
+    },
+    reset: () => {
+      accumulator = 0;
+    },
+  };
+};
@@ -0,0 +1,48 @@
+import type { HitboxShape } from "./collision";
+import type { EnemyKind } from "./types";
+
+// Body of the toaster without the headband tips and the legs.
+export const PLAYER_HITBOX: HitboxShape = {
+  type: "polygon",
+  points: [
+    [0.16, 0.14],
+    [0.84, 0.14],
+    [0.88, 0.76],
+    [0.12, 0.76],
+  ],
+};
+
+export const SHOT_HITBOX: HitboxShape = {
+  type: "rect",
+  x: 0.1,
+  y: 0.08,
+  width: 0.8,
+  height: 0.84,
+};
+
+export const POWERUP_HITBOX: HitboxShape = {
+  type: "circle",
+  x: 0.5,
+  y: 0.5,
+  radius: 0.5,
+};
+
+// Asteroid.png is round with transparent corners; tune per kind here.
+export const ENEMY_HITBOXES: Record<EnemyKind, HitboxShape> = {
+  drifter: { type: "circle", x: 0.5, y: 0.52, radius: 0.46 },
+  zigzag: { type: "circle", x: 0.5, y: 0.52, radius: 0.44 },
+  armored: { type: "circle", x: 0.5, y: 0.52, radius: 0.5 },
+  splitter: { type: "circle", x: 0.5, y: 0.52, radius: 0.46 },
+  shard: { type: "circle", x: 0.5, y: 0.52, radius: 0.42 },
+  gunner: { type: "circle", x: 0.5, y: 0.52, radius: 0.46 },
+};
+
+export const ENEMY_BULLET_HITBOX: HitboxShape = {
+  type: "circle",
+  x: 0.5,
+  y: 0.5,
+  radius: 0.5,
+};
+
+// Roughly two asteroids wide; big enough that most enemies touch few cells.
+export const BROADPHASE_CELL_SIZE = 128;
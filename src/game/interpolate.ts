@@ -0,0 +1,70 @@
+import type { Entity, GameState } from "./types";
+
+const lerp = (from: number, to: number, alpha: number) =>
+  from + (to - from) * alpha;
+
+const lerpEntities = <T extends Entity>(
+  previous: T[],
+  current: T[],
+  alpha: number
+) => {
+  const byId = new Map<number, T>();
+  for (const entity of previous) {
+    byId.set(entity.id, entity);
+  }
+  return current.map(entity => {
+    const before = byId.get(entity.id);
+    if (!before) {
+      return entity;
+    }
+    return {
+      ...entity,
+      x: lerp(before.x, entity.x, alpha),
+      y: lerp(before.y, entity.y, alpha),
+    };
+  });
+};
+
+/**
+ * Builds a render-only view between two consecutive ticks. Entities that only
+ * exist in `current` (fresh spawns) are drawn where they are; everything else
+ * slides from its previous position. Timers stay on the current tick.
+ */
+export const interpolateState = (
+  previous: GameState,
+  current: GameState,
+  alpha: number
+): GameState => {
+  if (previous === current) {
+    return current;
+  }
+  return {
+    ...current,
+    boss:
+      current.boss && previous.boss && current.boss.id === previous.boss.id
+        ? {
+            ...current.boss,
+            x: lerp(previous.boss.x, current.boss.x, alpha),
+            y: lerp(previous.boss.y, current.boss.y, alpha),
+          }
+        : current.boss,
+    players: current.players.map((player, index) => {
+      const before = previous.players[index];
+      return before
+        ? {
+            ...player,
+            x: lerp(before.x, player.x, alpha),
+            y: lerp(before.y, player.y, alpha),
+          }
+        : player;
+    }),
+    shots: lerpEntities(previous.shots, current.shots, alpha),
+    enemies: lerpEntities(previous.enemies, current.enemies, alpha),
+    enemyBullets: lerpEntities(
+      previous.enemyBullets,
+      current.enemyBullets,
+      alpha
+    ),
+    powerUps: lerpEntities(previous.powerUps, current.powerUps, alpha),
+  };
+};
@@ -0,0 +1,10 @@
+import { parseLevel } from "../waves";
+import type { Level } from "../waves";
+import orion from "./orion.json";
+
+// Built-in levels. Designers add a JSON file next to this one and list it
+// here; a broken file fails loudly at startup with the path of each problem.
+export const LEVELS: Level[] = [parseLevel(orion)];
+
+export const findLevel = (id: string) =>
+  LEVELS.find(level => level.id === id) ?? null;
@@ -0,0 +1,114 @@
+import { PACIFIST_RAMP_MS, TIME_ATTACK_MS } from "./constants";
+import type { Difficulty } from "./difficulty";
+import type { GameState } from "./types";
+
+export type PlayModeId = "endless" | "timeAttack" | "survival" | "pacifist";
+
+export type RunOutcome = "won" | "lost";
+
+export type PlayMode = {
+  label: string;
+  description: string;
+  // The run ends as a win once the clock reaches this, or never when null.
+  timeLimitMs: number | null;
+  canShoot: boolean;
+  // What the mode's score counts: kills, or whole seconds survived.
+  scoring: "kills" | "time";
+  // Overrides applied on top of the chosen difficulty; null keeps its value.
+  livesStart: number | null;
+  escapesCostLife: boolean | null;
+};
+
+export const PLAY_MODES: Record<PlayModeId, PlayMode> = {
+  endless: {
+    label: "Infinito",
+    description: "Destrua o maximo de asteroides ate perder todas as vidas.",
+    timeLimitMs: null,
+    canShoot: true,
+    scoring: "kills",
+    livesStart: null,
+    escapesCostLife: null,
+  },
+  timeAttack: {
+    label: "Contra o tempo",
+    description: "Dois minutos para somar o maximo de mortes.",
+    timeLimitMs: TIME_ATTACK_MS,
+    canShoot: true,
+    scoring: "kills",
+    livesStart: null,
+    escapesCostLife: null,
+  },
+  survival: {
+    label: "Sobrevivencia",
+    description: "Uma vida so, e asteroides que escapam nao custam nada.",
+    timeLimitMs: null,
+    canShoot: true,
+    scoring: "time",
+    livesStart: 1,
+    escapesCostLife: false,
+  },
+  pacifist: {
+    label: "Pacifista",
+    description: "Sem torradas: desvie pelo maior tempo possivel.",
+    timeLimitMs: null,
+    canShoot: false,
+    scoring: "time",
+    livesStart: null,
+    escapesCostLife: false,
+  },
+};
+
+export const PLAY_MODE_IDS = Object.keys(PLAY_MODES) as PlayModeId[];
+
+export const isPlayModeId = (value: unknown): value is PlayModeId =>
+  typeof value === "string" && PLAY_MODE_IDS.includes(value as PlayModeId);
+
+export const applyPlayMode = (
+  difficulty: Difficulty,
+  mode: PlayModeId
+): Difficulty => {
+  const { livesStart, escapesCostLife } = PLAY_MODES[mode];
+  return {
+    ...difficulty,
+    livesStart: livesStart ?? difficulty.livesStart,
+    escapesCostLife: escapesCostLife ?? difficulty.escapesCostLife,
+  };
+};
+
+// The kill count the spawn and speed curves read.
+export const rampScore = (state: GameState) =>
+  PLAY_MODES[state.mode].canShoot
+    ? state.score
+    : Math.floor(state.timeMs / PACIFIST_RAMP_MS);
+
+export const runScore = (state: GameState) =>
+  PLAY_MODES[state.mode].scoring === "time"
+    ? Math.floor(state.timeMs / 1000)
+    : state.score;
+
+export const runOutcome = (state: GameState): RunOutcome | null => {
+  if (state.lives <= 0) {
+    return "lost";
+  }
+  const { timeLimitMs } = PLAY_MODES[state.mode];
+  return timeLimitMs !== null && state.timeMs >= timeLimitMs ? "won" : null;
+};
+
+export const formatRunScore = (mode: PlayModeId, score: number) =>
+  PLAY_MODES[mode].scoring === "time" ? `${score}s` : `${score} mortes`;
+
+// Mode-specific HUD line, or null when the regular readouts say it all.
+export const playModeHud = (state: GameState) => {
+  const mode = PLAY_MODES[state.mode];
+  if (mode.timeLimitMs !== null) {
+    const left = Math.max(
+      0,
+      Math.ceil((mode.timeLimitMs - state.timeMs) / 1000)
+    );
+    return `Tempo: ${left}s`;
+  }
+  if (mode.scoring === "time") {
+    return `Sobrevivido: ${runScore(state)}s`;
+  }
+  return null;
+};
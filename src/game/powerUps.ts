@@ -0,0 +1,223 @@
+import {
+  BOOST_DURATION_MS,
+  BURST_DURATION_MS,
+  LIVES_CAP,
+  MAGNET_DURATION_MS,
+  MAGNET_PULL_SPEED,
+  MAGNET_RADIUS,
+  PIERCE_DURATION_MS,
+  SHIELD_CAP,
+  SLOW_DURATION_MS,
+} from "./constants";
+import { nearestPlayer, registerKill } from "./entities";
+import type { Rng } from "./rng";
+import type { GameEvent, GameState, Player, PowerUpKind } from "./types";
+
+export type PowerUpContext = {
+  rng: Rng;
+  events: GameEvent[];
+};
+
+// How a pickup combines with an effect that is already running:
+// "extend" adds its duration to what is left, "refresh" restarts the timer,
+// "instant" has no duration and only runs onPickup.
+export type StackingRule = "extend" | "refresh" | "instant";
+
+export type PowerUpDefinition = {
+  // Relative chance among all kinds when an enemy drops something.
+  dropWeight: number;
+  durationMs: number;
+  stacking: StackingRule;
+  // `collector` is the toaster that touched the orb.
+  onPickup?: (
+    state: GameState,
+    context: PowerUpContext,
+    collector: Player
+  ) => void;
+  // Runs every tick while the effect is active.
+  onTick?: (state: GameState, dt: number, context: PowerUpContext) => void;
+  onExpire?: (state: GameState, context: PowerUpContext) => void;
+  // Orb letter and colors, plus the name shown in the HUD while active.
+  style: { label: string; fill: string; stroke: string };
+  hudName: string;
+};
+
+// Each orb drifts toward whichever toaster is closest to it.
+const pullPowerUps = (state: GameState, dt: number) => {
+  for (const powerUp of state.powerUps) {
+    const centerX = powerUp.x + powerUp.width / 2;
+    const centerY = powerUp.y + powerUp.height / 2;
+    const target = nearestPlayer(state, centerX, centerY);
+    const dx = target.x + target.width / 2 - centerX;
+    const dy = target.y + target.height / 2 - centerY;
+    const distance = Math.hypot(dx, dy);
+    if (distance === 0 || distance > MAGNET_RADIUS) {
+      continue;
+    }
+    const step = Math.min(distance, MAGNET_PULL_SPEED * dt);
+    powerUp.x += (dx / distance) * step;
+    powerUp.y += (dy / distance) * step;
+  }
+};
+
+// Nova wipes regular enemies and their bullets, crediting each kill. The boss
+// shrugs it off, otherwise a lucky drop would skip the whole fight.
+const detonateNova = (state: GameState, { events }: PowerUpContext) => {
+  const cleared = state.enemies.length;
+  for (const enemy of state.enemies) {
+    registerKill(state);
+    events.push({
+      type: "enemyDestroyed",
+      kind: enemy.kind,
+      x: enemy.x + enemy.width / 2,
+      y: enemy.y + enemy.height / 2,
+    });
+  }
+  state.enemies = [];
+  state.enemyBullets = [];
+  events.push({ type: "novaDetonated", cleared });
+};
+
+/**
+ * Every power-up kind and its behavior. Adding a kind means extending
+ * `PowerUpKind` and giving it an entry here; the simulation and the renderer
+ * only go through this table.
+ */
+export const POWERUPS: Record<PowerUpKind, PowerUpDefinition> = {
+  boost: {
+    dropWeight: 0.26,
+    durationMs: BOOST_DURATION_MS,
+    stacking: "extend",
+    style: { label: "T", fill: "rgba(88, 211, 192, 0.9)", stroke: "#2fb7a3" },
+    hudName: "Turbo",
+  },
+  burst: {
+    dropWeight: 0.22,
+    durationMs: BURST_DURATION_MS,
+    stacking: "extend",
+    style: { label: "R", fill: "rgba(244, 195, 122, 0.9)", stroke: "#d08a43" },
+    hudName: "Rajada",
+  },
+  shield: {
+    dropWeight: 0.18,
+    durationMs: 0,
+    stacking: "instant",
+    onPickup: (_state, _context, collector) => {
+      collector.shield = Math.min(SHIELD_CAP, collector.shield + 1);
+    },
+    style: { label: "S", fill: "rgba(90, 160, 255, 0.9)", stroke: "#3f7ad8" },
+    hudName: "Escudo",
+  },
+  slow: {
+    dropWeight: 0.2,
+    durationMs: SLOW_DURATION_MS,
+    stacking: "extend",
+    style: { label: "L", fill: "rgba(226, 93, 111, 0.85)", stroke: "#b94a5b" },
+    hudName: "Lento",
+  },
+  magnet: {
+    dropWeight: 0.12,
+    durationMs: MAGNET_DURATION_MS,
+    stacking: "refresh",
+    onTick: pullPowerUps,
+    style: { label: "M", fill: "rgba(190, 140, 255, 0.9)", stroke: "#8a5ad8" },
+    hudName: "Ima",
+  },
+  pierce: {
+    dropWeight: 0.12,
+    durationMs: PIERCE_DURATION_MS,
+    stacking: "extend",
+    style: { label: "P", fill: "rgba(255, 236, 140, 0.9)", stroke: "#d8b83f" },
+    hudName: "Perfurante",
+  },
+  nova: {
+    dropWeight: 0.05,
+    durationMs: 0,
+    stacking: "instant",
+    onPickup: detonateNova,
+    style: { label: "N", fill: "rgba(255, 255, 255, 0.92)", stroke: "#f4c37a" },
+    hudName: "Nova",
+  },
+  life: {
+    dropWeight: 0.03,
+    durationMs: 0,
+    stacking: "instant",
+    onPickup: state => {
+      state.lives = Math.min(LIVES_CAP, state.lives + 1);
+    },
+    style: { label: "+", fill: "rgba(120, 220, 120, 0.9)", stroke: "#3fa84a" },
+    hudName: "Vida extra",
+  },
+};
+
+export const POWERUP_KINDS = Object.keys(POWERUPS) as PowerUpKind[];
+
+export const isEffectActive = (state: GameState, kind: PowerUpKind) =>
+  state.timeMs < (state.effects[kind] ?? 0);
+
+export const pickPowerUpKind = (rng: Rng): PowerUpKind => {
+  let total = 0;
+  for (const kind of POWERUP_KINDS) {
+    total += POWERUPS[kind].dropWeight;
+  }
+  let roll = rng.next() * total;
+  for (const kind of POWERUP_KINDS) {
+    roll -= POWERUPS[kind].dropWeight;
+    if (roll < 0) {
+      return kind;
+    }
+  }
+  return POWERUP_KINDS[POWERUP_KINDS.length - 1]!;
+};
+
+export const collectPowerUp = (
+  state: GameState,
+  kind: PowerUpKind,
+  context: PowerUpContext,
+  collector: Player
+) => {
+  const definition = POWERUPS[kind];
+  const nowMs = state.timeMs;
+  switch (definition.stacking) {
+    case "extend":
+      state.effects[kind] =
+        Math.max(state.effects[kind] ?? 0, nowMs) + definition.durationMs;
+      break;
+    case "refresh":
+      state.effects[kind] = nowMs + definition.durationMs;
+      break;
+    case "instant":
+      break;
+  }
+  definition.onPickup?.(state, context, collector);
+  context.events.push({
+    type: "powerUpCollected",
+    kind,
+    x: collector.x + collector.width / 2,
+    y: collector.y + collector.height / 2,
+  });
+};
+
+/**
+ * Runs the per-tick hooks of active effects and retires the ones whose timer
+ * ran out.
+ */
+export const updateEffects = (
+  state: GameState,
+  dt: number,
+  context: PowerUpContext
+) => {
+  for (const kind of POWERUP_KINDS) {
+    const until = state.effects[kind];
+    if (until === undefined) {
+      continue;
+    }
+    if (state.timeMs < until) {
+      POWERUPS[kind].onTick?.(state, dt, context);
+    } else {
+      delete state.effects[kind];
+      POWERUPS[kind].onExpire?.(state, context);
+      context.events.push({ type: "powerUpExpired", kind });
+    }
+  }
+};
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+
+import { emptyControls } from "./simulation";
+import {
+  createReplayRecorder,
+  parseReplay,
+  replayTickCount,
+  serializeReplay,
+  validateReplay,
+} from "./replay";
+
+const recordReplay = () => {
+  const recorder = createReplayRecorder(1234);
+  recorder.mark("start");
+  for (let tick = 0; tick < 30; tick += 1) {
+    recorder.record([{ ...emptyControls(), shoot: tick >= 10 }]);
+  }
+  recorder.mark("gameover");
+  return recorder.finish(0);
+};
+
+describe("validateReplay", () => {
+  test("accepts a recorded replay after a round trip", () => {
+    const replay = recordReplay();
+    const parsed = parseReplay(serializeReplay(replay));
+    expect(parsed).toEqual(replay);
+    expect(replayTickCount(parsed)).toBe(30);
+  });
+
+  test("rejects text that is not JSON", () => {
+    expect(() => parseReplay("{not json")).toThrow("not valid JSON");
+  });
+
+  test("rejects another version", () => {
+    expect(() => validateReplay({ ...recordReplay(), version: 1 })).toThrow(
+      "Unsupported replay version"
+    );
+  });
+
+  test("rejects a seed outside 32 bits", () => {
+    expect(() => validateReplay({ ...recordReplay(), seed: -1 })).toThrow(
+      "32-bit unsigned integer"
+    );
+  });
+
+  test("rejects inputs that are not run-length pairs", () => {
+    expect(() =>
+      validateReplay({ ...recordReplay(), inputs: [0, 10, 16] })
+    ).toThrow("run-length");
+    expect(() => validateReplay({ ...recordReplay(), inputs: [0, 0] })).toThrow(
+      "run-length"
+    );
+  });
+
+  test("rejects transitions past the last tick", () => {
+    expect(() =>
+      validateReplay({
+        ...recordReplay(),
+        transitions: [{ tick: 31, action: "gameover" }],
+      })
+    ).toThrow("transitions are malformed");
+  });
+
+  test("rejects a daily replay that breaks the daily rules", () => {
+    expect(() =>
+      validateReplay({ ...recordReplay(), daily: "2024-05-01" })
+    ).toThrow("daily rules");
+  });
+});
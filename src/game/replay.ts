@@ -0,0 +1,441 @@
+import { TICK_HZ, TICK_MS, TICK_SECONDS } from "./constants";
+import { DAILY_DIFFICULTY, dailySeed, isDailyKey } from "./daily";
+import { checkDifficulty, defaultDifficulty } from "./difficulty";
+import type { DifficultySetting } from "./difficulty";
+import { isPlayModeId } from "./modes";
+import type { PlayModeId } from "./modes";
+import { createRng } from "./rng";
+import { createGameState, stepGame } from "./simulation";
+import type { Controls, GameState, StepResult } from "./types";
+import { validateLevel } from "./waves";
+import type { Level } from "./waves";
+
+// v2: fixed TICK_HZ steps, so per-frame deltas are no longer stored.
+export const REPLAY_VERSION = 2;
+
+// How often the player keeps a snapshot while moving forward, so seeking
+// only has to re-simulate from the closest one.
+const KEYFRAME_INTERVAL = 240;
+
+// Pause/resume are informational: no ticks are recorded while paused.
+export type ReplayAction = "start" | "pause" | "resume" | "exit" | "gameover";
+
+export type ReplayTransition = {
+  tick: number;
+  action: ReplayAction;
+};
+
+export type Replay = {
+  version: typeof REPLAY_VERSION;
+  seed: number;
+  recordedAt: string;
+  score: number;
+  tickHz: number;
+  // Run-length encoded as [controlsMask, count, controlsMask, count, ...].
+  inputs: number[];
+  transitions: ReplayTransition[];
+  // The scripted level the run was played on, embedded whole so replays of
+  // imported levels still play back. Absent for endless runs.
+  level?: Level;
+  // Replays recorded before difficulties existed played on Normal.
+  difficulty: DifficultySetting;
+  // Absent for endless runs, which also covers replays older than modes.
+  mode?: PlayModeId;
+  // Two-toaster run; each input mask then packs both players' controls.
+  coop?: boolean;
+  // UTC day of the daily challenge this run belongs to; the seed is derived
+  // from it.
+  daily?: string;
+};
+
+// Everything besides the seed and inputs that decides how a run plays out.
+export type RunSetup = {
+  level?: Level | null;
+  difficulty?: DifficultySetting;
+  mode?: PlayModeId;
+  coop?: boolean;
+  daily?: string | null;
+};
+
+const CONTROL_BITS: Record<keyof Controls, number> = {
+  up: 1,
+  down: 2,
+  left: 4,
+  right: 8,
+  shoot: 16,
+};
+
+// Player N's controls sit N * CONTROL_BIT_COUNT bits up, so solo masks are
+// unchanged by co-op support.
+const CONTROL_BIT_COUNT = 5;
+
+export const encodeControls = (controls: readonly Controls[]) => {
+  let mask = 0;
+  controls.forEach((player, index) => {
+    for (const key of Object.keys(CONTROL_BITS) as (keyof Controls)[]) {
+      if (player[key]) {
+        mask |= CONTROL_BITS[key] << (index * CONTROL_BIT_COUNT);
+      }
+    }
+  });
+  return mask;
+};
+
+export const decodeControls = (mask: number, players = 1): Controls[] =>
+  Array.from({ length: players }, (_, index) => {
+    const bits = mask >> (index * CONTROL_BIT_COUNT);
+    return {
+      up: (bits & CONTROL_BITS.up) !== 0,
+      down: (bits & CONTROL_BITS.down) !== 0,
+      left: (bits & CONTROL_BITS.left) !== 0,
+      right: (bits & CONTROL_BITS.right) !== 0,
+      shoot: (bits & CONTROL_BITS.shoot) !== 0,
+    };
+  });
+
+const replayPlayerCount = (replay: Replay) => (replay.coop ? 2 : 1);
+
+const runLengthEncode = (values: number[]) => {
+  const encoded: number[] = [];
+  for (const value of values) {
+    const last = encoded.length - 2;
+    if (last >= 0 && encoded[last] === value) {
+      encoded[last + 1]! += 1;
+    } else {
+      encoded.push(value, 1);
+    }
+  }
+  return encoded;
+};
+
+const runLengthDecodeInto = (values: number[], encoded: number[]) => {
+  for (let i = 0; i < encoded.length; i += 2) {
+    const value = encoded[i]!;
+    const count = encoded[i + 1]!;
+    for (let n = 0; n < count; n += 1) {
+      values.push(value);
+    }
+  }
+  return values;
+};
+
+const runLengthDecode = (encoded: number[]) => runLengthDecodeInto([], encoded);
+
+// Appends an encoded chunk to `encoded` in place, merging the seam run.
+export const appendRunLength = (encoded: number[], chunk: number[]) => {
+  for (let i = 0; i < chunk.length; i += 2) {
+    const last = encoded.length - 2;
+    if (last >= 0 && encoded[last] === chunk[i]) {
+      encoded[last + 1]! += chunk[i + 1]!;
+    } else {
+      encoded.push(chunk[i]!, chunk[i + 1]!);
+    }
+  }
+};
+
+const runLengthTotal = (encoded: number[]) => {
+  let total = 0;
+  for (let i = 1; i < encoded.length; i += 2) {
+    total += encoded[i]!;
+  }
+  return total;
+};
+
+export type ReplayRecorder = {
+  readonly seed: number;
+  readonly tick: number;
+  record: (controls: readonly Controls[]) => void;
+  // Run-length encoded inputs from `tick` on, for streaming a run live.
+  inputsSince: (tick: number) => number[];
+  mark: (action: ReplayAction) => void;
+  finish: (score: number) => Replay;
+};
+
+export const createReplayRecorder = (
+  seed: number,
+  {
+    level = null,
+    difficulty = defaultDifficulty(),
+    mode = "endless",
+    coop = false,
+    daily = null,
+  }: RunSetup = {}
+): ReplayRecorder => {
+  const inputs: number[] = [];
+  const transitions: ReplayTransition[] = [];
+  return {
+    seed,
+    get tick() {
+      return inputs.length;
+    },
+    record: controls => {
+      inputs.push(encodeControls(controls));
+    },
+    inputsSince: tick => runLengthEncode(inputs.slice(tick)),
+    mark: action => {
+      transitions.push({ tick: inputs.length, action });
+    },
+    finish: score => ({
+      version: REPLAY_VERSION,
+      seed,
+      recordedAt: new Date().toISOString(),
+      score,
+      tickHz: TICK_HZ,
+      inputs: runLengthEncode(inputs),
+      transitions: [...transitions],
+      ...(level ? { level } : {}),
+      difficulty,
+      ...(mode !== "endless" ? { mode } : {}),
+      ...(coop ? { coop } : {}),
+      ...(daily ? { daily } : {}),
+    }),
+  };
+};
+
+export const replayTickCount = (replay: Replay) =>
+  runLengthTotal(replay.inputs);
+
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay);
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.every(item => typeof item === "number" && Number.isFinite(item));
+
+export const isRunLength = (value: unknown): value is number[] =>
+  isNumberArray(value) &&
+  value.length % 2 === 0 &&
+  value.every(
+    (item, index) => index % 2 === 0 || (Number.isInteger(item) && item > 0)
+  );
+
+const REPLAY_ACTIONS: ReplayAction[] = [
+  "start",
+  "pause",
+  "resume",
+  "exit",
+  "gameover",
+];
+
+/**
+ * Parses and validates an exported replay. Throws an Error describing the
+ * first problem found so the UI can show it as-is.
+ */
+export const parseReplay = (text: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Replay file is not valid JSON.");
+  }
+  return validateReplay(data);
+};
+
+// Same checks as parseReplay, for replays that arrive already decoded (e.g.
+// inside a score submission).
+export const validateReplay = (data: unknown): Replay => {
+  if (!data || typeof data !== "object") {
+    throw new Error("Replay file must contain a JSON object.");
+  }
+  const raw = data as Record<string, unknown>;
+  if (raw.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${String(raw.version)}.`);
+  }
+  if (
+    typeof raw.seed !== "number" ||
+    !Number.isInteger(raw.seed) ||
+    raw.seed < 0 ||
+    raw.seed > 0xffffffff
+  ) {
+    throw new Error("Replay seed must be a 32-bit unsigned integer.");
+  }
+  if (typeof raw.score !== "number" || !Number.isInteger(raw.score)) {
+    throw new Error("Replay score must be an integer.");
+  }
+  if (typeof raw.recordedAt !== "string") {
+    throw new Error("Replay recordedAt must be a string.");
+  }
+  if (raw.tickHz !== TICK_HZ) {
+    throw new Error(
+      `Replay was recorded at ${String(raw.tickHz)}Hz, expected ${TICK_HZ}Hz.`
+    );
+  }
+  if (!isRunLength(raw.inputs)) {
+    throw new Error("Replay inputs must be run-length encoded masks.");
+  }
+  const tickCount = runLengthTotal(raw.inputs);
+  const transitions = raw.transitions;
+  if (
+    !Array.isArray(transitions) ||
+    !transitions.every(
+      item =>
+        item &&
+        typeof item === "object" &&
+        Number.isInteger(item.tick) &&
+        item.tick >= 0 &&
+        item.tick <= tickCount &&
+        REPLAY_ACTIONS.includes(item.action)
+    )
+  ) {
+    throw new Error("Replay transitions are malformed.");
+  }
+  let difficulty = defaultDifficulty();
+  if (raw.difficulty !== undefined) {
+    const problem = checkDifficulty(raw.difficulty);
+    if (problem) {
+      throw new Error(`Replay ${problem}`);
+    }
+    difficulty = raw.difficulty as DifficultySetting;
+  }
+  let level: Level | undefined;
+  if (raw.level !== undefined) {
+    const result = validateLevel(raw.level);
+    if (!result.ok) {
+      throw new Error(`Replay level is invalid: ${result.errors[0]}`);
+    }
+    level = result.level;
+  }
+  if (raw.mode !== undefined && !isPlayModeId(raw.mode)) {
+    throw new Error(`Unknown replay mode: ${String(raw.mode)}.`);
+  }
+  const mode = raw.mode ?? "endless";
+  if (raw.coop !== undefined && typeof raw.coop !== "boolean") {
+    throw new Error("Replay coop must be a boolean.");
+  }
+  const coop = raw.coop === true;
+  let daily: string | undefined;
+  if (raw.daily !== undefined) {
+    if (!isDailyKey(raw.daily)) {
+      throw new Error("Replay daily must be a YYYY-MM-DD date.");
+    }
+    if (
+      raw.seed !== dailySeed(raw.daily) ||
+      difficulty.id !== DAILY_DIFFICULTY ||
+      level ||
+      mode !== "endless" ||
+      coop
+    ) {
+      throw new Error(`Replay does not follow the ${raw.daily} daily rules.`);
+    }
+    daily = raw.daily;
+  }
+  return {
+    version: REPLAY_VERSION,
+    seed: raw.seed,
+    recordedAt: raw.recordedAt,
+    score: raw.score,
+    tickHz: TICK_HZ,
+    inputs: raw.inputs,
+    transitions: transitions as ReplayTransition[],
+    ...(level ? { level } : {}),
+    difficulty,
+    ...(mode !== "endless" ? { mode } : {}),
+    ...(coop ? { coop } : {}),
+    ...(daily ? { daily } : {}),
+  };
+};
+
+type Keyframe = {
+  tick: number;
+  state: GameState;
+  rngState: number;
+};
+
+export type ReplayPlayer = {
+  readonly replay: Replay;
+  readonly tick: number;
+  readonly tickCount: number;
+  readonly state: GameState;
+  readonly durationMs: number;
+  readonly finished: boolean;
+  step: () => StepResult | null;
+  seek: (tick: number) => void;
+  // Appends encoded inputs that arrived after the player was created.
+  extend: (encoded: number[]) => void;
+};
+
+/**
+ * Plays a replay back by re-running the simulation with the recorded seed and
+ * inputs. States returned by stepGame are never mutated, so keyframes can hold
+ * them by reference.
+ */
+export const createReplayPlayer = (replay: Replay): ReplayPlayer => {
+  const inputs = runLengthDecode(replay.inputs);
+  const players = replayPlayerCount(replay);
+  const keyframes: Keyframe[] = [
+    {
+      tick: 0,
+      state: createGameState({
+        level: replay.level,
+        difficulty: replay.difficulty.values,
+        mode: replay.mode,
+        players: replayPlayerCount(replay),
+      }),
+      rngState: replay.seed,
+    },
+  ];
+
+  let tick = 0;
+  let state = keyframes[0]!.state;
+  let rng = createRng(replay.seed);
+
+  const step = (): StepResult | null => {
+    if (tick >= inputs.length) {
+      return null;
+    }
+    const result = stepGame(
+      state,
+      decodeControls(inputs[tick]!, players),
+      rng,
+      TICK_SECONDS
+    );
+    tick += 1;
+    state = result.state;
+    const lastKeyframe = keyframes[keyframes.length - 1]!;
+    if (tick - lastKeyframe.tick >= KEYFRAME_INTERVAL) {
+      keyframes.push({ tick, state, rngState: rng.state });
+    }
+    return result;
+  };
+
+  const seek = (target: number) => {
+    const clamped = Math.max(0, Math.min(Math.floor(target), inputs.length));
+    let keyframe = keyframes[0]!;
+    for (const candidate of keyframes) {
+      if (candidate.tick <= clamped) {
+        keyframe = candidate;
+      }
+    }
+    if (clamped < tick || keyframe.tick > tick) {
+      tick = keyframe.tick;
+      state = keyframe.state;
+      rng = createRng(keyframe.rngState);
+    }
+    while (tick < clamped) {
+      step();
+    }
+  };
+
+  return {
+    replay,
+    get tick() {
+      return tick;
+    },
+    get tickCount() {
+      return inputs.length;
+    },
+    get state() {
+      return state;
+    },
+    get durationMs() {
+      return inputs.length * TICK_MS;
+    },
+    get finished() {
+      return tick >= inputs.length;
+    },
+    step,
+    seek,
+    extend: encoded => {
+      runLengthDecodeInto(inputs, encoded);
+    },
+  };
+};
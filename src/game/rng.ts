@@ -0,0 +1,28 @@
+// mulberry32: tiny, fast and good enough for gameplay rolls. The whole
+// generator state is a single uint32, so it can be saved and restored by
+// passing `rng.state` back into createRng.
+export type Rng = {
+  next: () => number;
+  readonly state: number;
+};
+
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    get state() {
+      return state;
+    },
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
+
+export const randomBetween = (rng: Rng, min: number, max: number) =>
+  Math.floor(rng.next() * (max - min + 1)) + min;
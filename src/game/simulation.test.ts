@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+
+import { TICK_SECONDS } from "./constants";
+import { createEnemy } from "./entities";
+import { createRng } from "./rng";
+import { createGameState, emptyControls, stepGame } from "./simulation";
+import type { Controls, GameEvent, GameState } from "./types";
+
+const shooting: Controls = { ...emptyControls(), shoot: true, up: true };
+
+// A drifter parked `offsetX` pixels in front of the first toaster.
+const parkEnemy = (state: GameState, offsetX: number) => {
+  const player = state.players[0]!;
+  const enemy = createEnemy(state, createRng(1), "drifter");
+  enemy.x = player.x + offsetX;
+  enemy.y = player.y + player.height / 2 - enemy.height / 2;
+  enemy.baseY = enemy.y;
+  enemy.speed = 0;
+  state.enemies.push(enemy);
+  return enemy;
+};
+
+const run = (state: GameState, controls: Controls, ticks: number, seed = 7) => {
+  const rng = createRng(seed);
+  const events: GameEvent[] = [];
+  for (let tick = 0; tick < ticks && !state.outcome; tick += 1) {
+    const result = stepGame(state, [controls], rng, TICK_SECONDS);
+    state = result.state;
+    events.push(...result.events);
+  }
+  return { state, events };
+};
+
+describe("stepGame", () => {
+  test("the same seed and controls produce the same run", () => {
+    const first = run(createGameState(), shooting, 1200, 42);
+    const second = run(createGameState(), shooting, 1200, 42);
+    expect(second.state).toEqual(first.state);
+    expect(second.events).toEqual(first.events);
+  });
+
+  test("another seed produces another run", () => {
+    const first = run(createGameState(), emptyControls(), 600, 1);
+    const second = run(createGameState(), emptyControls(), 600, 2);
+    expect(second.state.enemies).not.toEqual(first.state.enemies);
+  });
+
+  test("leaves the input state untouched", () => {
+    const state = createGameState();
+    parkEnemy(state, 120);
+    const before = structuredClone(state);
+    const result = stepGame(state, [shooting], createRng(3), TICK_SECONDS);
+    expect(state).toEqual(before);
+    expect(result.state).not.toBe(state);
+    expect(result.state.timeMs).toBeGreaterThan(state.timeMs);
+  });
+
+  test("a shot kills the enemy in front of the toaster", () => {
+    const state = createGameState();
+    const enemy = parkEnemy(state, 200);
+    const fire = { ...emptyControls(), shoot: true };
+    const { state: after, events } = run(state, fire, 120);
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "enemyDestroyed", kind: "drifter" })
+    );
+    expect(after.score).toBe(1);
+    expect(after.enemies.some(other => other.id === enemy.id)).toBe(false);
+  });
+
+  test("touching an enemy costs a life", () => {
+    const state = createGameState();
+    const lives = state.lives;
+    parkEnemy(state, 0);
+    const { state: after, events } = run(state, emptyControls(), 1);
+    expect(after.lives).toBe(lives - 1);
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "playerHit", player: 0, shielded: false })
+    );
+  });
+
+  test("losing the last life ends the run", () => {
+    const state = createGameState();
+    state.lives = 1;
+    parkEnemy(state, 0);
+    const { state: after, events } = run(state, emptyControls(), 1);
+    expect(after.outcome).toBe("lost");
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "gameOver", outcome: "lost" })
+    );
+    // A finished run does not move any more.
+    const next = stepGame(after, [shooting], createRng(1), TICK_SECONDS);
+    expect(next.state).toBe(after);
+    expect(next.events).toEqual([]);
+  });
+});
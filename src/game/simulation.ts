@@ -0,0 +1,569 @@
+import {
+  BOOST_MULTIPLIER,
+  BURST_BONUS_SHOTS,
+  BURST_COOLDOWN_MS,
+  BURST_SPREAD_OFFSET,
+  BURST_SPREAD_SPEED,
+  BOSS_EVERY_KILLS,
+  ENEMY_HIT_FLASH_MS,
+  HEIGHT,
+  MAX_SHOTS_BASE,
+  MAX_SHOTS_CAP,
+  PLAYER_SPEED,
+  POWERUP_DROP_COMBO_BONUS,
+  SHOT_COOLDOWN_MS,
+  SHOT_SPEED,
+  SHOTS_DESTROY_BULLETS,
+  SLOW_MULTIPLIER,
+  SPRITE_SIZES,
+  WIDTH,
+} from "./constants";
+import {
+  bossHullShape,
+  createBoss,
+  defeatBoss,
+  shootBoss,
+  updateBoss,
+} from "./boss";
+import { updateEnemyFire } from "./bullets";
+import { DIFFICULTY_PRESETS } from "./difficulty";
+import {
+  PLAY_MODES,
+  applyPlayMode,
+  rampScore,
+  runOutcome,
+  runScore,
+} from "./modes";
+import type { PlayModeId } from "./modes";
+import type { Difficulty } from "./difficulty";
+import { resolveHitbox, shapeBounds, shapesIntersect } from "./collision";
+import type { WorldShape } from "./collision";
+import {
+  bumpCombo,
+  clamp,
+  createEnemy,
+  createPowerUp,
+  createShard,
+  pickEnemyKind,
+  registerKill,
+  takeId,
+} from "./entities";
+import {
+  BROADPHASE_CELL_SIZE,
+  ENEMY_BULLET_HITBOX,
+  ENEMY_HITBOXES,
+  PLAYER_HITBOX,
+  POWERUP_HITBOX,
+  SHOT_HITBOX,
+} from "./hitboxes";
+import {
+  collectPowerUp,
+  isEffectActive,
+  pickPowerUpKind,
+  updateEffects,
+} from "./powerUps";
+import type { PowerUpContext } from "./powerUps";
+import type { Rng } from "./rng";
+import { createSpatialHash } from "./spatialHash";
+import { createLevelProgress, updateLevel } from "./waves";
+import type { Level } from "./waves";
+import type {
+  Controls,
+  Enemy,
+  EnemyBullet,
+  GameEvent,
+  GameState,
+  Player,
+  PowerUp,
+  Shot,
+  StepResult,
+} from "./types";
+
+export const spawnInterval = (score: number, difficulty: Difficulty) =>
+  Math.max(
+    difficulty.minSpawnMs,
+    difficulty.baseSpawnMs - Math.floor(score / 10) * 80
+  );
+
+export const emptyControls = (): Controls => ({
+  up: false,
+  down: false,
+  left: false,
+  right: false,
+  shoot: false,
+});
+
+export const maxShotsFor = (state: GameState, player: Player) =>
+  player.maxShots + (isEffectActive(state, "burst") ? BURST_BONUS_SHOTS : 0);
+
+// Shots the toaster at `index` can still have in flight.
+export const ammoFor = (state: GameState, index: number) =>
+  Math.max(
+    maxShotsFor(state, state.players[index]!) -
+      state.shots.filter(shot => shot.owner === index).length,
+    0
+  );
+
+export type GameOptions = {
+  // Scripted waves to play before the endless generator takes over.
+  level?: Level | null;
+  difficulty?: Difficulty;
+  mode?: PlayModeId;
+  // Toasters on the field: 2 for local co-op, up to 4 in online rooms.
+  players?: number;
+};
+
+const createPlayer = (centerY: number): Player => {
+  const { width, height } = SPRITE_SIZES.player;
+  return {
+    x: 80 - width / 2,
+    y: centerY - height / 2,
+    width,
+    height,
+    speed: PLAYER_SPEED,
+    maxShots: MAX_SHOTS_BASE,
+    // Let the very first shot fire immediately.
+    lastShotMs: -SHOT_COOLDOWN_MS,
+    invulnerableUntil: 0,
+    shield: 0,
+  };
+};
+
+export const createGameState = (options: GameOptions = {}): GameState => {
+  const mode = options.mode ?? "endless";
+  const difficulty = applyPlayMode(
+    options.difficulty ?? DIFFICULTY_PRESETS.normal,
+    mode
+  );
+  const count = options.players ?? 1;
+  const players = Array.from({ length: count }, (_, index) =>
+    createPlayer((HEIGHT * (index + 1)) / (count + 1))
+  );
+
+  return {
+    timeMs: 0,
+    nextId: 0,
+    difficulty,
+    mode,
+    outcome: null,
+    score: 0,
+    lives: difficulty.livesStart,
+    lastSpawnMs: 0,
+    nextShotUpgrade: 15,
+    combo: 0,
+    comboExpiresAt: 0,
+    maxCombo: 0,
+    effects: {},
+    nextBossAt: BOSS_EVERY_KILLS,
+    bossesDefeated: 0,
+    boss: null,
+    level: options.level ? createLevelProgress(options.level) : null,
+    players,
+    shots: [],
+    enemies: [],
+    enemyBullets: [],
+    powerUps: [],
+  };
+};
+
+const hurtPlayer = (state: GameState, index: number, events: GameEvent[]) => {
+  const player = state.players[index]!;
+  const shielded = player.shield > 0;
+  if (shielded) {
+    player.shield -= 1;
+  } else {
+    state.lives -= 1;
+  }
+  events.push({
+    type: "playerHit",
+    player: index,
+    shielded,
+    x: player.x + player.width / 2,
+    y: player.y + player.height / 2,
+  });
+  player.invulnerableUntil = state.timeMs + state.difficulty.invulnerableMs;
+  state.combo = 0;
+  state.comboExpiresAt = 0;
+};
+
+export const cloneGameState = (state: GameState): GameState => ({
+  ...state,
+  boss: state.boss && { ...state.boss },
+  level: state.level && { ...state.level },
+  effects: { ...state.effects },
+  players: state.players.map(player => ({ ...player })),
+  shots: state.shots.map(shot => ({ ...shot })),
+  enemies: state.enemies.map(enemy => ({ ...enemy })),
+  enemyBullets: state.enemyBullets.map(bullet => ({ ...bullet })),
+  powerUps: state.powerUps.map(powerUp => ({ ...powerUp })),
+});
+
+/**
+ * Advances the run by `dt` seconds. The input state is left untouched; the
+ * returned state is a fresh copy. All randomness comes from `rng`, so the same
+ * seed and the same controls per step always produce the same run.
+ * `controls` holds one entry per toaster; missing entries stand still.
+ */
+export const stepGame = (
+  previous: GameState,
+  controls: readonly Controls[],
+  rng: Rng,
+  dt: number
+): StepResult => {
+  const events: GameEvent[] = [];
+  if (previous.outcome) {
+    return { state: previous, events };
+  }
+
+  const state = cloneGameState(previous);
+  state.timeMs += dt * 1000;
+  const nowMs = state.timeMs;
+
+  const powerUpContext: PowerUpContext = { rng, events };
+
+  const boostActive = isEffectActive(state, "boost");
+  const burstActive = isEffectActive(state, "burst");
+  const slowActive = isEffectActive(state, "slow");
+  const pierceActive = isEffectActive(state, "pierce");
+
+  state.players.forEach((player, index) => {
+    const input = controls[index] ?? emptyControls();
+    const directionX = (input.right ? 1 : 0) - (input.left ? 1 : 0);
+    const directionY = (input.down ? 1 : 0) - (input.up ? 1 : 0);
+    if (directionX !== 0 || directionY !== 0) {
+      const length = Math.hypot(directionX, directionY) || 1;
+      const playerSpeed = player.speed * (boostActive ? BOOST_MULTIPLIER : 1);
+      player.x += (directionX / length) * playerSpeed * dt;
+      player.y += (directionY / length) * playerSpeed * dt;
+
+      player.x = clamp(player.x, 0, WIDTH - player.width);
+      player.y = clamp(player.y, 0, HEIGHT - player.height);
+    }
+
+    if (!input.shoot || !PLAY_MODES[state.mode].canShoot) {
+      return;
+    }
+    const shotCooldown = burstActive ? BURST_COOLDOWN_MS : SHOT_COOLDOWN_MS;
+    if (nowMs - player.lastShotMs < shotCooldown) {
+      return;
+    }
+    const ammo = ammoFor(state, index);
+    if (ammo === 0) {
+      return;
+    }
+    player.lastShotMs = nowMs;
+    const shotWidth = SPRITE_SIZES.shot.width;
+    const shotHeight = SPRITE_SIZES.shot.height;
+    const baseY = player.y + player.height / 2 - shotHeight / 2;
+    const patterns = burstActive
+      ? [
+          { offset: 0, velocityY: 0 },
+          { offset: -BURST_SPREAD_OFFSET, velocityY: -BURST_SPREAD_SPEED },
+          { offset: BURST_SPREAD_OFFSET, velocityY: BURST_SPREAD_SPEED },
+        ]
+      : [{ offset: 0, velocityY: 0 }];
+    for (const pattern of patterns.slice(0, ammo)) {
+      state.shots.push({
+        id: takeId(state),
+        x: player.x + player.width,
+        y: baseY + pattern.offset,
+        width: shotWidth,
+        height: shotHeight,
+        velocityX: SHOT_SPEED,
+        velocityY: pattern.velocityY,
+        piercing: pierceActive,
+        hitIds: [],
+        owner: index,
+      });
+    }
+    events.push({ type: "shotFired" });
+  });
+  for (const shot of state.shots) {
+    shot.x += shot.velocityX * dt;
+    shot.y += shot.velocityY * dt;
+  }
+  state.shots = state.shots.filter(
+    shot =>
+      shot.x < WIDTH + shot.width &&
+      shot.y > -shot.height &&
+      shot.y < HEIGHT + shot.height
+  );
+
+  const scripted = state.level && updateLevel(state, state.level, rng, dt);
+  const ramp = rampScore(state);
+  if (
+    !scripted &&
+    !state.boss &&
+    nowMs - state.lastSpawnMs >= spawnInterval(ramp, state.difficulty)
+  ) {
+    const kind = pickEnemyKind(rng, ramp);
+    state.enemies.push(createEnemy(state, rng, kind));
+    state.lastSpawnMs = nowMs;
+  }
+
+  updateBoss(state, rng, dt);
+
+  const enemySpeedScale = slowActive ? SLOW_MULTIPLIER : 1;
+  for (const enemy of state.enemies) {
+    enemy.x -= enemy.speed * enemySpeedScale * dt;
+    if (enemy.waveAmplitude > 0) {
+      enemy.y =
+        enemy.baseY +
+        Math.sin(nowMs * enemy.waveFrequency + enemy.wavePhase) *
+          enemy.waveAmplitude;
+      enemy.y = clamp(enemy.y, 0, HEIGHT - enemy.height);
+    }
+  }
+
+  updateEnemyFire(state, rng, dt, enemySpeedScale, events);
+
+  const remainingEnemies: Enemy[] = [];
+  let escaped = 0;
+  for (const enemy of state.enemies) {
+    if (enemy.x + enemy.width < 0) {
+      escaped += 1;
+    } else {
+      remainingEnemies.push(enemy);
+    }
+  }
+  if (escaped > 0) {
+    if (state.difficulty.escapesCostLife) {
+      state.lives -= escaped;
+    }
+    state.combo = 0;
+    state.comboExpiresAt = 0;
+    events.push({ type: "enemyEscaped", count: escaped });
+  }
+  state.enemies = remainingEnemies;
+
+  for (const powerUp of state.powerUps) {
+    powerUp.x -= powerUp.speed * dt;
+  }
+  updateEffects(state, dt, powerUpContext);
+  state.powerUps = state.powerUps.filter(
+    powerUp => powerUp.x + powerUp.width > 0
+  );
+
+  let hitCount = 0;
+  const survivors: Shot[] = [];
+  const destroyedEnemies: Enemy[] = [];
+
+  const enemyHash = createSpatialHash<{ enemy: Enemy; shape: WorldShape }>(
+    BROADPHASE_CELL_SIZE
+  );
+  for (const enemy of state.enemies) {
+    const shape = resolveHitbox(enemy, ENEMY_HITBOXES[enemy.kind]);
+    enemyHash.insert({ enemy, shape }, shapeBounds(shape));
+  }
+
+  const bulletHash = createSpatialHash<{
+    bullet: EnemyBullet;
+    shape: WorldShape;
+  }>(BROADPHASE_CELL_SIZE);
+  if (SHOTS_DESTROY_BULLETS) {
+    for (const bullet of state.enemyBullets) {
+      const shape = resolveHitbox(bullet, ENEMY_BULLET_HITBOX);
+      bulletHash.insert({ bullet, shape }, shapeBounds(shape));
+    }
+  }
+  const poppedBullets = new Set<number>();
+
+  for (const shot of state.shots) {
+    let collided = false;
+    const shotShape = resolveHitbox(shot, SHOT_HITBOX);
+    for (const { enemy, shape } of enemyHash.query(shapeBounds(shotShape))) {
+      if (enemy.hp <= 0 || shot.hitIds.includes(enemy.id)) {
+        continue;
+      }
+      if (shapesIntersect(shotShape, shape)) {
+        enemy.hp -= 1;
+        hitCount += 1;
+        events.push({
+          type: "shotImpact",
+          x: shot.x + shot.width,
+          y: shot.y + shot.height / 2,
+        });
+        if (enemy.hp <= 0) {
+          destroyedEnemies.push(enemy);
+        } else {
+          enemy.hitFlashUntil = nowMs + ENEMY_HIT_FLASH_MS;
+        }
+        if (!shot.piercing) {
+          collided = true;
+          break;
+        }
+        shot.hitIds = [...shot.hitIds, enemy.id];
+      }
+    }
+    if (!collided && shootBoss(state, shot, shotShape, events)) {
+      collided = true;
+    }
+    if (!collided) {
+      for (const { bullet, shape } of bulletHash.query(
+        shapeBounds(shotShape)
+      )) {
+        if (
+          !poppedBullets.has(bullet.id) &&
+          shapesIntersect(shotShape, shape)
+        ) {
+          poppedBullets.add(bullet.id);
+          collided = true;
+          events.push({ type: "bulletDestroyed" });
+          break;
+        }
+      }
+    }
+    if (!collided) {
+      survivors.push(shot);
+    }
+  }
+
+  state.shots = survivors;
+  if (poppedBullets.size > 0) {
+    state.enemyBullets = state.enemyBullets.filter(
+      bullet => !poppedBullets.has(bullet.id)
+    );
+  }
+
+  if (hitCount > 0) {
+    events.push({ type: "enemyHit", count: hitCount });
+  }
+
+  state.enemies = state.enemies.filter(enemy => enemy.hp > 0);
+
+  for (const enemy of destroyedEnemies) {
+    registerKill(state);
+    events.push({
+      type: "enemyDestroyed",
+      kind: enemy.kind,
+      x: enemy.x + enemy.width / 2,
+      y: enemy.y + enemy.height / 2,
+    });
+
+    const comboTier = Math.min(3, Math.floor(state.combo / 4));
+    const dropChance =
+      state.difficulty.powerUpDropBase + comboTier * POWERUP_DROP_COMBO_BONUS;
+    if (state.powerUps.length < 3 && rng.next() < dropChance) {
+      const kind = pickPowerUpKind(rng);
+      state.powerUps.push(
+        createPowerUp(
+          state,
+          rng,
+          kind,
+          enemy.x + enemy.width / 2,
+          enemy.y + enemy.height / 2
+        )
+      );
+    }
+
+    if (enemy.kind === "splitter") {
+      state.enemies.push(createShard(state, enemy, -14));
+      state.enemies.push(createShard(state, enemy, 14));
+    }
+  }
+
+  if (state.boss && state.boss.hp <= 0) {
+    bumpCombo(state);
+    defeatBoss(state, rng, events);
+  }
+
+  if (!state.boss && state.score >= state.nextBossAt) {
+    state.boss = createBoss(state);
+    events.push({ type: "bossSpawned" });
+  }
+
+  // Both toasters upgrade together; they only differ in shots in flight.
+  while (
+    state.score >= state.nextShotUpgrade &&
+    state.players[0]!.maxShots < MAX_SHOTS_CAP
+  ) {
+    for (const player of state.players) {
+      player.maxShots += 1;
+    }
+    state.nextShotUpgrade += 15;
+    events.push({
+      type: "upgradeUnlocked",
+      maxShots: state.players[0]!.maxShots,
+    });
+  }
+
+  // Toaster shots never test against players, so friendly fire passes
+  // straight through the other toaster.
+  const playerShapes = state.players.map(player =>
+    resolveHitbox(player, PLAYER_HITBOX)
+  );
+
+  state.players.forEach((player, index) => {
+    const playerShape = playerShapes[index]!;
+    if (nowMs >= player.invulnerableUntil) {
+      let collided = false;
+      const survivorsAfterPlayer: Enemy[] = [];
+      for (const enemy of state.enemies) {
+        if (
+          !collided &&
+          shapesIntersect(
+            playerShape,
+            resolveHitbox(enemy, ENEMY_HITBOXES[enemy.kind])
+          )
+        ) {
+          collided = true;
+          hurtPlayer(state, index, events);
+        } else {
+          survivorsAfterPlayer.push(enemy);
+        }
+      }
+      if (collided) {
+        state.enemies = survivorsAfterPlayer;
+      } else if (
+        state.boss &&
+        shapesIntersect(playerShape, bossHullShape(state.boss))
+      ) {
+        hurtPlayer(state, index, events);
+      }
+    }
+
+    // Bullets follow the same rules as contact damage: the shield soaks them
+    // first and they pass harmlessly through a blinking, invulnerable player.
+    if (nowMs >= player.invulnerableUntil) {
+      const hitIndex = state.enemyBullets.findIndex(bullet =>
+        shapesIntersect(playerShape, resolveHitbox(bullet, ENEMY_BULLET_HITBOX))
+      );
+      if (hitIndex >= 0) {
+        state.enemyBullets.splice(hitIndex, 1);
+        hurtPlayer(state, index, events);
+      }
+    }
+  });
+
+  const remainingPowerUps: PowerUp[] = [];
+  for (const powerUp of state.powerUps) {
+    const orbShape = resolveHitbox(powerUp, POWERUP_HITBOX);
+    const collector = state.players.find((_player, index) =>
+      shapesIntersect(playerShapes[index]!, orbShape)
+    );
+    if (collector) {
+      collectPowerUp(state, powerUp.kind, powerUpContext, collector);
+    } else {
+      remainingPowerUps.push(powerUp);
+    }
+  }
+  state.powerUps = remainingPowerUps;
+
+  if (state.combo > 0 && nowMs > state.comboExpiresAt) {
+    state.combo = 0;
+  }
+  if (state.combo !== previous.combo) {
+    events.push({ type: "comboChanged", combo: state.combo });
+  }
+
+  state.outcome = runOutcome(state);
+  if (state.outcome) {
+    events.push({
+      type: "gameOver",
+      score: runScore(state),
+      outcome: state.outcome,
+    });
+  }
+
+  return { state, events };
+};
@@ -0,0 +1,61 @@
+import type { Rect } from "./types";
+
+export type SpatialHash<T> = {
+  insert: (item: T, bounds: Rect) => void;
+  query: (bounds: Rect) => T[];
+};
+
+// Cells are keyed by a single number; the offset keeps negative cells (things
+// drifting past the left edge) from colliding with positive ones.
+const CELL_OFFSET = 1 << 10;
+const cellKey = (cx: number, cy: number) =>
+  (cx + CELL_OFFSET) * (CELL_OFFSET * 2) + (cy + CELL_OFFSET);
+
+/**
+ * Uniform-grid broadphase. Items are bucketed by every cell their bounds
+ * touch; `query` returns each candidate once, in insertion order, so callers
+ * that care about priority (first enemy in the list wins) keep that order.
+ */
+export const createSpatialHash = <T>(cellSize: number): SpatialHash<T> => {
+  const cells = new Map<number, number[]>();
+  const items: T[] = [];
+
+  const forEachCell = (bounds: Rect, visit: (key: number) => void) => {
+    const minX = Math.floor(bounds.x / cellSize);
+    const minY = Math.floor(bounds.y / cellSize);
+    const maxX = Math.floor((bounds.x + bounds.width) / cellSize);
+    const maxY = Math.floor((bounds.y + bounds.height) / cellSize);
+    for (let cx = minX; cx <= maxX; cx += 1) {
+      for (let cy = minY; cy <= maxY; cy += 1) {
+        visit(cellKey(cx, cy));
+      }
+    }
+  };
+
+  return {
+    insert: (item, bounds) => {
+      const index = items.length;
+      items.push(item);
+      forEachCell(bounds, key => {
+        const bucket = cells.get(key);
+        if (bucket) {
+          bucket.push(index);
+        } else {
+          cells.set(key, [index]);
+        }
+      });
+    },
+    query: bounds => {
+      const found = new Set<number>();
+      forEachCell(bounds, key => {
+        const bucket = cells.get(key);
+        if (bucket) {
+          for (const index of bucket) {
+            found.add(index);
+          }
+        }
+      });
+      return [...found].sort((a, b) => a - b).map(index => items[index]!);
+    },
+  };
+};
@@ -0,0 +1,178 @@
+import type { Difficulty } from "./difficulty";
+import type { PlayModeId, RunOutcome } from "./modes";
+import type { LevelProgress } from "./waves";
+
+export type Rect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type Player = Rect & {
+  speed: number;
+  maxShots: number;
+  lastShotMs: number;
+  invulnerableUntil: number;
+  shield: number;
+};
+
+// Stable per-run identifier, used to match entities across ticks.
+export type Entity = Rect & {
+  id: number;
+};
+
+export type Shot = Entity & {
+  velocityX: number;
+  velocityY: number;
+  // Piercing shots keep flying after a hit and damage each enemy once.
+  piercing: boolean;
+  // Replaced rather than pushed to, so earlier ticks keep their own copy.
+  hitIds: number[];
+  // Index in `players` of the toaster that fired it; ammo is counted per
+  // owner.
+  owner: number;
+};
+
+export type EnemyKind =
+  | "drifter"
+  | "zigzag"
+  | "armored"
+  | "splitter"
+  | "shard"
+  | "gunner";
+
+export type FirePattern = "none" | "aimed" | "spread";
+
+export type Enemy = Entity & {
+  speed: number;
+  kind: EnemyKind;
+  hp: number;
+  baseY: number;
+  waveAmplitude: number;
+  waveFrequency: number;
+  wavePhase: number;
+  sizeScale: number;
+  firePattern: FirePattern;
+  nextFireAt: number;
+  // Set when a hit leaves it standing; only armored enemies survive one.
+  hitFlashUntil: number;
+};
+
+export type EnemyBullet = Entity & {
+  velocityX: number;
+  velocityY: number;
+};
+
+export type BossPhase = 1 | 2 | 3;
+
+export type Boss = Entity & {
+  hp: number;
+  maxHp: number;
+  phase: BossPhase;
+  entering: boolean;
+  // Drives the vertical sweep; accumulated so speed changes stay smooth.
+  sweepAngle: number;
+  // Resting spot once the entrance is over; charges lunge left from here.
+  homeX: number;
+  nextAttackAt: number;
+  chargeStartedAt: number | null;
+  nextChargeAt: number;
+  hitFlashUntil: number;
+};
+
+// Behavior for each kind lives in the POWERUPS registry (powerUps.ts).
+export type PowerUpKind =
+  | "boost"
+  | "burst"
+  | "shield"
+  | "slow"
+  | "magnet"
+  | "pierce"
+  | "nova"
+  | "life";
+
+export type PowerUp = Entity & {
+  speed: number;
+  kind: PowerUpKind;
+};
+
+export type GameState = {
+  // Simulated time in ms since the run started. Every *Until/*At field is
+  // measured on this clock, never on performance.now().
+  timeMs: number;
+  nextId: number;
+  // Balance values for this run; fixed once the run starts.
+  difficulty: Difficulty;
+  mode: PlayModeId;
+  // Set on the tick the run ends; stepGame is a no-op from then on.
+  outcome: RunOutcome | null;
+  score: number;
+  lives: number;
+  lastSpawnMs: number;
+  nextShotUpgrade: number;
+  combo: number;
+  comboExpiresAt: number;
+  // Longest combo reached this run, reported with leaderboard submissions.
+  maxCombo: number;
+  // Expiry time of each timed power-up currently running.
+  effects: Partial<Record<PowerUpKind, number>>;
+  // Score at which the next boss shows up, and how many went down so far.
+  nextBossAt: number;
+  bossesDefeated: number;
+  boss: Boss | null;
+  // Scripted level being played, or null for the endless generator.
+  level: LevelProgress | null;
+  // One toaster, or two in local co-op. Both share `lives`.
+  players: Player[];
+  shots: Shot[];
+  enemies: Enemy[];
+  enemyBullets: EnemyBullet[];
+  powerUps: PowerUp[];
+};
+
+export type Controls = {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  shoot: boolean;
+};
+
+// Events that carry `x` and `y` give the center of where it happened, so
+// effects can be placed without looking the entity up again.
+export type GameEvent =
+  | { type: "shotFired" }
+  | { type: "enemyHit"; count: number }
+  // One per toast that connects with an enemy, at its leading edge.
+  | { type: "shotImpact"; x: number; y: number }
+  | { type: "enemyDestroyed"; kind: EnemyKind; x: number; y: number }
+  | { type: "enemyEscaped"; count: number }
+  | { type: "enemyFired"; pattern: FirePattern }
+  | { type: "bulletDestroyed" }
+  // `player` is the toaster's index; `shielded` when the shield took the hit.
+  | {
+      type: "playerHit";
+      player: number;
+      shielded: boolean;
+      x: number;
+      y: number;
+    }
+  | { type: "powerUpCollected"; kind: PowerUpKind; x: number; y: number }
+  | { type: "powerUpExpired"; kind: PowerUpKind }
+  | { type: "novaDetonated"; cleared: number }
+  // Sent once per step with the combo as it stands at the end of it.
+  | { type: "comboChanged"; combo: number }
+  | { type: "upgradeUnlocked"; maxShots: number }
+  | { type: "bossSpawned" }
+  | { type: "bossHit"; weakPoint: string }
+  | { type: "bossDeflected" }
+  | { type: "bossPhaseChanged"; phase: BossPhase }
+  | { type: "bossDefeated"; bonus: number; x: number; y: number }
+  // `score` is the mode's score (kills or seconds survived).
+  | { type: "gameOver"; score: number; outcome: RunOutcome };
+
+export type StepResult = {
+  state: GameState;
+  events: GameEvent[];
+};
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+
+import orion from "./levels/orion.json";
+import { parseLevel, validateLevel } from "./waves";
+
+const level = () => structuredClone(orion) as Record<string, unknown>;
+
+const errorsFor = (data: unknown) => {
+  const result = validateLevel(data);
+  if (result.ok) {
+    throw new Error("expected the level to be rejected");
+  }
+  return result.errors;
+};
+
+describe("validateLevel", () => {
+  test("accepts a built-in level and sorts its groups", () => {
+    const result = validateLevel(level());
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.level.id).toBe("orion");
+      for (const wave of result.level.waves) {
+        const times = wave.groups.map(group => group.at);
+        expect(times).toEqual([...times].sort((a, b) => a - b));
+      }
+    }
+  });
+
+  test("rejects something that is not an object", () => {
+    expect(errorsFor(null)).toEqual(["level: expected a JSON object."]);
+    expect(errorsFor([])).toEqual(["level: expected a JSON object."]);
+  });
+
+  test("reports each problem with its path", () => {
+    const errors = errorsFor({ ...level(), version: 2, id: "", waves: [] });
+    expect(errors).toContain("version: expected 1, got 2.");
+    expect(errors.some(error => error.startsWith("id:"))).toBe(true);
+    expect(errors).toContain("waves: expected a non-empty list of waves.");
+  });
+
+  test("points into the wave and group that is wrong", () => {
+    const data = level();
+    const waves = data.waves as { groups: Record<string, unknown>[] }[];
+    waves[1]!.groups[0]!.formation = "spiral";
+    waves[2]!.groups[1]!.count = 0;
+    const errors = errorsFor(data);
+    expect(
+      errors.some(e => e.startsWith("waves[1].groups[0].formation:"))
+    ).toBe(true);
+    expect(errors.some(e => e.startsWith("waves[2].groups[1].count:"))).toBe(
+      true
+    );
+  });
+});
+
+describe("parseLevel", () => {
+  test("throws with every problem listed", () => {
+    expect(() => parseLevel({ ...level(), version: 0 })).toThrow(
+      "Invalid level:\nversion: expected 1, got 0."
+    );
+  });
+});
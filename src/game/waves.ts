@@ -0,0 +1,376 @@
+import { HEIGHT, WIDTH } from "./constants";
+import { createEnemy } from "./entities";
+import type { Rng } from "./rng";
+import type { EnemyKind, GameState } from "./types";
+
+export const LEVEL_VERSION = 1;
+
+export type Formation = "single" | "line" | "column" | "v";
+
+export type SpawnGroup = {
+  // Milliseconds after the wave starts.
+  at: number;
+  kind: EnemyKind;
+  count: number;
+  formation: Formation;
+  // Vertical center of the formation as a fraction of the field height, or
+  // "random" for a fresh lane per group.
+  entryY: number | "random";
+  // Distance between members in pixels.
+  spacing: number;
+  speedMultiplier: number;
+  // Overrides the zigzag sine wave; amplitude in px, frequency in rad/ms.
+  wave?: { amplitude: number; frequency: number };
+};
+
+export type Wave = {
+  name?: string;
+  // Pause before the first group of this wave.
+  delayMs: number;
+  // Hold the next wave until every enemy of this one is gone.
+  clearBeforeNext: boolean;
+  groups: SpawnGroup[];
+};
+
+export type Level = {
+  version: typeof LEVEL_VERSION;
+  id: string;
+  name: string;
+  // What happens after the last wave: hand over to the endless generator, or
+  // start over with everything a bit faster.
+  then: "endless" | "loop";
+  waves: Wave[];
+};
+
+export type LevelProgress = {
+  level: Level;
+  waveIndex: number;
+  // Time spent in the current wave; frozen while a boss is on screen.
+  waveClockMs: number;
+  groupsSpawned: number;
+  loops: number;
+};
+
+const ENEMY_KINDS: EnemyKind[] = [
+  "drifter",
+  "zigzag",
+  "armored",
+  "splitter",
+  "shard",
+  "gunner",
+];
+const FORMATIONS: Formation[] = ["single", "line", "column", "v"];
+const LOOP_SPEEDUP = 0.1;
+
+type Issues = string[];
+
+const describe = (value: unknown) =>
+  value === undefined ? "nothing" : JSON.stringify(value);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const readNumber = (
+  issues: Issues,
+  path: string,
+  value: unknown,
+  options: { min?: number; max?: number; integer?: boolean; fallback?: number }
+) => {
+  if (value === undefined && options.fallback !== undefined) {
+    return options.fallback;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push(`${path}: expected a number, got ${describe(value)}.`);
+    return options.fallback ?? 0;
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    issues.push(`${path}: expected a whole number, got ${value}.`);
+  }
+  if (options.min !== undefined && value < options.min) {
+    issues.push(`${path}: must be at least ${options.min}, got ${value}.`);
+  }
+  if (options.max !== undefined && value > options.max) {
+    issues.push(`${path}: must be at most ${options.max}, got ${value}.`);
+  }
+  return value;
+};
+
+const readChoice = <T extends string>(
+  issues: Issues,
+  path: string,
+  value: unknown,
+  choices: readonly T[],
+  fallback?: T
+): T => {
+  if (value === undefined && fallback !== undefined) {
+    return fallback;
+  }
+  if (typeof value !== "string" || !choices.includes(value as T)) {
+    issues.push(
+      `${path}: expected one of ${choices.join(", ")}, got ${describe(value)}.`
+    );
+    return fallback ?? choices[0]!;
+  }
+  return value as T;
+};
+
+const readGroup = (issues: Issues, path: string, raw: unknown): SpawnGroup => {
+  if (!isObject(raw)) {
+    issues.push(`${path}: expected an object, got ${describe(raw)}.`);
+    raw = {};
+  }
+  const data = raw as Record<string, unknown>;
+  let entryY: number | "random" = "random";
+  if (data.entryY !== undefined && data.entryY !== "random") {
+    entryY = readNumber(issues, `${path}.entryY`, data.entryY, {
+      min: 0,
+      max: 1,
+    });
+  }
+  let wave: SpawnGroup["wave"];
+  if (data.wave !== undefined) {
+    if (!isObject(data.wave)) {
+      issues.push(`${path}.wave: expected an object, got ${describe(data.wave)}.`);
+    } else {
+      wave = {
+        amplitude: readNumber(issues, `${path}.wave.amplitude`, data.wave.amplitude, {
+          min: 0,
+          max: HEIGHT / 2,
+        }),
+        frequency: readNumber(issues, `${path}.wave.frequency`, data.wave.frequency, {
+          min: 0,
+          max: 0.05,
+        }),
+      };
+    }
+  }
+  return {
+    at: readNumber(issues, `${path}.at`, data.at, { min: 0, fallback: 0 }),
+    kind: readChoice(issues, `${path}.kind`, data.kind, ENEMY_KINDS),
+    count: readNumber(issues, `${path}.count`, data.count, {
+      min: 1,
+      max: 24,
+      integer: true,
+      fallback: 1,
+    }),
+    formation: readChoice(
+      issues,
+      `${path}.formation`,
+      data.formation,
+      FORMATIONS,
+      "single"
+    ),
+    entryY,
+    spacing: readNumber(issues, `${path}.spacing`, data.spacing, {
+      min: 0,
+      max: WIDTH,
+      fallback: 70,
+    }),
+    speedMultiplier: readNumber(
+      issues,
+      `${path}.speedMultiplier`,
+      data.speedMultiplier,
+      { min: 0.1, max: 5, fallback: 1 }
+    ),
+    wave,
+  };
+};
+
+const readWave = (issues: Issues, path: string, raw: unknown): Wave => {
+  if (!isObject(raw)) {
+    issues.push(`${path}: expected an object, got ${describe(raw)}.`);
+    return { delayMs: 0, clearBeforeNext: true, groups: [] };
+  }
+  if (raw.name !== undefined && typeof raw.name !== "string") {
+    issues.push(`${path}.name: expected a string, got ${describe(raw.name)}.`);
+  }
+  if (
+    raw.clearBeforeNext !== undefined &&
+    typeof raw.clearBeforeNext !== "boolean"
+  ) {
+    issues.push(
+      `${path}.clearBeforeNext: expected true or false, got ${describe(raw.clearBeforeNext)}.`
+    );
+  }
+  if (!Array.isArray(raw.groups) || raw.groups.length === 0) {
+    issues.push(`${path}.groups: expected a non-empty list of spawn groups.`);
+  }
+  const groups = (Array.isArray(raw.groups) ? raw.groups : []).map(
+    (group, index) => readGroup(issues, `${path}.groups[${index}]`, group)
+  );
+  return {
+    name: typeof raw.name === "string" ? raw.name : undefined,
+    delayMs: readNumber(issues, `${path}.delayMs`, raw.delayMs, {
+      min: 0,
+      fallback: 0,
+    }),
+    clearBeforeNext: raw.clearBeforeNext !== false,
+    // The spawner walks groups in time order; authors may list them freely.
+    groups: groups.sort((a, b) => a.at - b.at),
+  };
+};
+
+export type LevelValidation =
+  | { ok: true; level: Level }
+  | { ok: false; errors: string[] };
+
+/**
+ * Checks an authored level (parsed JSON or a TS object) and fills in the
+ * optional fields. Every problem is reported with its path, e.g.
+ * `waves[1].groups[0].formation: expected one of single, line, column, v`.
+ */
+export const validateLevel = (data: unknown): LevelValidation => {
+  const issues: Issues = [];
+  if (!isObject(data)) {
+    return { ok: false, errors: ["level: expected a JSON object."] };
+  }
+  if (data.version !== LEVEL_VERSION) {
+    issues.push(
+      `version: expected ${LEVEL_VERSION}, got ${describe(data.version)}.`
+    );
+  }
+  if (typeof data.id !== "string" || data.id.length === 0) {
+    issues.push(`id: expected a non-empty string, got ${describe(data.id)}.`);
+  }
+  if (typeof data.name !== "string" || data.name.length === 0) {
+    issues.push(`name: expected a non-empty string, got ${describe(data.name)}.`);
+  }
+  const then = readChoice(
+    issues,
+    "then",
+    data.then,
+    ["endless", "loop"] as const,
+    "endless"
+  );
+  if (!Array.isArray(data.waves) || data.waves.length === 0) {
+    issues.push("waves: expected a non-empty list of waves.");
+  }
+  const waves = (Array.isArray(data.waves) ? data.waves : []).map(
+    (wave, index) => readWave(issues, `waves[${index}]`, wave)
+  );
+  if (issues.length > 0) {
+    return { ok: false, errors: issues };
+  }
+  return {
+    ok: true,
+    level: {
+      version: LEVEL_VERSION,
+      id: data.id as string,
+      name: data.name as string,
+      then,
+      waves,
+    },
+  };
+};
+
+export const parseLevel = (data: unknown): Level => {
+  const result = validateLevel(data);
+  if (!result.ok) {
+    throw new Error(`Invalid level:\n${result.errors.join("\n")}`);
+  }
+  return result.level;
+};
+
+export const createLevelProgress = (level: Level): LevelProgress => ({
+  level,
+  waveIndex: 0,
+  waveClockMs: 0,
+  groupsSpawned: 0,
+  loops: 0,
+});
+
+export const isLevelFinished = (progress: LevelProgress) =>
+  progress.waveIndex >= progress.level.waves.length;
+
+const formationSlots = (group: SpawnGroup) => {
+  const slots: { dx: number; dy: number }[] = [];
+  for (let i = 0; i < group.count; i += 1) {
+    switch (group.formation) {
+      // "single" only differs from "line" in intent: one ship, or a stream
+      // of them on the same lane.
+      case "single":
+      case "line":
+        slots.push({ dx: i * group.spacing, dy: 0 });
+        break;
+      case "column":
+        slots.push({ dx: 0, dy: (i - (group.count - 1) / 2) * group.spacing });
+        break;
+      case "v": {
+        // Leader in front, the rest trailing back in two arms.
+        const rank = Math.ceil(i / 2);
+        const side = i % 2 === 0 ? 1 : -1;
+        slots.push({
+          dx: rank * group.spacing,
+          dy: rank === 0 ? 0 : side * rank * group.spacing * 0.8,
+        });
+        break;
+      }
+    }
+  }
+  return slots;
+};
+
+const spawnGroup = (
+  state: GameState,
+  rng: Rng,
+  group: SpawnGroup,
+  speedScale: number
+) => {
+  const centerY =
+    group.entryY === "random"
+      ? 60 + rng.next() * (HEIGHT - 120)
+      : group.entryY * HEIGHT;
+  for (const slot of formationSlots(group)) {
+    state.enemies.push(
+      createEnemy(state, rng, group.kind, {
+        x: WIDTH + 10 + slot.dx,
+        centerY: centerY + slot.dy,
+        speedScale: group.speedMultiplier * speedScale,
+        wave: group.wave,
+      })
+    );
+  }
+};
+
+/**
+ * Advances a scripted level by one tick. Returns false once the script is
+ * exhausted and the endless generator should take over.
+ */
+export const updateLevel = (
+  state: GameState,
+  progress: LevelProgress,
+  rng: Rng,
+  dt: number
+) => {
+  if (isLevelFinished(progress)) {
+    return false;
+  }
+  if (state.boss) {
+    return true;
+  }
+  const wave = progress.level.waves[progress.waveIndex]!;
+  progress.waveClockMs += dt * 1000;
+  const speedScale = 1 + progress.loops * LOOP_SPEEDUP;
+
+  while (progress.groupsSpawned < wave.groups.length) {
+    const group = wave.groups[progress.groupsSpawned]!;
+    if (progress.waveClockMs < wave.delayMs + group.at) {
+      break;
+    }
+    spawnGroup(state, rng, group, speedScale);
+    progress.groupsSpawned += 1;
+  }
+
+  const allSpawned = progress.groupsSpawned >= wave.groups.length;
+  if (allSpawned && (!wave.clearBeforeNext || state.enemies.length === 0)) {
+    progress.waveIndex += 1;
+    progress.waveClockMs = 0;
+    progress.groupsSpawned = 0;
+    if (isLevelFinished(progress) && progress.level.then === "loop") {
+      progress.waveIndex = 0;
+      progress.loops += 1;
+    }
+  }
+  state.lastSpawnMs = state.timeMs;
+  return !isLevelFinished(progress);
+};
@@ -0,0 +1,357 @@
+import { HEIGHT, WIDTH } from "./game/constants";
+import { BOSS_WEAK_POINTS, isWeakPointOpen, weakPointShape } from "./game/boss";
+import { POWERUPS, isEffectActive } from "./game/powerUps";
+import { HUD_FONT, hudItems } from "./hud";
+import type { GameView, GhostView, Renderer, SceneAssets } from "./renderer";
+import { drawSprite } from "./sprites";
+import { createStarfield } from "./starfield";
+import type { Boss, Enemy, EnemyBullet, Player, PowerUp } from "./game/types";
+
+const GHOST_ALPHA = 0.35;
+
+/**
+ * The Canvas 2D renderer: paints each frame with immediate-mode calls on the
+ * canvas's 2D context. Works everywhere, and is what the game falls back to
+ * when WebGL is unavailable.
+ */
+export const createCanvasRenderer = (
+  canvas: HTMLCanvasElement,
+  assets: SceneAssets
+): Renderer => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Canvas 2D is not available on this canvas");
+  }
+  const scrollStarfield = createStarfield(assets.background);
+
+  const drawHud = (state: GameView, ghost: GhostView | null) => {
+    ctx.save();
+    ctx.font = HUD_FONT;
+    ctx.textBaseline = "top";
+    ctx.lineWidth = 1;
+    for (const item of hudItems(state, ghost)) {
+      if (item.type === "text") {
+        ctx.textAlign = item.align;
+        ctx.fillStyle = item.color;
+        ctx.fillText(item.text, item.x, item.y);
+        continue;
+      }
+      if (item.fill) {
+        ctx.fillStyle = item.fill;
+        ctx.fillRect(item.x, item.y, item.width, item.height);
+      }
+      if (item.stroke) {
+        ctx.strokeStyle = item.stroke;
+        ctx.strokeRect(item.x, item.y, item.width, item.height);
+      }
+    }
+    ctx.restore();
+  };
+
+  const drawBoss = (boss: Boss, nowMs: number) => {
+    ctx.save();
+    // The mothership holds still; only its weak points move.
+    drawSprite(ctx, assets.enemy, 0, boss.x, boss.y, boss.width, boss.height);
+    if (nowMs < boss.hitFlashUntil) {
+      ctx.fillStyle = "rgba(255, 255, 255, 0.35)";
+      ctx.beginPath();
+      ctx.ellipse(
+        boss.x + boss.width / 2,
+        boss.y + boss.height / 2,
+        boss.width * 0.46,
+        boss.height * 0.46,
+        0,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    }
+    for (const weakPoint of BOSS_WEAK_POINTS) {
+      const shape = weakPointShape(boss, weakPoint);
+      if (shape.type !== "circle") {
+        continue;
+      }
+      const open = isWeakPointOpen(boss, weakPoint);
+      ctx.fillStyle = open
+        ? "rgba(88, 211, 192, 0.75)"
+        : "rgba(120, 120, 130, 0.55)";
+      ctx.strokeStyle = open ? "#58d3c0" : "rgba(247, 241, 230, 0.3)";
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(shape.x, shape.y, shape.radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      if (open) {
+        // Show the cone of angles that actually deal damage.
+        const heading = Math.atan2(weakPoint.facingY, weakPoint.facingX);
+        const arc = (weakPoint.arcDegrees * Math.PI) / 180;
+        ctx.fillStyle = "rgba(88, 211, 192, 0.16)";
+        ctx.beginPath();
+        ctx.moveTo(shape.x, shape.y);
+        ctx.arc(
+          shape.x,
+          shape.y,
+          shape.radius * 3,
+          heading - arc,
+          heading + arc
+        );
+        ctx.closePath();
+        ctx.fill();
+      }
+    }
+    ctx.restore();
+  };
+
+  const drawPowerUp = (powerUp: PowerUp) => {
+    const style = POWERUPS[powerUp.kind].style;
+    const centerX = powerUp.x + powerUp.width / 2;
+    const centerY = powerUp.y + powerUp.height / 2;
+    const radius = powerUp.width / 2;
+
+    ctx.save();
+    ctx.fillStyle = style.fill;
+    ctx.strokeStyle = style.stroke;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = "#0f1119";
+    ctx.font = 'bold 14px "JetBrains Mono", "Space Grotesk", sans-serif';
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(style.label, centerX, centerY + 1);
+    ctx.restore();
+  };
+
+  const drawEnemy = (enemy: Enemy, nowMs: number) => {
+    ctx.save();
+    if (enemy.kind === "shard") {
+      ctx.globalAlpha = 0.7;
+    }
+    drawSprite(
+      ctx,
+      assets.enemy,
+      nowMs,
+      enemy.x,
+      enemy.y,
+      enemy.width,
+      enemy.height,
+      enemy.id
+    );
+    if (nowMs < enemy.hitFlashUntil) {
+      ctx.fillStyle = "rgba(255, 255, 255, 0.45)";
+      ctx.beginPath();
+      ctx.ellipse(
+        enemy.x + enemy.width / 2,
+        enemy.y + enemy.height / 2,
+        enemy.width * 0.46,
+        enemy.height * 0.46,
+        0,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    }
+    if (enemy.kind === "armored") {
+      // A cracked, dashed plate once the first hit landed.
+      const damaged = enemy.hp <= 1;
+      ctx.strokeStyle = damaged
+        ? "rgba(244, 195, 122, 0.45)"
+        : "rgba(244, 195, 122, 0.9)";
+      ctx.lineWidth = 3;
+      if (damaged) {
+        ctx.setLineDash([6, 5]);
+      }
+      ctx.strokeRect(
+        enemy.x + 2,
+        enemy.y + 2,
+        enemy.width - 4,
+        enemy.height - 4
+      );
+      ctx.setLineDash([]);
+    }
+    if (enemy.kind === "zigzag") {
+      ctx.strokeStyle = "rgba(88, 211, 192, 0.7)";
+      ctx.lineWidth = 2;
+      ctx.strokeRect(
+        enemy.x + 6,
+        enemy.y + 6,
+        enemy.width - 12,
+        enemy.height - 12
+      );
+    }
+    if (enemy.kind === "splitter") {
+      ctx.strokeStyle = "rgba(226, 93, 111, 0.8)";
+      ctx.lineWidth = 2;
+      ctx.strokeRect(
+        enemy.x + 4,
+        enemy.y + 4,
+        enemy.width - 8,
+        enemy.height - 8
+      );
+    }
+    if (enemy.kind === "gunner") {
+      const centerY = enemy.y + enemy.height / 2;
+      ctx.fillStyle = "#3a2f3f";
+      ctx.strokeStyle = "rgba(226, 93, 111, 0.9)";
+      ctx.lineWidth = 2;
+      ctx.fillRect(enemy.x - 10, centerY - 5, 22, 10);
+      ctx.strokeRect(enemy.x - 10, centerY - 5, 22, 10);
+      ctx.beginPath();
+      ctx.arc(
+        enemy.x + enemy.width / 2,
+        centerY,
+        Math.min(enemy.width, enemy.height) * 0.44,
+        0,
+        Math.PI * 2
+      );
+      ctx.stroke();
+    }
+    ctx.restore();
+  };
+
+  const drawEnemyBullet = (bullet: EnemyBullet) => {
+    const centerX = bullet.x + bullet.width / 2;
+    const centerY = bullet.y + bullet.height / 2;
+    ctx.save();
+    ctx.fillStyle = "rgba(226, 93, 111, 0.35)";
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, bullet.width, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = "#ffb3a1";
+    ctx.strokeStyle = "#e25d6f";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, bullet.width / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const drawToaster = (player: Player, index: number, nowMs: number) => {
+    if (nowMs < player.invulnerableUntil && Math.floor(nowMs / 120) % 2 === 0) {
+      return;
+    }
+    ctx.save();
+    // P2 gets a recolored toaster so the two can be told apart.
+    if (index > 0) {
+      ctx.filter = "hue-rotate(150deg)";
+    }
+    drawSprite(
+      ctx,
+      assets.player,
+      nowMs,
+      player.x,
+      player.y,
+      player.width,
+      player.height,
+      index * 2
+    );
+    ctx.restore();
+    if (player.shield > 0) {
+      ctx.save();
+      ctx.strokeStyle = "rgba(90, 160, 255, 0.7)";
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.ellipse(
+        player.x + player.width / 2,
+        player.y + player.height / 2,
+        player.width * 0.6,
+        player.height * 0.7,
+        0,
+        0,
+        Math.PI * 2
+      );
+      ctx.stroke();
+      ctx.restore();
+    }
+  };
+
+  const draw: Renderer["draw"] = (
+    state,
+    { seed = 0, ghost = null, effects = null } = {}
+  ) => {
+    const nowMs = state.timeMs;
+    // Everything is drawn in logical WIDTH x HEIGHT units, whatever the
+    // backing store's resolution is this frame.
+    ctx.setTransform(
+      ctx.canvas.width / WIDTH,
+      0,
+      0,
+      ctx.canvas.height / HEIGHT,
+      0,
+      0
+    );
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    for (const layer of scrollStarfield(state, seed)) {
+      ctx.drawImage(layer.canvas, -layer.offset, 0);
+      ctx.drawImage(layer.canvas, layer.canvas.width - layer.offset, 0);
+    }
+
+    if (isEffectActive(state, "slow")) {
+      ctx.fillStyle = "rgba(88, 211, 192, 0.08)";
+      ctx.fillRect(0, 0, WIDTH, HEIGHT);
+    }
+
+    drawHud(state, ghost);
+
+    // Shake moves the playfield only; the backdrop and HUD stay put.
+    ctx.save();
+    if (effects) {
+      ctx.translate(effects.shake.x, effects.shake.y);
+    }
+
+    for (const enemy of state.enemies) {
+      drawEnemy(enemy, nowMs);
+    }
+
+    if (state.boss) {
+      drawBoss(state.boss, nowMs);
+    }
+
+    for (const shot of state.shots) {
+      if (shot.piercing) {
+        ctx.save();
+        ctx.shadowColor = "rgba(255, 236, 140, 0.9)";
+        ctx.shadowBlur = 12;
+        ctx.drawImage(assets.shot, shot.x, shot.y, shot.width, shot.height);
+        ctx.restore();
+      } else {
+        ctx.drawImage(assets.shot, shot.x, shot.y, shot.width, shot.height);
+      }
+    }
+
+    for (const bullet of state.enemyBullets) {
+      drawEnemyBullet(bullet);
+    }
+
+    for (const powerUp of state.powerUps) {
+      drawPowerUp(powerUp);
+    }
+
+    // Under the live toasters, so it never hides them. A ghost whose run
+    // already ended has nothing left to show.
+    const ghostPlayer = ghost && !ghost.state.outcome && ghost.state.players[0];
+    if (ghostPlayer) {
+      ctx.save();
+      ctx.globalAlpha = GHOST_ALPHA;
+      drawToaster(ghostPlayer, 0, ghost.state.timeMs);
+      ctx.restore();
+    }
+
+    state.players.forEach((player, index) => {
+      drawToaster(player, index, nowMs);
+    });
+
+    effects?.draw(ctx);
+    ctx.restore();
+  };
+
+  return {
+    kind: "canvas",
+    draw,
+    // Nothing is held besides the context, which goes with the canvas.
+    dispose: () => {},
+  };
+};
@@ -0,0 +1,47 @@
+import type { Controls } from "./game/types";
+
+// Stick travel below this is treated as resting, so worn pads do not drift.
+const STICK_DEADZONE = 0.4;
+
+// Standard Gamepad mapping: A and the right trigger fire, 12-15 are the d-pad.
+const SHOOT_BUTTONS = [0, 7];
+const DPAD = { up: 12, down: 13, left: 14, right: 15 };
+
+const pressed = (pad: Gamepad, index: number) =>
+  pad.buttons[index]?.pressed ?? false;
+
+/**
+ * Controls held on the `index`-th connected pad, or null when there is none.
+ * Pads are counted in connection order, skipping empty slots, so the first
+ * pad plugged in always drives player one.
+ */
+export const readGamepad = (index: number): Controls | null => {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) {
+    return null;
+  }
+  const pad = navigator.getGamepads().filter(Boolean)[index];
+  if (!pad) {
+    return null;
+  }
+  const x = pad.axes[0] ?? 0;
+  const y = pad.axes[1] ?? 0;
+  return {
+    up: y < -STICK_DEADZONE || pressed(pad, DPAD.up),
+    down: y > STICK_DEADZONE || pressed(pad, DPAD.down),
+    left: x < -STICK_DEADZONE || pressed(pad, DPAD.left),
+    right: x > STICK_DEADZONE || pressed(pad, DPAD.right),
+    shoot: SHOOT_BUTTONS.some(button => pressed(pad, button)),
+  };
+};
+
+// Either source counts: a key or a pad button held is enough.
+export const mergeControls = (a: Controls, b: Controls | null): Controls =>
+  b
+    ? {
+        up: a.up || b.up,
+        down: a.down || b.down,
+        left: a.left || b.left,
+        right: a.right || b.right,
+        shoot: a.shoot || b.shoot,
+      }
+    : a;
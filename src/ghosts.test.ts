@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+
+import { presetDifficulty } from "./game/difficulty";
+import { createReplayRecorder, serializeReplay } from "./game/replay";
+import { emptyControls } from "./game/simulation";
+import { fetchBoardGhost, ghostRace } from "./ghosts";
+
+// A ranked Hard run as the server hands it back.
+const rankedReplay = () => {
+  const recorder = createReplayRecorder(777, {
+    difficulty: presetDifficulty("hard"),
+  });
+  recorder.mark("start");
+  for (let tick = 0; tick < 20; tick += 1) {
+    recorder.record([{ ...emptyControls(), shoot: true }]);
+  }
+  return recorder.finish(3);
+};
+
+describe("ghosts from the online board", () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test("a picked entry's replay sets the race's seed and setup", async () => {
+    const replay = rankedReplay();
+    const fetched = spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(serializeReplay(replay))
+    );
+    const ghost = await fetchBoardGhost({ id: 42, name: "Bia" });
+    expect(fetched).toHaveBeenCalledWith("/api/scores/42/replay");
+    expect(ghost.label).toBe("Bia");
+
+    const race = ghostRace(ghost.replay);
+    expect(race.seed).toBe(777);
+    expect(race.setup).toEqual({
+      level: null,
+      difficulty: presetDifficulty("hard"),
+      mode: "endless",
+      coop: false,
+      daily: null,
+    });
+  });
+
+  test("a replay the server cannot find is reported", async () => {
+    spyOn(globalThis, "fetch").mockResolvedValue(
+      Response.json(
+        { error: "No replay stored.", code: "replay-not-found" },
+        { status: 404 }
+      )
+    );
+    await expect(fetchBoardGhost({ id: 7, name: "Caio" })).rejects.toThrow(
+      "Replay nao encontrado no placar."
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import type { DifficultyId } from "./game/difficulty";
+import type { PlayModeId } from "./game/modes";
+import { validateReplay } from "./game/replay";
+import type { Replay, RunSetup } from "./game/replay";
+import { fetchScoreReplay } from "./scoresApi";
+import type { ScoreEntry } from "./server/scoreStore";
+
+export type Ghost = {
+  // Shown in the HUD delta, e.g. "+3 vs PB".
+  label: string;
+  replay: Replay;
+};
+
+export const PERSONAL_BEST_LABEL = "PB";
+
+const BESTS_KEY = "galactic-toast:ghost-bests";
+const PICKED_KEY = "galactic-toast:ghost-picked";
+
+type BestBoard = {
+  difficulty: DifficultyId;
+  mode: PlayModeId;
+  levelId: string | null;
+};
+
+// One personal best per difficulty, mode and level, like the local boards.
+const bestKey = ({ difficulty, mode, levelId }: BestBoard) =>
+  `${mode}:${difficulty}:${levelId ?? "endless"}`;
+
+const readReplay = (data: unknown) => {
+  try {
+    return validateReplay(data);
+  } catch {
+    return null;
+  }
+};
+
+const readBests = (): Record<string, unknown> => {
+  try {
+    const data: unknown = JSON.parse(localStorage.getItem(BESTS_KEY) ?? "{}");
+    return data && typeof data === "object"
+      ? (data as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+export const loadPersonalBest = (board: BestBoard): Ghost | null => {
+  const replay = readReplay(readBests()[bestKey(board)]);
+  return replay && { label: PERSONAL_BEST_LABEL, replay };
+};
+
+/**
+ * Keeps `replay` as the ghost for its board if it beats the stored one.
+ * Co-op runs are skipped: a ghost is a single toaster.
+ */
+export const savePersonalBest = (replay: Replay) => {
+  if (replay.coop) {
+    return false;
+  }
+  const bests = readBests();
+  const key = bestKey({
+    difficulty: replay.difficulty.id,
+    mode: replay.mode ?? "endless",
+    levelId: replay.level?.id ?? null,
+  });
+  const current = readReplay(bests[key]);
+  if (current && current.score >= replay.score) {
+    return false;
+  }
+  bests[key] = replay;
+  try {
+    localStorage.setItem(BESTS_KEY, JSON.stringify(bests));
+  } catch {
+    // Storage full or disabled; racing just falls back to no ghost.
+    return false;
+  }
+  return true;
+};
+
+// A run picked from the online board to race against.
+export const loadPickedGhost = (): Ghost | null => {
+  try {
+    const data = JSON.parse(localStorage.getItem(PICKED_KEY) ?? "null") as {
+      label?: unknown;
+      replay?: unknown;
+    } | null;
+    const replay = readReplay(data?.replay);
+    return replay && typeof data?.label === "string"
+      ? { label: data.label, replay }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const savePickedGhost = (ghost: Ghost) => {
+  try {
+    localStorage.setItem(PICKED_KEY, JSON.stringify(ghost));
+  } catch {
+    // Still usable for this session through the caller's state.
+  }
+};
+
+// A ranked run from the online board, named after whoever played it.
+export const fetchBoardGhost = async (
+  entry: Pick<ScoreEntry, "id" | "name">
+): Promise<Ghost> => ({
+  label: entry.name,
+  replay: await fetchScoreReplay(entry.id),
+});
+
+/**
+ * The seed and rules of a race against `replay`: the ghost's own, whatever
+ * the pickers say, so both toasters meet the same asteroids.
+ */
+export const ghostRace = (
+  replay: Replay
+): { seed: number; setup: Required<RunSetup> } => ({
+  seed: replay.seed,
+  setup: {
+    level: replay.level ?? null,
+    difficulty: replay.difficulty,
+    mode: replay.mode ?? "endless",
+    coop: false,
+    daily: null,
+  },
+});
@@ -0,0 +1,65 @@
+import type { DifficultyId } from "./game/difficulty";
+import type { PlayModeId } from "./game/modes";
+
+export type HighScore = {
+  // Kills, or seconds survived for the time-scored modes.
+  score: number;
+  recordedAt: string;
+  // Scripted level id, or null for the endless mode.
+  levelId: string | null;
+};
+
+const STORAGE_KEY = "galactic-toast:high-scores";
+const MAX_ENTRIES = 5;
+
+type HighScoreTable = Partial<Record<string, HighScore[]>>;
+
+// Endless keeps the plain difficulty key so boards saved before modes existed
+// still load.
+const boardKey = (difficulty: DifficultyId, mode: PlayModeId) =>
+  mode === "endless" ? difficulty : `${mode}:${difficulty}`;
+
+const readTable = (): HighScoreTable => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : {};
+    return data && typeof data === "object" ? (data as HighScoreTable) : {};
+  } catch {
+    // Private mode or a corrupted entry: start over instead of breaking the menu.
+    return {};
+  }
+};
+
+export const loadHighScores = (
+  difficulty: DifficultyId,
+  mode: PlayModeId
+): HighScore[] => {
+  const entries = readTable()[boardKey(difficulty, mode)];
+  return Array.isArray(entries)
+    ? entries.filter(entry => typeof entry?.score === "number")
+    : [];
+};
+
+/**
+ * Records a finished run on its difficulty and mode's board. Returns the
+ * updated board and the 0-based rank of the new entry, or null when it did not
+ * make the cut.
+ */
+export const saveHighScore = (
+  difficulty: DifficultyId,
+  mode: PlayModeId,
+  entry: HighScore
+) => {
+  const table = readTable();
+  const scores = [...loadHighScores(difficulty, mode), entry]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_ENTRIES);
+  const rank = scores.indexOf(entry);
+  table[boardKey(difficulty, mode)] = scores;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(table));
+  } catch {
+    // Storage full or disabled; the board still shows for this session.
+  }
+  return { scores, rank: rank >= 0 ? rank : null };
+};
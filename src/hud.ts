@@ -0,0 +1,145 @@
+import { WIDTH } from "./game/constants";
+import { playModeHud, runScore } from "./game/modes";
+import { POWERUPS, POWERUP_KINDS, isEffectActive } from "./game/powerUps";
+import { ammoFor } from "./game/simulation";
+import type { GameView, GhostView } from "./renderer";
+
+export const HUD_FONT_SIZE = 16;
+export const HUD_FONT = `${HUD_FONT_SIZE}px "JetBrains Mono", "Space Grotesk", sans-serif`;
+
+const HUD_COLUMN_WIDTH = 190;
+const TEXT_COLOR = "#f8f1e7";
+const ACCENT_COLOR = "#f4c37a";
+
+// Text is anchored at its top edge, like `textBaseline = "top"`.
+export type HudItem =
+  | {
+      type: "text";
+      text: string;
+      x: number;
+      y: number;
+      align: CanvasTextAlign;
+      color: string;
+    }
+  | {
+      type: "rect";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      fill?: string;
+      stroke?: string;
+    };
+
+/**
+ * What the HUD shows for `state`, laid out in logical pixels. Every renderer
+ * draws the same list, so the HUD reads the same whichever one is on.
+ */
+export const hudItems = (
+  state: GameView,
+  ghost: GhostView | null
+): HudItem[] => {
+  const items: HudItem[] = [];
+  const text = (
+    value: string,
+    x: number,
+    y: number,
+    align: CanvasTextAlign = "left",
+    color = TEXT_COLOR
+  ) => items.push({ type: "text", text: value, x, y, align, color });
+
+  text(`Mortes: ${state.score}`, 12, 12);
+  text(`Vidas: ${state.lives}`, 12, 32);
+
+  // Ammo and shield are per toaster, one column each.
+  let line = 72;
+  state.players.forEach((player, index) => {
+    const tag = state.players.length > 1 ? `P${index + 1} ` : "";
+    const x = 12 + index * HUD_COLUMN_WIDTH;
+    let row = 52;
+    text(`${tag}Torradas: ${ammoFor(state, index)}`, x, row);
+    if (player.shield > 0) {
+      row += 20;
+      text(`${tag}Escudo: ${player.shield}`, x, row);
+    }
+    line = Math.max(line, row + 20);
+  });
+  if (state.combo > 1) {
+    text(`Combo: x${state.combo}`, 12, line);
+  }
+
+  const modeLine = playModeHud(state);
+  if (modeLine) {
+    text(modeLine, WIDTH / 2, 12, "center", ACCENT_COLOR);
+  }
+
+  const effects = POWERUP_KINDS.filter(kind => isEffectActive(state, kind)).map(
+    kind => POWERUPS[kind].hudName
+  );
+  if (effects.length > 0) {
+    text(
+      `Efeitos: ${effects.join(" / ")}`,
+      WIDTH - 12,
+      12,
+      "right",
+      ACCENT_COLOR
+    );
+  }
+
+  if (ghost) {
+    const delta = runScore(state) - runScore(ghost.state);
+    text(
+      `${delta >= 0 ? "+" : ""}${delta} vs ${ghost.label}`,
+      WIDTH - 12,
+      32,
+      "right",
+      delta >= 0 ? "#58d3c0" : "#e25d6f"
+    );
+  }
+
+  if (state.boss) {
+    const boss = state.boss;
+    const barWidth = 300;
+    const barX = (WIDTH - barWidth) / 2;
+    text(`Nave-mae / Fase ${boss.phase}`, WIDTH / 2, 40, "center");
+    items.push(
+      {
+        type: "rect",
+        x: barX,
+        y: 60,
+        width: barWidth,
+        height: 10,
+        fill: "rgba(15, 17, 25, 0.8)",
+      },
+      {
+        type: "rect",
+        x: barX,
+        y: 60,
+        width: (barWidth * boss.hp) / boss.maxHp,
+        height: 10,
+        fill: "#e25d6f",
+      },
+      {
+        type: "rect",
+        x: barX,
+        y: 60,
+        width: barWidth,
+        height: 10,
+        stroke: "rgba(247, 241, 230, 0.6)",
+      }
+    );
+    // Phase marks.
+    for (const mark of [1 / 3, 2 / 3]) {
+      items.push({
+        type: "rect",
+        x: barX + barWidth * mark - 0.5,
+        y: 60,
+        width: 1,
+        height: 10,
+        fill: "rgba(247, 241, 230, 0.6)",
+      });
+    }
+  }
+
+  return items;
+};
@@ -1,5 +1,17 @@
 import { serve } from "bun";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
 import index from "./index.html";
+import { createBroadcastHub } from "./server/broadcasts";
+import { createBroadcastRoutes } from "./server/broadcastsRoutes";
+import { createRateLimiter } from "./server/rateLimit";
+import { createRoomManager } from "./server/rooms";
+import { createRoomRoutes } from "./server/roomsRoutes";
+import { createScoreStore } from "./server/scoreStore";
+import { createScoreRoutes } from "./server/scoresRoutes";
+import { createVerifyQueue } from "./server/verifyReplay";
+import { createSocketHandler } from "./server/sockets";
+import type { SocketData } from "./server/sockets";
 
 const isAddrInUseError = (error: unknown) => {
   if (!error || typeof error !== "object") {
@@ -11,11 +23,38 @@ const isAddrInUseError = (error: unknown) => {
 const preferredPort = Number(process.env.PORT ?? process.env.BUN_PORT ?? 3000);
 const fallbackPorts = [preferredPort, 3001, 3002, 3003, 3004];
 
+const scoresPath = process.env.SCORES_DB ?? "data/scores.sqlite";
+if (scoresPath !== ":memory:") {
+  mkdirSync(dirname(scoresPath), { recursive: true });
+}
+const scoreRoutes = createScoreRoutes({
+  store: createScoreStore(scoresPath),
+  submitLimiter: createRateLimiter({ limit: 5, windowMs: 60_000 }),
+  readLimiter: createRateLimiter({ limit: 60, windowMs: 60_000 }),
+  // One replay at a time keeps most of the core for the rooms' loop.
+  verifyQueue: createVerifyQueue({ concurrency: 1, maxWaiting: 4 }),
+});
+
+// Online rooms live in memory only; a restart ends every run in progress.
+const rooms = createRoomManager();
+const roomRoutes = createRoomRoutes({
+  rooms,
+  createLimiter: createRateLimiter({ limit: 10, windowMs: 60_000 }),
+});
+
+// Live spectating, also in memory: a broadcast ends with its socket.
+const broadcasts = createBroadcastHub();
+const broadcastRoutes = createBroadcastRoutes({ broadcasts });
+
 const serverOptions = {
   routes: {
     // Serve index.html for all unmatched routes.
     "/*": index,
 
+    ...scoreRoutes,
+    ...roomRoutes,
+    ...broadcastRoutes,
+
     "/api/hello": {
       async GET(req) {
         return Response.json({
@@ -39,6 +78,8 @@ const serverOptions = {
     },
   },
 
+  websocket: createSocketHandler({ rooms, broadcasts }),
+
   development: process.env.NODE_ENV !== "production" && {
     // Enable browser hot reloading in development
     hmr: true,
@@ -48,10 +89,10 @@ const serverOptions = {
   },
 };
 
-let server: ReturnType<typeof serve> | null = null;
+let server: ReturnType<typeof serve<SocketData>> | null = null;
 for (const port of fallbackPorts) {
   try {
-    server = serve({ port, ...serverOptions });
+    server = serve<SocketData>({ port, ...serverOptions });
     break;
   } catch (error) {
     if (!isAddrInUseError(error)) {
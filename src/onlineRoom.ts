@@ -0,0 +1,187 @@
+import { TICK_MS, TICK_SECONDS } from "./game/constants";
+import { createRng } from "./game/rng";
+import { stepGame } from "./game/simulation";
+import type { Controls } from "./game/types";
+import { errorMessage, readError } from "./scoresApi";
+import type {
+  ClientMessage,
+  ServerMessage,
+  SnapshotMessage,
+} from "./server/rooms";
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_MS = 500;
+const PING_INTERVAL_MS = 2000;
+// Prediction never runs further ahead than this, however slow the link.
+const MAX_LEAD_TICKS = 30;
+
+export type RoomStatus = "connecting" | "open" | "reconnecting" | "closed";
+
+export type RoomConnection = {
+  // Round trip of the last ping, in ms.
+  readonly latencyMs: number;
+  sendControls: (controls: Controls) => void;
+  start: () => void;
+  leave: () => void;
+};
+
+// Per tab, so two tabs on one machine are two players, while a reload still
+// gets its toaster back.
+const tokenKey = (code: string) => `galactic-toast:room:${code}`;
+
+const loadToken = (code: string) => {
+  try {
+    return sessionStorage.getItem(tokenKey(code));
+  } catch {
+    return null;
+  }
+};
+
+const saveToken = (code: string, token: string) => {
+  try {
+    sessionStorage.setItem(tokenKey(code), token);
+  } catch {
+    // Without storage a reload joins as a new player; nothing else breaks.
+  }
+};
+
+export const createRoom = async () => {
+  const response = await fetch("/api/rooms", { method: "POST" });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const body = (await response.json()) as { code: string };
+  return body.code;
+};
+
+/**
+ * Joins room `code` and keeps the socket alive: dropped connections are
+ * retried with backoff, reusing the seat token the server handed out.
+ * Close codes from 4000 up are the server turning us away, so those are
+ * final.
+ */
+export const connectRoom = (
+  code: string,
+  name: string,
+  handlers: {
+    onMessage: (message: ServerMessage) => void;
+    onStatus: (status: RoomStatus, error?: string) => void;
+  }
+): RoomConnection => {
+  let socket: WebSocket | null = null;
+  let attempts = 0;
+  let left = false;
+  let latencyMs = 0;
+  let lastControls = "";
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const send = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const connect = () => {
+    const params = new URLSearchParams({ name });
+    const token = loadToken(code);
+    if (token) {
+      params.set("token", token);
+    }
+    const protocol = location.protocol === "https:" ? "wss:" : "ws:";
+    const current = new WebSocket(
+      `${protocol}//${location.host}/api/rooms/${code}/socket?${params}`
+    );
+    socket = current;
+    handlers.onStatus(attempts === 0 ? "connecting" : "reconnecting");
+
+    current.onopen = () => {
+      attempts = 0;
+      // The server forgot our controls with the old socket.
+      lastControls = "";
+      handlers.onStatus("open");
+    };
+    current.onmessage = event => {
+      const message = JSON.parse(String(event.data)) as ServerMessage;
+      if (message.type === "welcome") {
+        saveToken(code, message.token);
+      } else if (message.type === "pong") {
+        latencyMs = performance.now() - message.sentAt;
+      }
+      handlers.onMessage(message);
+    };
+    current.onclose = event => {
+      if (socket !== current || left) {
+        return;
+      }
+      socket = null;
+      if (event.code >= 4000 || attempts >= MAX_RECONNECT_ATTEMPTS) {
+        handlers.onStatus(
+          "closed",
+          errorMessage(event.reason, "Conexao perdida.")
+        );
+        return;
+      }
+      attempts += 1;
+      handlers.onStatus("reconnecting");
+      retryTimer = setTimeout(connect, RECONNECT_BASE_MS * 2 ** (attempts - 1));
+    };
+  };
+
+  connect();
+  const pingTimer = setInterval(
+    () => send({ type: "ping", sentAt: performance.now() }),
+    PING_INTERVAL_MS
+  );
+
+  return {
+    get latencyMs() {
+      return latencyMs;
+    },
+    // Only changes go over the wire; the server holds the last ones.
+    sendControls: controls => {
+      const text = JSON.stringify(controls);
+      if (text !== lastControls && socket?.readyState === WebSocket.OPEN) {
+        lastControls = text;
+        send({ type: "input", controls });
+      }
+    },
+    start: () => send({ type: "start" }),
+    leave: () => {
+      left = true;
+      clearInterval(pingTimer);
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+      }
+      socket?.close();
+      socket = null;
+    },
+  };
+};
+
+// How far ahead of the last snapshot our own toaster should be drawn: the
+// server sees our input about half a round trip after we press it.
+export const leadTicks = (latencyMs: number) =>
+  Math.min(MAX_LEAD_TICKS, Math.round(latencyMs / 2 / TICK_MS));
+
+/**
+ * Client-side prediction. Re-runs the authoritative snapshot forward by
+ * `ticks` with everyone holding their last reported controls, except our own
+ * toaster, which uses what is pressed right now. Returns the rng too so the
+ * caller can keep stepping until the next snapshot replaces the guess.
+ */
+export const predictFromSnapshot = (
+  snapshot: SnapshotMessage,
+  you: number,
+  own: Controls,
+  ticks: number
+) => {
+  const rng = createRng(snapshot.rngState);
+  const controls = snapshot.controls.map((held, index) =>
+    index === you ? own : held
+  );
+  let state = snapshot.state;
+  for (let n = 0; n < ticks && !state.outcome; n += 1) {
+    state = stepGame(state, controls, rng, TICK_SECONDS).state;
+  }
+  return { state, rng, controls };
+};
@@ -0,0 +1,122 @@
+import backgroundUrl from "../assets/img/space.jpg";
+import toasterUrl from "../assets/img/torradeira.png";
+import toastUrl from "../assets/img/toast_small.png";
+import asteroidUrl from "../assets/img/Asteroid.png";
+
+import type { Effects } from "./effects";
+import { loadAssets } from "./assets";
+import type { AssetManifest, LoadProgress, LoadedAssets } from "./assets";
+import { createCanvasRenderer } from "./gameDrawer";
+import type { GameState } from "./game/types";
+import { createWebglRenderer, probeWebgl } from "./webglRenderer";
+
+const RENDERER_KEY = "galactic-toast:renderer";
+
+// Until there is sprite art, the toaster and asteroid sheets are baked from
+// the stills.
+export const SCENE_ASSETS = {
+  background: { type: "image", url: backgroundUrl },
+  player: {
+    type: "sheet",
+    url: toasterUrl,
+    frameCount: 4,
+    fps: 14,
+    bake: "thrust",
+  },
+  shot: { type: "image", url: toastUrl },
+  enemy: {
+    type: "sheet",
+    url: asteroidUrl,
+    frameCount: 16,
+    fps: 6,
+    bake: "spin",
+  },
+  hudFont: { type: "font", font: '16px "Space Grotesk"', optional: true },
+  monoFont: { type: "font", font: '14px "JetBrains Mono"', optional: true },
+} as const satisfies AssetManifest;
+
+export type SceneAssets = LoadedAssets<typeof SCENE_ASSETS>;
+
+// Sprites plus the fonts the HUD is drawn with.
+export const loadScene = (onProgress?: (progress: LoadProgress) => void) =>
+  loadAssets(SCENE_ASSETS, onProgress);
+
+// Renderers only look at the run; they never change it.
+export type GameView = Readonly<GameState>;
+
+// A run raced alongside the live one: only its first toaster is drawn.
+export type GhostView = {
+  state: GameView;
+  label: string;
+};
+
+// Everything drawn besides the run itself. `seed` is the run's, and picks
+// its starfield.
+export type Scene = {
+  seed?: number;
+  ghost?: GhostView | null;
+  effects?: Effects | null;
+};
+
+export type RendererKind = "canvas" | "webgl";
+
+export type Renderer = {
+  readonly kind: RendererKind;
+  // Paints one frame of `state` in the logical WIDTH x HEIGHT space.
+  draw: (state: GameView, scene?: Scene) => void;
+  // Frees what the renderer holds on the GPU or off screen.
+  dispose: () => void;
+};
+
+export const RENDERER_LABELS: Record<RendererKind, string> = {
+  canvas: "Canvas 2D",
+  webgl: "WebGL",
+};
+
+let webglSupported: boolean | null = null;
+
+// Tried once on a scratch canvas: a canvas that has handed out a WebGL
+// context can never give a 2D one, so the real one is only tried when this
+// says it will work.
+export const canUseWebgl = () => {
+  webglSupported ??= probeWebgl();
+  return webglSupported;
+};
+
+export const loadRendererChoice = (): RendererKind => {
+  try {
+    return localStorage.getItem(RENDERER_KEY) === "webgl" ? "webgl" : "canvas";
+  } catch {
+    return "canvas";
+  }
+};
+
+export const saveRendererChoice = (kind: RendererKind) => {
+  try {
+    localStorage.setItem(RENDERER_KEY, kind);
+  } catch {
+    // Storage disabled; the choice lasts until the tab closes.
+  }
+};
+
+/**
+ * Creates the `preferred` renderer on `canvas`, or the Canvas 2D one when
+ * WebGL is not available here. `onLost` hears about a WebGL context the
+ * browser took back mid-run; the canvas is then unusable, so the caller
+ * swaps it for a fresh one with the Canvas 2D renderer.
+ */
+export const createRenderer = (
+  canvas: HTMLCanvasElement,
+  assets: SceneAssets,
+  preferred: RendererKind,
+  onLost?: () => void
+): Renderer => {
+  if (preferred === "webgl" && canUseWebgl()) {
+    const renderer = createWebglRenderer(canvas, assets, onLost);
+    if (renderer) {
+      return renderer;
+    }
+    webglSupported = false;
+  }
+  return createCanvasRenderer(canvas, assets);
+};
@@ -0,0 +1,147 @@
+import type { DifficultyId } from "./game/difficulty";
+import { validateReplay } from "./game/replay";
+import type { Replay } from "./game/replay";
+import { MAX_ROOM_PLAYERS, MIN_ROOM_PLAYERS } from "./server/rooms";
+import type { RoomErrorCode } from "./server/rooms";
+import type { ScoreErrorCode } from "./server/scoresRoutes";
+import type {
+  LeaderboardPeriod,
+  ScoreEntry,
+  ScoreSubmission,
+} from "./server/scoreStore";
+
+const NAME_KEY = "galactic-toast:player-name";
+const PLAYER_ID_KEY = "galactic-toast:player-id";
+
+// The server re-simulates `replay` and only ranks the run if it reproduces
+// the claimed numbers. Whether it is a daily challenge run comes from the
+// replay itself.
+export type ScoreUpload = Omit<ScoreSubmission, "daily"> & {
+  replay: Replay;
+  playerId: string;
+};
+
+// "rate-limited" comes from any limited route.
+type ApiErrorCode = "rate-limited" | RoomErrorCode | ScoreErrorCode;
+
+// What players read for each error code the server sends; its `error`
+// field is an English detail for logs.
+const ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+  "rate-limited": "Muitas tentativas; espere um pouco e tente de novo.",
+  "server-full": "Todas as salas estao ocupadas; tente mais tarde.",
+  "room-not-found": "Sala nao encontrada.",
+  "run-in-progress":
+    "A partida desta sala ja esta rolando; entre quando acabar.",
+  "room-full": `A sala ja tem ${MAX_ROOM_PLAYERS} torradeiras.`,
+  "not-enough-players": `Sao precisas ${MIN_ROOM_PLAYERS} torradeiras para comecar.`,
+  "connected-elsewhere": "Voce entrou nesta sala em outra aba.",
+  "invalid-query": "Consulta ao placar invalida.",
+  "body-too-large": "A partida e grande demais para o placar.",
+  "invalid-json": "Envio corrompido; tente de novo.",
+  "invalid-name": "O nome precisa ter de 1 a 16 caracteres.",
+  "invalid-run": "Os dados da partida nao conferem.",
+  "invalid-replay": "O replay da partida e invalido.",
+  "daily-closed": "O desafio desse dia ja fechou.",
+  "daily-taken": "Voce ja tem uma tentativa no placar do desafio de hoje.",
+  "run-too-long": "Partidas tao longas nao entram no placar.",
+  "mode-not-ranked": "So partidas no modo infinito entram no placar.",
+  "coop-not-ranked": "Partidas cooperativas nao entram no placar.",
+  "level-not-ranked": "So fases oficiais entram no placar.",
+  "score-mismatch": "O replay nao reproduz as mortes enviadas.",
+  "verify-timeout": "A conferencia do replay demorou demais.",
+  "replay-incomplete": "O replay termina antes do fim da partida.",
+  "combo-mismatch": "O replay nao reproduz o combo enviado.",
+  "duration-mismatch": "O replay nao reproduz a duracao enviada.",
+  "replay-not-found": "Replay nao encontrado no placar.",
+  "verify-busy":
+    "O placar esta ocupado conferindo outras partidas; tente de novo.",
+};
+
+export const errorMessage = (code: unknown, fallback: string) =>
+  typeof code === "string" && Object.hasOwn(ERROR_MESSAGES, code)
+    ? ERROR_MESSAGES[code as ApiErrorCode]
+    : fallback;
+
+// Words the error of a failed API response for the player.
+export const readError = async (response: Response) => {
+  const fallback = `Erro do servidor (HTTP ${response.status}).`;
+  try {
+    const body = (await response.json()) as { code?: unknown };
+    return errorMessage(body.code, fallback);
+  } catch {
+    return fallback;
+  }
+};
+
+export const submitScore = async (submission: ScoreUpload) => {
+  const response = await fetch("/api/scores", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(submission),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return (await response.json()) as { id: number; rank: number; total: number };
+};
+
+export const fetchTopScores = async (
+  difficulty: DifficultyId,
+  period: LeaderboardPeriod,
+  { daily = null, limit = 10 }: { daily?: string | null; limit?: number } = {}
+) => {
+  const params = new URLSearchParams({
+    difficulty,
+    period,
+    limit: String(limit),
+  });
+  if (daily) {
+    params.set("daily", daily);
+  }
+  const response = await fetch(`/api/scores?${params}`);
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const body = (await response.json()) as { scores: ScoreEntry[] };
+  return body.scores;
+};
+
+// A ranked run's replay, checked the same way an imported file is.
+export const fetchScoreReplay = async (id: number) => {
+  const response = await fetch(`/api/scores/${id}/replay`);
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return validateReplay(await response.json());
+};
+
+export const loadPlayerName = () => {
+  try {
+    return localStorage.getItem(NAME_KEY) ?? "";
+  } catch {
+    return "";
+  }
+};
+
+// Anonymous per-browser id; the server uses it for the one ranked daily
+// attempt rule.
+export const loadPlayerId = () => {
+  try {
+    let id = localStorage.getItem(PLAYER_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(PLAYER_ID_KEY, id);
+    }
+    return id;
+  } catch {
+    return crypto.randomUUID();
+  }
+};
+
+export const savePlayerName = (name: string) => {
+  try {
+    localStorage.setItem(NAME_KEY, name);
+  } catch {
+    // Not worth surfacing; the field just starts empty next time.
+  }
+};
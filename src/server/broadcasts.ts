@@ -0,0 +1,281 @@
+import type { ServerWebSocket } from "bun";
+import { TICK_HZ } from "../game/constants";
+import type { PlayModeId } from "../game/modes";
+import { appendRunLength, isRunLength, validateReplay } from "../game/replay";
+import type { Replay } from "../game/replay";
+
+export const MAX_BROADCASTS = 50;
+export const MAX_WATCHERS = 100;
+// A run streamed for longer than this stops being relayed.
+export const MAX_BROADCAST_TICKS = 60 * 60 * TICK_HZ;
+// Chunks arrive a few times a second; this is generous.
+const MAX_CHUNK_TICKS = 10 * TICK_HZ;
+// Headers can embed a whole imported level.
+export const MAX_BROADCAST_MESSAGE_BYTES = 64 * 1024;
+
+export const BROADCAST_ID_PATTERN = /^[a-z0-9]{8}$/;
+
+export type BroadcastSummary = {
+  id: string;
+  name: string;
+  // As reported by the broadcaster; this is a display, not a leaderboard.
+  score: number;
+  // Null until the first run starts.
+  startedAt: string | null;
+  mode: PlayModeId;
+  over: boolean;
+  watchers: number;
+};
+
+// Broadcaster to server. `replay` opens a run: the full header with no
+// inputs yet.
+export type BroadcasterMessage =
+  | { type: "run"; replay: Replay }
+  | { type: "inputs"; inputs: number[]; score: number }
+  | { type: "over"; score: number };
+
+// Server to watcher. A watcher joining mid-run gets everything so far in
+// one `run` message.
+export type WatchMessage =
+  | { type: "run"; name: string; replay: Replay }
+  | { type: "inputs"; inputs: number[]; score: number }
+  | { type: "over"; score: number }
+  | { type: "ended" };
+
+// Server to broadcaster.
+export type BroadcasterReply =
+  { type: "welcome"; id: string } | { type: "error"; message: string };
+
+export type BroadcastSocketData =
+  | { kind: "broadcast"; name: string; id: string | null }
+  | { kind: "watch"; id: string };
+
+type BroadcastSocket = ServerWebSocket<BroadcastSocketData>;
+
+type Broadcast = {
+  id: string;
+  name: string;
+  socket: BroadcastSocket;
+  replay: Replay | null;
+  ticks: number;
+  score: number;
+  over: boolean;
+  watchers: Set<BroadcastSocket>;
+};
+
+const isScore = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const chunkTicks = (chunk: number[]) => {
+  let total = 0;
+  for (let i = 1; i < chunk.length; i += 2) {
+    total += chunk[i]!;
+  }
+  return total;
+};
+
+/**
+ * Decodes one broadcaster frame. Returns null for anything malformed; a bad
+ * run header is reported with the reason instead.
+ */
+export const parseBroadcasterMessage = (
+  text: string
+): BroadcasterMessage | { error: string } | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object") {
+    return null;
+  }
+  const raw = data as Record<string, unknown>;
+  switch (raw.type) {
+    case "run": {
+      try {
+        const replay = validateReplay(raw.replay);
+        return { type: "run", replay: { ...replay, inputs: [] } };
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : "Bad run." };
+      }
+    }
+    case "inputs":
+      return isRunLength(raw.inputs) &&
+        chunkTicks(raw.inputs) <= MAX_CHUNK_TICKS &&
+        isScore(raw.score)
+        ? { type: "inputs", inputs: raw.inputs, score: raw.score }
+        : null;
+    case "over":
+      return isScore(raw.score) ? { type: "over", score: raw.score } : null;
+    default:
+      return null;
+  }
+};
+
+const send = (
+  socket: BroadcastSocket,
+  message: WatchMessage | BroadcasterReply
+) => {
+  socket.send(JSON.stringify(message));
+};
+
+const randomId = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(8)), byte =>
+    (byte % 36).toString(36)
+  ).join("");
+
+export type BroadcastHub = {
+  has: (id: string) => boolean;
+  // Whether another broadcaster or watcher can connect right now.
+  canBroadcast: () => boolean;
+  canWatch: (id: string) => boolean;
+  list: () => BroadcastSummary[];
+  open: (socket: BroadcastSocket) => void;
+  message: (socket: BroadcastSocket, text: string) => void;
+  close: (socket: BroadcastSocket) => void;
+};
+
+/**
+ * Relays live runs to spectators. Broadcasters stream the same seed and
+ * input masks a replay is made of, so the hub never simulates anything: it
+ * keeps the run so far for late watchers and forwards new chunks.
+ */
+export const createBroadcastHub = (): BroadcastHub => {
+  const broadcasts = new Map<string, Broadcast>();
+
+  const relay = (broadcast: Broadcast, message: WatchMessage) => {
+    const text = JSON.stringify(message);
+    for (const watcher of broadcast.watchers) {
+      watcher.send(text);
+    }
+  };
+
+  const summaryOf = (broadcast: Broadcast): BroadcastSummary => ({
+    id: broadcast.id,
+    name: broadcast.name,
+    score: broadcast.score,
+    startedAt: broadcast.replay?.recordedAt ?? null,
+    mode: broadcast.replay?.mode ?? "endless",
+    over: broadcast.over,
+    watchers: broadcast.watchers.size,
+  });
+
+  const onBroadcasterMessage = (broadcast: Broadcast, text: string) => {
+    const message = parseBroadcasterMessage(text);
+    if (!message) {
+      return;
+    }
+    if ("error" in message) {
+      send(broadcast.socket, { type: "error", message: message.error });
+      return;
+    }
+    switch (message.type) {
+      case "run":
+        broadcast.replay = message.replay;
+        broadcast.ticks = 0;
+        broadcast.score = 0;
+        broadcast.over = false;
+        relay(broadcast, {
+          type: "run",
+          name: broadcast.name,
+          replay: message.replay,
+        });
+        break;
+      case "inputs": {
+        const replay = broadcast.replay;
+        const ticks = chunkTicks(message.inputs);
+        if (
+          !replay ||
+          broadcast.over ||
+          broadcast.ticks + ticks > MAX_BROADCAST_TICKS
+        ) {
+          return;
+        }
+        appendRunLength(replay.inputs, message.inputs);
+        broadcast.ticks += ticks;
+        broadcast.score = message.score;
+        relay(broadcast, message);
+        break;
+      }
+      case "over":
+        if (broadcast.replay && !broadcast.over) {
+          broadcast.over = true;
+          broadcast.score = message.score;
+          relay(broadcast, message);
+        }
+        break;
+    }
+  };
+
+  return {
+    has: id => broadcasts.has(id),
+    canBroadcast: () => broadcasts.size < MAX_BROADCASTS,
+    canWatch: id =>
+      (broadcasts.get(id)?.watchers.size ?? MAX_WATCHERS) < MAX_WATCHERS,
+    list: () => [...broadcasts.values()].map(summaryOf),
+    open: socket => {
+      const data = socket.data;
+      if (data.kind === "broadcast") {
+        let id = randomId();
+        while (broadcasts.has(id)) {
+          id = randomId();
+        }
+        data.id = id;
+        broadcasts.set(id, {
+          id,
+          name: data.name,
+          socket,
+          replay: null,
+          ticks: 0,
+          score: 0,
+          over: false,
+          watchers: new Set(),
+        });
+        send(socket, { type: "welcome", id });
+        return;
+      }
+      const broadcast = broadcasts.get(data.id);
+      if (!broadcast) {
+        send(socket, { type: "ended" });
+        socket.close();
+        return;
+      }
+      broadcast.watchers.add(socket);
+      if (broadcast.replay) {
+        send(socket, {
+          type: "run",
+          name: broadcast.name,
+          replay: broadcast.replay,
+        });
+        if (broadcast.over) {
+          send(socket, { type: "over", score: broadcast.score });
+        }
+      }
+    },
+    message: (socket, text) => {
+      const data = socket.data;
+      const broadcast = data.id ? broadcasts.get(data.id) : undefined;
+      // Watchers are read-only.
+      if (data.kind === "broadcast" && broadcast?.socket === socket) {
+        onBroadcasterMessage(broadcast, text);
+      }
+    },
+    close: socket => {
+      const data = socket.data;
+      const broadcast = data.id ? broadcasts.get(data.id) : undefined;
+      if (!broadcast) {
+        return;
+      }
+      if (data.kind === "watch") {
+        broadcast.watchers.delete(socket);
+        return;
+      }
+      relay(broadcast, { type: "ended" });
+      for (const watcher of broadcast.watchers) {
+        watcher.close();
+      }
+      broadcasts.delete(broadcast.id);
+    },
+  };
+};
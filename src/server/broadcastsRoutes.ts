@@ -0,0 +1,52 @@
+import type { BunRequest, Server } from "bun";
+import { BROADCAST_ID_PATTERN } from "./broadcasts";
+import type { BroadcastHub } from "./broadcasts";
+import { MAX_PLAYER_NAME_LENGTH } from "./rooms";
+import type { SocketData } from "./sockets";
+
+const DEFAULT_PLAYER_NAME = "Torradeira";
+
+const errorResponse = (error: string, status: number) =>
+  Response.json({ error }, { status });
+
+const upgradeFailed = () => errorResponse("Expected a WebSocket upgrade.", 426);
+
+export const createBroadcastRoutes = ({
+  broadcasts,
+}: {
+  broadcasts: BroadcastHub;
+}) => ({
+  "/api/broadcasts": {
+    GET: () => Response.json({ broadcasts: broadcasts.list() }),
+  },
+  // The player's side: streams their runs until the socket closes.
+  "/api/broadcasts/socket": (req: Request, server: Server<SocketData>) => {
+    if (!broadcasts.canBroadcast()) {
+      return errorResponse("Too many live broadcasts, try again later.", 503);
+    }
+    const name =
+      (new URL(req.url).searchParams.get("name") ?? "")
+        .trim()
+        .slice(0, MAX_PLAYER_NAME_LENGTH) || DEFAULT_PLAYER_NAME;
+    if (server.upgrade(req, { data: { kind: "broadcast", name, id: null } })) {
+      return undefined;
+    }
+    return upgradeFailed();
+  },
+  "/api/broadcasts/:id/socket": (
+    req: BunRequest<"/api/broadcasts/:id/socket">,
+    server: Server<SocketData>
+  ) => {
+    const id = req.params.id;
+    if (!BROADCAST_ID_PATTERN.test(id) || !broadcasts.has(id)) {
+      return errorResponse("Broadcast not found.", 404);
+    }
+    if (!broadcasts.canWatch(id)) {
+      return errorResponse("This broadcast has too many watchers.", 503);
+    }
+    if (server.upgrade(req, { data: { kind: "watch", id } })) {
+      return undefined;
+    }
+    return upgradeFailed();
+  },
+});
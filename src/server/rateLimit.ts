@@ -0,0 +1,61 @@
+import type { Server } from "bun";
+
+export type RateLimiter = {
+  // Counts a hit for `key`; returns how long to wait in ms, or 0 if allowed.
+  hit: (key: string, nowMs?: number) => number;
+};
+
+/**
+ * Sliding-window limiter kept in memory. Good enough for a single Bun
+ * process; a restart forgets every window.
+ */
+export const createRateLimiter = ({
+  limit,
+  windowMs,
+}: {
+  limit: number;
+  windowMs: number;
+}): RateLimiter => {
+  const hits = new Map<string, number[]>();
+  let lastSweep = 0;
+
+  const sweep = (nowMs: number) => {
+    for (const [key, times] of hits) {
+      if (times[times.length - 1]! <= nowMs - windowMs) {
+        hits.delete(key);
+      }
+    }
+    lastSweep = nowMs;
+  };
+
+  return {
+    hit: (key, nowMs = Date.now()) => {
+      if (nowMs - lastSweep > windowMs) {
+        sweep(nowMs);
+      }
+      const recent = (hits.get(key) ?? []).filter(
+        time => time > nowMs - windowMs
+      );
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return recent[0]! + windowMs - nowMs;
+      }
+      recent.push(nowMs);
+      hits.set(key, recent);
+      return 0;
+    },
+  };
+};
+
+// Limiters are keyed by client address.
+export const clientKey = (req: Request, server: Server<unknown>) =>
+  server.requestIP(req)?.address ?? "unknown";
+
+export const tooManyRequests = (retryMs: number) =>
+  Response.json(
+    { error: "Too many requests, try again shortly.", code: "rate-limited" },
+    {
+      status: 429,
+      headers: { "Retry-After": String(Math.ceil(retryMs / 1000)) },
+    }
+  );
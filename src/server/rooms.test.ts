@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import type { ServerWebSocket } from "bun";
+
+import { CLOSE_REJECTED, createRoomManager } from "./rooms";
+import type { RoomSocketData, ServerMessage } from "./rooms";
+
+// Just enough of a Bun socket to drive the manager and read what it sends.
+const connect = (code: string, name: string) => {
+  const client = {
+    messages: [] as ServerMessage[],
+    closedWith: null as { code: number; reason: string } | null,
+    socket: null as unknown as ServerWebSocket<RoomSocketData>,
+  };
+  client.socket = {
+    data: { kind: "room", code, name, token: null },
+    send: (text: string) => client.messages.push(JSON.parse(text)),
+    close: (closeCode: number, reason: string) =>
+      (client.closedWith = { code: closeCode, reason }),
+  } as unknown as ServerWebSocket<RoomSocketData>;
+  return client;
+};
+
+const lastLobby = (client: ReturnType<typeof connect>) =>
+  client.messages.findLast(message => message.type === "lobby");
+
+const startedRoom = () => {
+  const rooms = createRoomManager({ autoUpdate: false });
+  const code = rooms.create()!;
+  const host = connect(code, "Ana");
+  const guest = connect(code, "Bia");
+  rooms.open(host.socket);
+  rooms.open(guest.socket);
+  rooms.message(host.socket, JSON.stringify({ type: "start" }));
+  return { rooms, code, host, guest };
+};
+
+describe("rooms", () => {
+  test("refuses newcomers while a run is going", () => {
+    const { rooms, code } = startedRoom();
+    const late = connect(code, "Caio");
+    rooms.open(late.socket);
+    expect(late.closedWith).toEqual({
+      code: CLOSE_REJECTED,
+      reason: "run-in-progress",
+    });
+    expect(late.messages).toContainEqual({
+      type: "error",
+      code: "run-in-progress",
+      message: "This room's run is in progress; join when it ends.",
+    });
+    rooms.stop();
+  });
+
+  test("frees dropped seats and lets newcomers in once the run ends", () => {
+    const { rooms, code, host, guest } = startedRoom();
+    rooms.close(guest.socket);
+    // Two idle toasters lose every life to escaping asteroids.
+    let nowMs = performance.now();
+    for (let n = 0; n < 20_000 && lastLobby(host)?.phase !== "over"; n += 1) {
+      nowMs += 40;
+      rooms.update(nowMs);
+    }
+    expect(lastLobby(host)).toMatchObject({
+      phase: "over",
+      members: [{ name: "Ana", connected: true }],
+    });
+
+    const late = connect(code, "Caio");
+    rooms.open(late.socket);
+    expect(late.closedWith).toBeNull();
+    expect(lastLobby(late)).toMatchObject({ phase: "over", you: 1 });
+
+    rooms.message(host.socket, JSON.stringify({ type: "start" }));
+    expect(lastLobby(late)).toMatchObject({ phase: "playing", you: 1 });
+    rooms.stop();
+  });
+});
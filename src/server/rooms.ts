@@ -0,0 +1,475 @@
+import type { ServerWebSocket } from "bun";
+import { TICK_SECONDS } from "../game/constants";
+import { DIFFICULTY_PRESETS } from "../game/difficulty";
+import { createFixedStep } from "../game/fixedStep";
+import type { FixedStep } from "../game/fixedStep";
+import { createRng, randomSeed } from "../game/rng";
+import type { Rng } from "../game/rng";
+import { createGameState, emptyControls, stepGame } from "../game/simulation";
+import type { Controls, GameEvent, GameState } from "../game/types";
+
+export const MIN_ROOM_PLAYERS = 2;
+export const MAX_ROOM_PLAYERS = 4;
+export const MAX_ROOMS = 200;
+export const MAX_PLAYER_NAME_LENGTH = 16;
+// Snapshots go out every few ticks: 20 per second at 120Hz.
+export const SNAPSHOT_EVERY_TICKS = 6;
+// A room nobody is connected to is dropped after this long.
+export const ROOM_IDLE_MS = 60 * 1000;
+// How often the shared loop wakes up to advance every running room.
+const LOOP_INTERVAL_MS = 8;
+
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+const CODE_LENGTH = 4;
+export const ROOM_CODE_PATTERN = /^[A-HJ-NP-Z]{4}$/;
+
+// Close codes in the application range; clients do not retry these.
+export const CLOSE_REJECTED = 4000;
+export const CLOSE_REPLACED = 4001;
+
+export type RoomPhase = "lobby" | "playing" | "over";
+
+// What went wrong, for the client to word; error messages and close
+// reasons carry these, next to an English detail where there is room.
+export type RoomErrorCode =
+  | "server-full"
+  | "room-not-found"
+  | "run-in-progress"
+  | "room-full"
+  | "not-enough-players"
+  | "connected-elsewhere";
+
+export type RoomMember = {
+  name: string;
+  connected: boolean;
+};
+
+export type ServerMessage =
+  // `token` lets the same client take its toaster back after a dropout.
+  | { type: "welcome"; code: string; token: string }
+  // `you` is the recipient's index in `members` and in `state.players`.
+  | {
+      type: "lobby";
+      phase: RoomPhase;
+      members: RoomMember[];
+      host: number;
+      you: number;
+    }
+  | {
+      type: "snapshot";
+      tick: number;
+      // What the run was seeded with; clients only decorate with it.
+      seed: number;
+      rngState: number;
+      state: GameState;
+      // Latest controls held by each player, so clients can predict the
+      // others between snapshots.
+      controls: Controls[];
+      // Everything that happened since the previous snapshot.
+      events: GameEvent[];
+    }
+  | { type: "pong"; sentAt: number }
+  | { type: "error"; code: RoomErrorCode; message: string };
+
+export type SnapshotMessage = Extract<ServerMessage, { type: "snapshot" }>;
+
+export type ClientMessage =
+  | { type: "input"; controls: Controls }
+  | { type: "start" }
+  | { type: "ping"; sentAt: number };
+
+export type RoomSocketData = {
+  kind: "room";
+  code: string;
+  name: string;
+  token: string | null;
+};
+
+type RoomSocket = ServerWebSocket<RoomSocketData>;
+
+type Member = {
+  token: string;
+  name: string;
+  socket: RoomSocket | null;
+  controls: Controls;
+};
+
+type Room = {
+  code: string;
+  phase: RoomPhase;
+  members: Member[];
+  state: GameState | null;
+  seed: number;
+  rng: Rng;
+  tick: number;
+  clock: FixedStep;
+  lastUpdateMs: number;
+  events: GameEvent[];
+  // When the last client left, or null while someone is connected.
+  emptySince: number | null;
+};
+
+const CONTROL_KEYS: (keyof Controls)[] = [
+  "up",
+  "down",
+  "left",
+  "right",
+  "shoot",
+];
+
+const isControls = (value: unknown): value is Controls =>
+  !!value &&
+  typeof value === "object" &&
+  CONTROL_KEYS.every(
+    key => typeof (value as Record<string, unknown>)[key] === "boolean"
+  );
+
+/**
+ * Decodes one client frame. Returns null for anything malformed, which the
+ * room simply ignores.
+ */
+export const parseClientMessage = (text: string): ClientMessage | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object") {
+    return null;
+  }
+  const raw = data as Record<string, unknown>;
+  switch (raw.type) {
+    case "input":
+      return isControls(raw.controls)
+        ? {
+            type: "input",
+            controls: {
+              up: raw.controls.up,
+              down: raw.controls.down,
+              left: raw.controls.left,
+              right: raw.controls.right,
+              shoot: raw.controls.shoot,
+            },
+          }
+        : null;
+    case "start":
+      return { type: "start" };
+    case "ping":
+      return typeof raw.sentAt === "number" && Number.isFinite(raw.sentAt)
+        ? { type: "ping", sentAt: raw.sentAt }
+        : null;
+    default:
+      return null;
+  }
+};
+
+const send = (socket: RoomSocket | null, message: ServerMessage) => {
+  socket?.send(JSON.stringify(message));
+};
+
+const randomCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return Array.from(
+    bytes,
+    byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]
+  ).join("");
+};
+
+// The first connected member runs the room; it moves on if they drop.
+const hostOf = (room: Room) => {
+  const index = room.members.findIndex(member => member.socket);
+  return index < 0 ? 0 : index;
+};
+
+export type RoomManager = {
+  // Returns the new room's code, or null when the server is at capacity.
+  create: (nowMs?: number) => string | null;
+  has: (code: string) => boolean;
+  open: (socket: RoomSocket) => void;
+  message: (socket: RoomSocket, text: string) => void;
+  close: (socket: RoomSocket) => void;
+  // Advances every running room to `nowMs` and sweeps idle ones.
+  update: (nowMs: number) => void;
+  stop: () => void;
+};
+
+/**
+ * Keeps the online rooms. Each room runs the same deterministic simulation
+ * as solo play, fed with the latest controls of every member; clients only
+ * send controls and render what the snapshots say.
+ */
+export const createRoomManager = ({
+  autoUpdate = true,
+}: { autoUpdate?: boolean } = {}): RoomManager => {
+  const rooms = new Map<string, Room>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const broadcastLobby = (room: Room) => {
+    const members = room.members.map(member => ({
+      name: member.name,
+      connected: member.socket !== null,
+    }));
+    const host = hostOf(room);
+    room.members.forEach((member, you) => {
+      send(member.socket, {
+        type: "lobby",
+        phase: room.phase,
+        members,
+        host,
+        you,
+      });
+    });
+  };
+
+  const snapshotOf = (room: Room): SnapshotMessage | null =>
+    room.state && {
+      type: "snapshot",
+      tick: room.tick,
+      seed: room.seed,
+      rngState: room.rng.state,
+      state: room.state,
+      controls: room.members.map(member => member.controls),
+      events: room.events,
+    };
+
+  const broadcastSnapshot = (room: Room) => {
+    const snapshot = snapshotOf(room);
+    if (!snapshot) {
+      return;
+    }
+    const text = JSON.stringify(snapshot);
+    for (const member of room.members) {
+      member.socket?.send(text);
+    }
+    room.events = [];
+  };
+
+  // Seats whose owner is gone are given up whenever no run is going.
+  const dropDisconnected = (room: Room) => {
+    room.members = room.members.filter(member => member.socket);
+  };
+
+  const startRun = (room: Room, nowMs: number) => {
+    dropDisconnected(room);
+    const seed = randomSeed();
+    room.phase = "playing";
+    room.state = createGameState({
+      difficulty: DIFFICULTY_PRESETS.normal,
+      players: room.members.length,
+    });
+    room.seed = seed;
+    room.rng = createRng(seed);
+    room.tick = 0;
+    room.events = [];
+    room.clock.reset();
+    room.lastUpdateMs = nowMs;
+    for (const member of room.members) {
+      member.controls = emptyControls();
+    }
+    broadcastLobby(room);
+    broadcastSnapshot(room);
+  };
+
+  const advance = (room: Room, nowMs: number) => {
+    const elapsed = (nowMs - room.lastUpdateMs) / 1000;
+    room.lastUpdateMs = nowMs;
+    if (room.phase !== "playing" || !room.state) {
+      return;
+    }
+    room.clock.advance(elapsed, () => {
+      const result = stepGame(
+        room.state!,
+        room.members.map(member => member.controls),
+        room.rng,
+        TICK_SECONDS
+      );
+      room.state = result.state;
+      room.tick += 1;
+      room.events.push(...result.events);
+      if (result.state.outcome) {
+        room.phase = "over";
+        broadcastSnapshot(room);
+        // Frees the seats of toasters that dropped mid-run for new joiners.
+        dropDisconnected(room);
+        broadcastLobby(room);
+        return false;
+      }
+      if (room.tick % SNAPSHOT_EVERY_TICKS === 0) {
+        broadcastSnapshot(room);
+      }
+      return true;
+    });
+  };
+
+  const update = (nowMs: number) => {
+    for (const room of rooms.values()) {
+      if (room.emptySince !== null && nowMs - room.emptySince > ROOM_IDLE_MS) {
+        rooms.delete(room.code);
+        continue;
+      }
+      advance(room, nowMs);
+    }
+    if (rooms.size === 0 && timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const ensureLoop = () => {
+    if (autoUpdate && !timer) {
+      timer = setInterval(() => update(performance.now()), LOOP_INTERVAL_MS);
+    }
+  };
+
+  const reject = (socket: RoomSocket, code: RoomErrorCode, message: string) => {
+    send(socket, { type: "error", code, message });
+    socket.close(CLOSE_REJECTED, code);
+  };
+
+  return {
+    create: (nowMs = performance.now()) => {
+      if (rooms.size >= MAX_ROOMS) {
+        return null;
+      }
+      let code = randomCode();
+      while (rooms.has(code)) {
+        code = randomCode();
+      }
+      rooms.set(code, {
+        code,
+        phase: "lobby",
+        members: [],
+        state: null,
+        seed: 0,
+        rng: createRng(0),
+        tick: 0,
+        clock: createFixedStep(),
+        lastUpdateMs: nowMs,
+        events: [],
+        emptySince: nowMs,
+      });
+      ensureLoop();
+      return code;
+    },
+    has: code => rooms.has(code),
+    open: socket => {
+      const room = rooms.get(socket.data.code);
+      if (!room) {
+        reject(socket, "room-not-found", "Room not found.");
+        return;
+      }
+      let member = room.members.find(
+        candidate => candidate.token === socket.data.token
+      );
+      if (member) {
+        // Same client again (new tab load or a dropped connection).
+        if (member.socket && member.socket !== socket) {
+          member.socket.close(
+            CLOSE_REPLACED,
+            "connected-elsewhere" satisfies RoomErrorCode
+          );
+        }
+      } else {
+        // Newcomers wait in the lobby or on the results screen; they get a
+        // toaster when the host starts the next run.
+        if (room.phase === "playing") {
+          reject(
+            socket,
+            "run-in-progress",
+            "This room's run is in progress; join when it ends."
+          );
+          return;
+        }
+        if (room.members.length >= MAX_ROOM_PLAYERS) {
+          reject(
+            socket,
+            "room-full",
+            `Rooms hold at most ${MAX_ROOM_PLAYERS} players.`
+          );
+          return;
+        }
+        member = {
+          token: crypto.randomUUID(),
+          name: socket.data.name,
+          socket: null,
+          controls: emptyControls(),
+        };
+        room.members.push(member);
+      }
+      member.socket = socket;
+      member.controls = emptyControls();
+      socket.data.token = member.token;
+      room.emptySince = null;
+      send(socket, { type: "welcome", code: room.code, token: member.token });
+      broadcastLobby(room);
+      const snapshot = snapshotOf(room);
+      if (snapshot) {
+        send(socket, { ...snapshot, events: [] });
+      }
+    },
+    message: (socket, text) => {
+      const room = rooms.get(socket.data.code);
+      const message = parseClientMessage(text);
+      if (!room || !message) {
+        return;
+      }
+      const index = room.members.findIndex(member => member.socket === socket);
+      if (index < 0) {
+        return;
+      }
+      switch (message.type) {
+        case "input":
+          room.members[index]!.controls = message.controls;
+          break;
+        case "ping":
+          send(socket, { type: "pong", sentAt: message.sentAt });
+          break;
+        case "start": {
+          if (index !== hostOf(room) || room.phase === "playing") {
+            return;
+          }
+          const connected = room.members.filter(member => member.socket);
+          if (connected.length < MIN_ROOM_PLAYERS) {
+            send(socket, {
+              type: "error",
+              code: "not-enough-players",
+              message: `At least ${MIN_ROOM_PLAYERS} players are needed to start.`,
+            });
+            return;
+          }
+          startRun(room, performance.now());
+          break;
+        }
+      }
+    },
+    close: socket => {
+      const room = rooms.get(socket.data.code);
+      const member = room?.members.find(
+        candidate => candidate.socket === socket
+      );
+      if (!room || !member) {
+        return;
+      }
+      member.socket = null;
+      // A dropped toaster drifts idle until its owner reconnects; between
+      // runs the seat is simply freed.
+      member.controls = emptyControls();
+      if (room.phase !== "playing") {
+        dropDisconnected(room);
+      }
+      if (!room.members.some(candidate => candidate.socket)) {
+        room.emptySince = performance.now();
+      }
+      broadcastLobby(room);
+    },
+    update,
+    stop: () => {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+      rooms.clear();
+    },
+  };
+};
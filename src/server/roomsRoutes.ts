@@ -0,0 +1,59 @@
+import type { BunRequest, Server } from "bun";
+import { clientKey, tooManyRequests } from "./rateLimit";
+import type { RateLimiter } from "./rateLimit";
+import { MAX_PLAYER_NAME_LENGTH, ROOM_CODE_PATTERN } from "./rooms";
+import type { RoomErrorCode, RoomManager } from "./rooms";
+import type { SocketData } from "./sockets";
+
+const DEFAULT_PLAYER_NAME = "Torradeira";
+
+const errorResponse = (code: RoomErrorCode, error: string, status: number) =>
+  Response.json({ error, code }, { status });
+
+export const createRoomRoutes = ({
+  rooms,
+  createLimiter,
+}: {
+  rooms: RoomManager;
+  createLimiter: RateLimiter;
+}) => ({
+  "/api/rooms": {
+    POST: (req: Request, server: Server<unknown>) => {
+      const retryMs = createLimiter.hit(clientKey(req, server));
+      if (retryMs > 0) {
+        return tooManyRequests(retryMs);
+      }
+      const code = rooms.create();
+      if (!code) {
+        return errorResponse(
+          "server-full",
+          "Every room is taken, try again later.",
+          503
+        );
+      }
+      return Response.json({ code }, { status: 201 });
+    },
+  },
+  // `token` is optional and reclaims a seat after a dropped connection.
+  "/api/rooms/:code/socket": (
+    req: BunRequest<"/api/rooms/:code/socket">,
+    server: Server<SocketData>
+  ) => {
+    const code = req.params.code.toUpperCase();
+    if (!ROOM_CODE_PATTERN.test(code) || !rooms.has(code)) {
+      return errorResponse("room-not-found", "Room not found.", 404);
+    }
+    const params = new URL(req.url).searchParams;
+    const name =
+      (params.get("name") ?? "").trim().slice(0, MAX_PLAYER_NAME_LENGTH) ||
+      DEFAULT_PLAYER_NAME;
+    const token = params.get("token");
+    if (server.upgrade(req, { data: { kind: "room", code, name, token } })) {
+      return undefined;
+    }
+    return Response.json(
+      { error: "Expected a WebSocket upgrade." },
+      { status: 426 }
+    );
+  },
+});
@@ -0,0 +1,196 @@
+import { Database } from "bun:sqlite";
+import type { DifficultyId } from "../game/difficulty";
+
+export type LeaderboardPeriod = "daily" | "weekly" | "all";
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = [
+  "daily",
+  "weekly",
+  "all",
+];
+
+export type ScoreSubmission = {
+  name: string;
+  score: number;
+  maxCombo: number;
+  durationMs: number;
+  difficulty: DifficultyId;
+  // Daily challenge day (YYYY-MM-DD), or null for a regular run. Challenge
+  // runs only show up on their day's board.
+  daily: string | null;
+};
+
+export type ScoreEntry = ScoreSubmission & {
+  id: number;
+  rank: number;
+  createdAt: string;
+};
+
+type ScoreRow = {
+  id: number;
+  name: string;
+  score: number;
+  max_combo: number;
+  duration_ms: number;
+  difficulty: DifficultyId;
+  daily: string | null;
+  created_at: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Boards roll over at UTC midnight, and weeks start on Monday.
+export const periodStart = (period: LeaderboardPeriod, nowMs: number) => {
+  if (period === "all") {
+    return 0;
+  }
+  const day = Math.floor(nowMs / DAY_MS) * DAY_MS;
+  if (period === "daily") {
+    return day;
+  }
+  const weekday = (new Date(day).getUTCDay() + 6) % 7;
+  return day - weekday * DAY_MS;
+};
+
+const toEntry = (row: ScoreRow, rank: number): ScoreEntry => ({
+  id: row.id,
+  rank,
+  name: row.name,
+  score: row.score,
+  maxCombo: row.max_combo,
+  durationMs: row.duration_ms,
+  difficulty: row.difficulty,
+  daily: row.daily,
+  createdAt: new Date(row.created_at).toISOString(),
+});
+
+export type ScoreStore = {
+  // `replay` is the verified replay JSON, kept so top runs can be rewatched.
+  // `playerId` identifies the browser for the one-attempt daily rule.
+  insert: (
+    submission: ScoreSubmission,
+    extra: { replay: string | null; playerId: string | null },
+    nowMs?: number
+  ) => { id: number; rank: number; total: number };
+  hasDailyAttempt: (daily: string, playerId: string) => boolean;
+  // The stored replay JSON of score `id`, or null if there is none.
+  replay: (id: number) => string | null;
+  // With `daily` set, returns that challenge's board and ignores `period`.
+  top: (options: {
+    difficulty: DifficultyId;
+    period: LeaderboardPeriod;
+    daily?: string | null;
+    limit: number;
+    nowMs?: number;
+  }) => ScoreEntry[];
+  close: () => void;
+};
+
+/**
+ * Opens (or creates) the scores database. Pass ":memory:" for a throwaway
+ * store. Ties rank by who got there first.
+ */
+export const createScoreStore = (path: string): ScoreStore => {
+  const db = new Database(path, { create: true });
+  db.run("PRAGMA journal_mode = WAL;");
+  db.run(`
+    CREATE TABLE IF NOT EXISTS scores (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      score INTEGER NOT NULL,
+      max_combo INTEGER NOT NULL,
+      duration_ms INTEGER NOT NULL,
+      difficulty TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    )
+  `);
+  // Older databases predate these columns; add whatever is missing.
+  const columns = db
+    .query<{ name: string }, []>("PRAGMA table_info(scores)")
+    .all()
+    .map(column => column.name);
+  for (const column of ["replay", "daily", "player_id"]) {
+    if (!columns.includes(column)) {
+      db.run(`ALTER TABLE scores ADD COLUMN ${column} TEXT`);
+    }
+  }
+  db.run(
+    "CREATE UNIQUE INDEX IF NOT EXISTS scores_daily_attempt ON scores (daily, player_id) WHERE daily IS NOT NULL"
+  );
+  db.run(
+    "CREATE INDEX IF NOT EXISTS scores_board ON scores (difficulty, score DESC, created_at)"
+  );
+
+  const insertQuery = db.query<
+    { id: number },
+    [
+      string,
+      number,
+      number,
+      number,
+      string,
+      number,
+      string | null,
+      string | null,
+      string | null,
+    ]
+  >(
+    `INSERT INTO scores (name, score, max_combo, duration_ms, difficulty, created_at, replay, daily, player_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING id`
+  );
+  // `daily IS ?4` matches NULL to NULL, so regular and challenge runs rank
+  // on separate boards with one query.
+  const rankQuery = db.query<
+    { ahead: number; total: number },
+    [number, number, string, string | null]
+  >(
+    `SELECT
+       SUM(CASE WHEN score > ?1 OR (score = ?1 AND id < ?2) THEN 1 ELSE 0 END) AS ahead,
+       COUNT(*) AS total
+     FROM scores WHERE difficulty = ?3 AND daily IS ?4`
+  );
+  const topQuery = db.query<ScoreRow, [string, string | null, number, number]>(
+    `SELECT id, name, score, max_combo, duration_ms, difficulty, daily, created_at
+     FROM scores
+     WHERE difficulty = ? AND daily IS ? AND created_at >= ?
+     ORDER BY score DESC, created_at ASC, id ASC
+     LIMIT ?`
+  );
+  const attemptQuery = db.query<{ id: number }, [string, string]>(
+    "SELECT id FROM scores WHERE daily = ? AND player_id = ? LIMIT 1"
+  );
+  const replayQuery = db.query<{ replay: string | null }, [number]>(
+    "SELECT replay FROM scores WHERE id = ?"
+  );
+
+  return {
+    insert: (submission, { replay, playerId }, nowMs = Date.now()) => {
+      const row = insertQuery.get(
+        submission.name,
+        submission.score,
+        submission.maxCombo,
+        submission.durationMs,
+        submission.difficulty,
+        nowMs,
+        replay,
+        submission.daily,
+        playerId
+      )!;
+      const { ahead, total } = rankQuery.get(
+        submission.score,
+        row.id,
+        submission.difficulty,
+        submission.daily
+      )!;
+      return { id: row.id, rank: ahead + 1, total };
+    },
+    hasDailyAttempt: (daily, playerId) =>
+      attemptQuery.get(daily, playerId) !== null,
+    replay: id => replayQuery.get(id)?.replay ?? null,
+    top: ({ difficulty, period, daily = null, limit, nowMs = Date.now() }) =>
+      topQuery
+        .all(difficulty, daily, daily ? 0 : periodStart(period, nowMs), limit)
+        .map((row, index) => toEntry(row, index + 1)),
+    close: () => db.close(),
+  };
+};
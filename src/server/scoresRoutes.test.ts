@@ -0,0 +1,154 @@
+import { describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+
+import { createReplayRecorder } from "../game/replay";
+import { emptyControls } from "../game/simulation";
+import { createRateLimiter } from "./rateLimit";
+import { createScoreStore } from "./scoreStore";
+import {
+  MAX_SCORE_BODY_BYTES,
+  createScoreRoutes,
+  validateSubmission,
+} from "./scoresRoutes";
+import { createVerifyQueue } from "./verifyReplay";
+
+const recordReplay = () => {
+  const recorder = createReplayRecorder(99);
+  recorder.mark("start");
+  for (let tick = 0; tick < 10; tick += 1) {
+    recorder.record([emptyControls()]);
+  }
+  return recorder.finish(0);
+};
+
+const submission = (overrides: Record<string, unknown> = {}) => ({
+  name: "Ana",
+  score: 0,
+  maxCombo: 0,
+  durationMs: 80,
+  difficulty: "normal",
+  replay: recordReplay(),
+  ...overrides,
+});
+
+const rejection = (data: unknown) => {
+  const result = validateSubmission(data);
+  return result.ok ? null : result.error;
+};
+
+describe("validateSubmission", () => {
+  test("accepts a well-formed run", () => {
+    const result = validateSubmission(submission({ name: "  Ana\u0007 " }));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.submission.name).toBe("Ana");
+      expect(result.submission.daily).toBeNull();
+      expect(result.playerId).toBeNull();
+    }
+  });
+
+  test("rejects bodies that are not objects", () => {
+    expect(rejection([])).toBe("Body must be a JSON object.");
+    expect(rejection(null)).toBe("Body must be a JSON object.");
+  });
+
+  test("names the field that is wrong", () => {
+    expect(rejection(submission({ name: "" }))).toStartWith("name");
+    expect(rejection(submission({ score: -1 }))).toStartWith("score");
+    expect(rejection(submission({ score: 2, maxCombo: 3 }))).toStartWith(
+      "maxCombo"
+    );
+    expect(rejection(submission({ durationMs: 1.5 }))).toStartWith(
+      "durationMs"
+    );
+    expect(rejection(submission({ playerId: "short" }))).toStartWith(
+      "playerId"
+    );
+    expect(rejection(submission({ replay: { version: 1 } }))).toStartWith(
+      "replay: "
+    );
+  });
+
+  test("gives each kind of problem a code for the client to word", () => {
+    const codeOf = (data: unknown) => {
+      const result = validateSubmission(data);
+      return result.ok ? null : result.code;
+    };
+    expect(codeOf(submission({ name: "" }))).toBe("invalid-name");
+    expect(codeOf(submission({ score: -1 }))).toBe("invalid-run");
+    expect(codeOf(submission({ replay: null }))).toBe("invalid-replay");
+  });
+
+  test("rejects a difficulty the replay was not played on", () => {
+    expect(rejection(submission({ difficulty: "hard" }))).toBe(
+      "difficulty hard does not match the replay's normal."
+    );
+  });
+});
+
+describe("POST /api/scores", () => {
+  const server = { requestIP: () => null } as unknown as Server<unknown>;
+  const verifyQueue = createVerifyQueue({ concurrency: 1, maxWaiting: 0 });
+  const routes = createScoreRoutes({
+    store: createScoreStore(":memory:"),
+    submitLimiter: createRateLimiter({ limit: 100, windowMs: 60_000 }),
+    readLimiter: createRateLimiter({ limit: 100, windowMs: 60_000 }),
+    verifyQueue,
+  });
+  const post = (body: ReadableStream<Uint8Array> | string) =>
+    routes["/api/scores"].POST(
+      new Request("http://localhost/api/scores", { method: "POST", body }),
+      server
+    );
+
+  // A chunked upload: no Content-Length, just bytes until it stops.
+  let sent = 0;
+  const chunked = (chunks: number, chunkBytes: number) => {
+    sent = 0;
+    return new ReadableStream<Uint8Array>({
+      pull: controller => {
+        if (sent === chunks) {
+          controller.close();
+          return;
+        }
+        sent += 1;
+        controller.enqueue(new Uint8Array(chunkBytes).fill(32));
+      },
+    });
+  };
+
+  test("cuts off a chunked body past the limit", async () => {
+    const response = await post(chunked(1_000, 64 * 1024));
+    expect(response.status).toBe(413);
+    // Cancelled once past the limit rather than read to the end.
+    expect(sent).toBeLessThan(10);
+    expect(await response.json()).toEqual({
+      error: `Body must be at most ${MAX_SCORE_BODY_BYTES} bytes.`,
+      code: "body-too-large",
+    });
+  });
+
+  test("reads a chunked body within the limit", async () => {
+    const response = await post(chunked(2, 1024));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "Body is not valid JSON.",
+      code: "invalid-json",
+    });
+  });
+
+  test("turns runs away while the verifier is busy", async () => {
+    let finish = () => {};
+    const busy = verifyQueue.run(
+      () => new Promise<void>(resolve => (finish = resolve))
+    );
+    const response = await post(JSON.stringify(submission()));
+    expect(response.status).toBe(503);
+    expect((await response.json()).code).toBe("verify-busy");
+    finish();
+    await busy;
+    // Free again: this one is verified, and found to end too early.
+    const retried = await post(JSON.stringify(submission()));
+    expect((await retried.json()).code).toBe("replay-incomplete");
+  });
+});
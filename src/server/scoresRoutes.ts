@@ -0,0 +1,349 @@
+import type { BunRequest, Server } from "bun";
+import { dailyKey, isDailyKey } from "../game/daily";
+import { DIFFICULTY_LABELS } from "../game/difficulty";
+import type { DifficultyId } from "../game/difficulty";
+import { serializeReplay, validateReplay } from "../game/replay";
+import type { Replay } from "../game/replay";
+import { clientKey, tooManyRequests } from "./rateLimit";
+import type { RateLimiter } from "./rateLimit";
+import { LEADERBOARD_PERIODS } from "./scoreStore";
+import { verifyReplay } from "./verifyReplay";
+import type { VerifyFailure, VerifyQueue } from "./verifyReplay";
+import type {
+  LeaderboardPeriod,
+  ScoreStore,
+  ScoreSubmission,
+} from "./scoreStore";
+
+// Room for the run's run-length encoded input log.
+export const MAX_SCORE_BODY_BYTES = 256 * 1024;
+export const MAX_NAME_LENGTH = 16;
+export const DEFAULT_TOP_LIMIT = 10;
+export const MAX_TOP_LIMIT = 100;
+
+// Generous upper bounds; anything beyond them is not a real run.
+const MAX_SCORE = 1_000_000;
+const MAX_DURATION_MS = 24 * 60 * 60 * 1000;
+
+const DIFFICULTY_IDS = Object.keys(DIFFICULTY_LABELS) as DifficultyId[];
+const PLAYER_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+// A challenge run that started just before midnight may finish after it.
+const DAILY_GRACE_MS = 60 * 60 * 1000;
+
+// What went wrong, for the client to word; `error` next to it is the
+// English detail. Rejected replays say why with a VerifyFailure.
+export type ScoreErrorCode =
+  | VerifyFailure
+  | "invalid-query"
+  | "body-too-large"
+  | "invalid-json"
+  | "invalid-name"
+  | "invalid-run"
+  | "invalid-replay"
+  | "daily-closed"
+  | "daily-taken"
+  | "replay-not-found"
+  | "verify-busy";
+
+const badRequest = (code: ScoreErrorCode, error: string, status = 400) =>
+  Response.json({ error, code }, { status });
+
+const isCount = (value: unknown, max: number): value is number =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= 0 &&
+  value <= max;
+
+/**
+ * Checks a decoded POST body. Returns the cleaned submission or an error
+ * message naming the offending field.
+ */
+export const validateSubmission = (
+  data: unknown
+):
+  | {
+      ok: true;
+      submission: ScoreSubmission;
+      replay: Replay;
+      playerId: string | null;
+    }
+  | { ok: false; code: ScoreErrorCode; error: string } => {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return {
+      ok: false,
+      code: "invalid-run",
+      error: "Body must be a JSON object.",
+    };
+  }
+  const raw = data as Record<string, unknown>;
+  const name =
+    typeof raw.name === "string"
+      ? raw.name.replace(/[\u0000-\u001f\u007f]/g, "").trim()
+      : "";
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+    return {
+      ok: false,
+      code: "invalid-name",
+      error: `name must be 1 to ${MAX_NAME_LENGTH} characters.`,
+    };
+  }
+  if (!isCount(raw.score, MAX_SCORE)) {
+    return {
+      ok: false,
+      code: "invalid-run",
+      error: `score must be an integer from 0 to ${MAX_SCORE}.`,
+    };
+  }
+  if (!isCount(raw.maxCombo, raw.score)) {
+    return {
+      ok: false,
+      code: "invalid-run",
+      error: "maxCombo must be an integer no larger than score.",
+    };
+  }
+  if (!isCount(raw.durationMs, MAX_DURATION_MS)) {
+    return {
+      ok: false,
+      code: "invalid-run",
+      error: `durationMs must be an integer from 0 to ${MAX_DURATION_MS}.`,
+    };
+  }
+  if (!DIFFICULTY_IDS.includes(raw.difficulty as DifficultyId)) {
+    return {
+      ok: false,
+      code: "invalid-run",
+      error: `difficulty must be one of ${DIFFICULTY_IDS.join(", ")}.`,
+    };
+  }
+  if (
+    raw.playerId !== undefined &&
+    !PLAYER_ID_PATTERN.test(String(raw.playerId))
+  ) {
+    return {
+      ok: false,
+      code: "invalid-run",
+      error: "playerId must be 8 to 64 letters, digits or dashes.",
+    };
+  }
+  const playerId = raw.playerId === undefined ? null : String(raw.playerId);
+  let replay: Replay;
+  try {
+    replay = validateReplay(raw.replay);
+  } catch (error) {
+    return {
+      ok: false,
+      code: "invalid-replay",
+      error: `replay: ${error instanceof Error ? error.message : "invalid."}`,
+    };
+  }
+  if (replay.difficulty.id !== raw.difficulty) {
+    return {
+      ok: false,
+      code: "invalid-replay",
+      error: `difficulty ${raw.difficulty} does not match the replay's ${replay.difficulty.id}.`,
+    };
+  }
+  if (replay.daily && !playerId) {
+    return {
+      ok: false,
+      code: "invalid-run",
+      error: "Daily challenge runs need a playerId.",
+    };
+  }
+  return {
+    ok: true,
+    replay,
+    playerId,
+    submission: {
+      name,
+      score: raw.score,
+      maxCombo: raw.maxCombo,
+      durationMs: raw.durationMs,
+      difficulty: raw.difficulty as DifficultyId,
+      daily: replay.daily ?? null,
+    },
+  };
+};
+
+// Reads the body without trusting Content-Length alone: chunked uploads
+// do not send one, so bytes are counted as they arrive and the upload is
+// cancelled as soon as it passes the limit.
+const readLimitedBody = async (req: Request) => {
+  const declared = Number(req.headers.get("content-length") ?? 0);
+  if (declared > MAX_SCORE_BODY_BYTES) {
+    return null;
+  }
+  if (!req.body) {
+    return "";
+  }
+  const reader = req.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return text + decoder.decode();
+    }
+    size += value.byteLength;
+    if (size > MAX_SCORE_BODY_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+};
+
+export const createScoreRoutes = ({
+  store,
+  submitLimiter,
+  readLimiter,
+  verifyQueue,
+}: {
+  store: ScoreStore;
+  submitLimiter: RateLimiter;
+  readLimiter: RateLimiter;
+  verifyQueue: VerifyQueue;
+}) => ({
+  "/api/scores": {
+    GET: (req: Request, server: Server<unknown>) => {
+      const retryMs = readLimiter.hit(clientKey(req, server));
+      if (retryMs > 0) {
+        return tooManyRequests(retryMs);
+      }
+      const params = new URL(req.url).searchParams;
+      const period = (params.get("period") ?? "all") as LeaderboardPeriod;
+      if (!LEADERBOARD_PERIODS.includes(period)) {
+        return badRequest(
+          "invalid-query",
+          `period must be one of ${LEADERBOARD_PERIODS.join(", ")}.`
+        );
+      }
+      const difficulty = (params.get("difficulty") ?? "normal") as DifficultyId;
+      if (!DIFFICULTY_IDS.includes(difficulty)) {
+        return badRequest(
+          "invalid-query",
+          `difficulty must be one of ${DIFFICULTY_IDS.join(", ")}.`
+        );
+      }
+      const daily = params.get("daily");
+      if (daily !== null && !isDailyKey(daily)) {
+        return badRequest("invalid-query", "daily must be a YYYY-MM-DD date.");
+      }
+      const limit = Number(params.get("limit") ?? DEFAULT_TOP_LIMIT);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TOP_LIMIT) {
+        return badRequest(
+          "invalid-query",
+          `limit must be an integer from 1 to ${MAX_TOP_LIMIT}.`
+        );
+      }
+      return Response.json({
+        period,
+        difficulty,
+        daily,
+        scores: store.top({ difficulty, period, daily, limit }),
+      });
+    },
+    POST: async (req: Request, server: Server<unknown>) => {
+      const retryMs = submitLimiter.hit(clientKey(req, server));
+      if (retryMs > 0) {
+        return tooManyRequests(retryMs);
+      }
+      const text = await readLimitedBody(req);
+      if (text === null) {
+        return badRequest(
+          "body-too-large",
+          `Body must be at most ${MAX_SCORE_BODY_BYTES} bytes.`,
+          413
+        );
+      }
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch {
+        return badRequest("invalid-json", "Body is not valid JSON.");
+      }
+      const result = validateSubmission(data);
+      if (!result.ok) {
+        return badRequest(result.code, result.error);
+      }
+      const { daily } = result.submission;
+      const dailyTaken = () =>
+        !!daily && store.hasDailyAttempt(daily, result.playerId!);
+      const alreadyRanked = () =>
+        badRequest(
+          "daily-taken",
+          `Only one ranked attempt per day: ${daily} is already on the board.`,
+          409
+        );
+      if (daily) {
+        const nowMs = Date.now();
+        if (
+          daily !== dailyKey(nowMs) &&
+          daily !== dailyKey(nowMs - DAILY_GRACE_MS)
+        ) {
+          return badRequest(
+            "daily-closed",
+            `The ${daily} daily challenge is closed.`,
+            422
+          );
+        }
+        if (dailyTaken()) {
+          return alreadyRanked();
+        }
+      }
+      const verifying = verifyQueue.run(() =>
+        verifyReplay(result.replay, result.submission)
+      );
+      if (!verifying) {
+        return badRequest(
+          "verify-busy",
+          "Too many runs are being verified, try again shortly.",
+          503
+        );
+      }
+      const verification = await verifying;
+      if (!verification.ok) {
+        return badRequest(
+          verification.code,
+          `Score rejected: ${verification.reason}`,
+          422
+        );
+      }
+      // Verification yields, so the same attempt may have been ranked by a
+      // parallel request in the meantime.
+      if (dailyTaken()) {
+        return alreadyRanked();
+      }
+      const { id, rank, total } = store.insert(result.submission, {
+        replay: serializeReplay(result.replay),
+        playerId: result.playerId,
+      });
+      return Response.json({ id, rank, total }, { status: 201 });
+    },
+  },
+  // The verified replay of a ranked run, so top runs can be raced as ghosts.
+  "/api/scores/:id/replay": {
+    GET: (
+      req: BunRequest<"/api/scores/:id/replay">,
+      server: Server<unknown>
+    ) => {
+      const retryMs = readLimiter.hit(clientKey(req, server));
+      if (retryMs > 0) {
+        return tooManyRequests(retryMs);
+      }
+      const id = Number(req.params.id);
+      const replay = Number.isSafeInteger(id) ? store.replay(id) : null;
+      if (replay === null) {
+        return badRequest(
+          "replay-not-found",
+          "No replay stored for that score.",
+          404
+        );
+      }
+      return new Response(replay, {
+        headers: { "Content-Type": "application/json" },
+      });
+    },
+  },
+});
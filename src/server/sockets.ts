@@ -0,0 +1,51 @@
+import type { ServerWebSocket, WebSocketHandler } from "bun";
+import { MAX_BROADCAST_MESSAGE_BYTES } from "./broadcasts";
+import type { BroadcastHub, BroadcastSocketData } from "./broadcasts";
+import type { RoomManager, RoomSocketData } from "./rooms";
+
+// Room frames are a few dozen bytes; anything near this is not ours.
+export const MAX_ROOM_MESSAGE_BYTES = 1024;
+
+// Bun has one WebSocket handler per server; `kind` says which feature a
+// socket was upgraded for.
+export type SocketData = RoomSocketData | BroadcastSocketData;
+
+type Socket = ServerWebSocket<SocketData>;
+
+const isRoomSocket = (
+  socket: Socket
+): socket is ServerWebSocket<RoomSocketData> => socket.data.kind === "room";
+
+export const createSocketHandler = ({
+  rooms,
+  broadcasts,
+}: {
+  rooms: RoomManager;
+  broadcasts: BroadcastHub;
+}): WebSocketHandler<SocketData> => ({
+  maxPayloadLength: MAX_BROADCAST_MESSAGE_BYTES,
+  open: socket => {
+    if (isRoomSocket(socket)) {
+      rooms.open(socket);
+    } else {
+      broadcasts.open(socket as ServerWebSocket<BroadcastSocketData>);
+    }
+  },
+  message: (socket, message) => {
+    const text = typeof message === "string" ? message : message.toString();
+    if (isRoomSocket(socket)) {
+      if (text.length <= MAX_ROOM_MESSAGE_BYTES) {
+        rooms.message(socket, text);
+      }
+    } else {
+      broadcasts.message(socket as ServerWebSocket<BroadcastSocketData>, text);
+    }
+  },
+  close: socket => {
+    if (isRoomSocket(socket)) {
+      rooms.close(socket);
+    } else {
+      broadcasts.close(socket as ServerWebSocket<BroadcastSocketData>);
+    }
+  },
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+
+import { TICK_SECONDS } from "../game/constants";
+import { presetDifficulty } from "../game/difficulty";
+import { createReplayRecorder } from "../game/replay";
+import { createRng } from "../game/rng";
+import { createGameState, emptyControls, stepGame } from "../game/simulation";
+import { createVerifyQueue, verifyReplay } from "./verifyReplay";
+
+// Plays a Nightmare run (one life, escapes count) to its end, shooting in
+// bursts, the way the client records one.
+const playRun = () => {
+  const difficulty = presetDifficulty("nightmare");
+  const recorder = createReplayRecorder(2024, { difficulty });
+  let state = createGameState({ difficulty: difficulty.values });
+  const rng = createRng(recorder.seed);
+  recorder.mark("start");
+  while (!state.outcome) {
+    const controls = [{ ...emptyControls(), shoot: recorder.tick % 90 < 45 }];
+    recorder.record(controls);
+    state = stepGame(state, controls, rng, TICK_SECONDS).state;
+  }
+  recorder.mark("gameover");
+  return {
+    replay: recorder.finish(state.score),
+    claim: {
+      score: state.score,
+      maxCombo: state.maxCombo,
+      durationMs: Math.round(state.timeMs),
+    },
+  };
+};
+
+describe("verifyReplay", () => {
+  test("accepts a run that was really played", async () => {
+    const { replay, claim } = playRun();
+    expect(await verifyReplay(replay, claim)).toEqual({
+      ok: true,
+      result: claim,
+    });
+  });
+
+  test("lets timers run while it re-simulates", async () => {
+    const { replay, claim } = playRun();
+    let timerRan = false;
+    setTimeout(() => (timerRan = true), 0);
+    const pending = verifyReplay(replay, claim);
+    expect(timerRan).toBe(false);
+    await pending;
+    expect(timerRan).toBe(true);
+  });
+
+  test("rejects a score the replay does not produce", async () => {
+    const { replay, claim } = playRun();
+    const forged = { ...claim, score: claim.score + 5 };
+    const verification = await verifyReplay(
+      { ...replay, score: forged.score },
+      forged
+    );
+    expect(verification).toEqual({
+      ok: false,
+      code: "score-mismatch",
+      reason: `Score mismatch: claimed ${forged.score}, the replay produces ${claim.score}.`,
+    });
+  });
+
+  test("rejects a replay cut off before the run ended", async () => {
+    const { replay, claim } = playRun();
+    const verification = await verifyReplay(
+      { ...replay, inputs: replay.inputs.slice(0, 2) },
+      claim
+    );
+    expect(verification).toEqual({
+      ok: false,
+      code: "replay-incomplete",
+      reason: "Replay ends before the run is over.",
+    });
+  });
+
+  test("rejects runs longer than the tick cap", async () => {
+    const { replay, claim } = playRun();
+    const verification = await verifyReplay(replay, claim, { maxTicks: 10 });
+    expect(verification.ok).toBe(false);
+  });
+});
+
+describe("createVerifyQueue", () => {
+  test("runs a second verification only after the first", async () => {
+    const queue = createVerifyQueue({ concurrency: 1, maxWaiting: 1 });
+    const order: string[] = [];
+    const first = queue.run(async () => {
+      order.push("first start");
+      await new Promise(resolve => setTimeout(resolve, 5));
+      order.push("first end");
+    });
+    const second = queue.run(async () => {
+      order.push("second start");
+    });
+    expect(first).not.toBeNull();
+    expect(second).not.toBeNull();
+    await Promise.all([first, second]);
+    expect(order).toEqual(["first start", "first end", "second start"]);
+  });
+
+  test("turns work away once the line is full", async () => {
+    const queue = createVerifyQueue({ concurrency: 1, maxWaiting: 1 });
+    const { replay, claim } = playRun();
+    const running = queue.run(() => verifyReplay(replay, claim));
+    const waiting = queue.run(() => verifyReplay(replay, claim));
+    expect(queue.run(() => verifyReplay(replay, claim))).toBeNull();
+    expect((await running)?.ok).toBe(true);
+    expect((await waiting)?.ok).toBe(true);
+    // The line has drained, so work is taken again.
+    expect(await queue.run(() => verifyReplay(replay, claim))).toMatchObject({
+      ok: true,
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { TICK_HZ, TICK_SECONDS } from "../game/constants";
+import { findLevel } from "../game/levels";
+import { decodeControls, replayTickCount } from "../game/replay";
+import type { Replay } from "../game/replay";
+import { createRng } from "../game/rng";
+import { createGameState, stepGame } from "../game/simulation";
+
+// Longest run we rank: half an hour of play.
+export const MAX_VERIFY_TICKS = TICK_HZ * 60 * 30;
+// A busy late-game tick measures about 10µs on one server core; this
+// assumes half that speed, so a run under the tick cap never runs out of
+// budget on a slower or loaded host.
+export const VERIFY_TICKS_PER_MS = 50;
+// Time one submission may spend re-simulating, not counting the pauses it
+// takes to let the rest of the server run: about 4.3s.
+export const VERIFY_BUDGET_MS = MAX_VERIFY_TICKS / VERIFY_TICKS_PER_MS;
+// Ticks simulated between yields to the event loop, about 2.5ms of work,
+// so rooms keep their tick rate while a submission is checked.
+const SLICE_TICKS = 256;
+
+const yieldToEventLoop = () =>
+  new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export type VerifyQueue = {
+  // Runs `task` once a slot is free, or returns null right away when the
+  // waiting line is full.
+  run: <T>(task: () => Promise<T>) => Promise<T> | null;
+};
+
+/**
+ * Caps how many replays are re-simulated at once across every client.
+ * Slices of concurrent verifications share the one core with the rooms'
+ * loop, so past `concurrency` they wait in line, and past `maxWaiting`
+ * they are turned away.
+ */
+export const createVerifyQueue = ({
+  concurrency,
+  maxWaiting,
+}: {
+  concurrency: number;
+  maxWaiting: number;
+}): VerifyQueue => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = () =>
+    new Promise<void>(resolve => {
+      if (active < concurrency) {
+        active += 1;
+        resolve();
+      } else {
+        waiting.push(() => {
+          active += 1;
+          resolve();
+        });
+      }
+    });
+
+  const release = () => {
+    active -= 1;
+    waiting.shift()?.();
+  };
+
+  return {
+    run: task => {
+      if (active >= concurrency && waiting.length >= maxWaiting) {
+        return null;
+      }
+      return acquire().then(task).finally(release);
+    },
+  };
+};
+
+export type RunClaim = {
+  score: number;
+  maxCombo: number;
+  durationMs: number;
+};
+
+// Why a replay was turned down, for the client to word; `reason` is the
+// English detail.
+export type VerifyFailure =
+  | "run-too-long"
+  | "mode-not-ranked"
+  | "coop-not-ranked"
+  | "level-not-ranked"
+  | "score-mismatch"
+  | "verify-timeout"
+  | "replay-incomplete"
+  | "combo-mismatch"
+  | "duration-mismatch";
+
+export type Verification =
+  | { ok: true; result: RunClaim }
+  | { ok: false; code: VerifyFailure; reason: string };
+
+const sameLevel = (replay: Replay) => {
+  if (!replay.level) {
+    return true;
+  }
+  const builtIn = findLevel(replay.level.id);
+  return !!builtIn && JSON.stringify(builtIn) === JSON.stringify(replay.level);
+};
+
+/**
+ * Re-runs a submitted replay with the real simulation and checks that it
+ * ends where the client says it did. Inputs are walked straight from the
+ * run-length pairs so a forged tick count cannot allocate a huge array,
+ * and the work is sliced so it never holds the event loop for long.
+ */
+export const verifyReplay = async (
+  replay: Replay,
+  claim: RunClaim,
+  { budgetMs = VERIFY_BUDGET_MS, maxTicks = MAX_VERIFY_TICKS } = {}
+): Promise<Verification> => {
+  const ticks = replayTickCount(replay);
+  if (ticks > maxTicks) {
+    return {
+      ok: false,
+      code: "run-too-long",
+      reason: `Replay has ${ticks} ticks; runs longer than ${maxTicks} are not ranked.`,
+    };
+  }
+  if (replay.mode) {
+    return {
+      ok: false,
+      code: "mode-not-ranked",
+      reason: "Only endless runs are ranked.",
+    };
+  }
+  if (replay.coop) {
+    return {
+      ok: false,
+      code: "coop-not-ranked",
+      reason: "Co-op runs are not ranked.",
+    };
+  }
+  if (!sameLevel(replay)) {
+    return {
+      ok: false,
+      code: "level-not-ranked",
+      reason: "Only built-in levels are ranked.",
+    };
+  }
+  if (replay.score !== claim.score) {
+    return {
+      ok: false,
+      code: "score-mismatch",
+      reason: `Replay says ${replay.score} kills but the submission claims ${claim.score}.`,
+    };
+  }
+
+  let spentMs = 0;
+  let sliceStart = performance.now();
+  let state = createGameState({
+    level: replay.level,
+    difficulty: replay.difficulty.values,
+  });
+  const rng = createRng(replay.seed);
+  let tick = 0;
+  for (let i = 0; i < replay.inputs.length; i += 2) {
+    const controls = decodeControls(replay.inputs[i]!);
+    const count = replay.inputs[i + 1]!;
+    for (let n = 0; n < count && !state.outcome; n += 1) {
+      state = stepGame(state, controls, rng, TICK_SECONDS).state;
+      tick += 1;
+      if (tick % SLICE_TICKS === 0) {
+        spentMs += performance.now() - sliceStart;
+        if (spentMs > budgetMs) {
+          return {
+            ok: false,
+            code: "verify-timeout",
+            reason: `Verification ran out of time after ${tick} of ${ticks} ticks.`,
+          };
+        }
+        await yieldToEventLoop();
+        sliceStart = performance.now();
+      }
+    }
+  }
+
+  const result: RunClaim = {
+    score: state.score,
+    maxCombo: state.maxCombo,
+    durationMs: Math.round(state.timeMs),
+  };
+  if (!state.outcome) {
+    return {
+      ok: false,
+      code: "replay-incomplete",
+      reason: "Replay ends before the run is over.",
+    };
+  }
+  if (result.score !== claim.score) {
+    return {
+      ok: false,
+      code: "score-mismatch",
+      reason: `Score mismatch: claimed ${claim.score}, the replay produces ${result.score}.`,
+    };
+  }
+  if (result.maxCombo !== claim.maxCombo) {
+    return {
+      ok: false,
+      code: "combo-mismatch",
+      reason: `Combo mismatch: claimed ${claim.maxCombo}, the replay produces ${result.maxCombo}.`,
+    };
+  }
+  if (result.durationMs !== claim.durationMs) {
+    return {
+      ok: false,
+      code: "duration-mismatch",
+      reason: `Duration mismatch: claimed ${claim.durationMs}ms, the replay lasts ${result.durationMs}ms.`,
+    };
+  }
+  return { ok: true, result };
+};
@@ -0,0 +1,153 @@
+// Horizontal strip of equally sized frames.
+export type SpriteSheet = {
+  image: HTMLImageElement | HTMLCanvasElement;
+  frameWidth: number;
+  frameHeight: number;
+  frameCount: number;
+  fps: number;
+  // Room on the left of every frame that is drawn outside the sprite's box,
+  // e.g. an exhaust flame trailing behind it.
+  marginLeft: number;
+};
+
+// How to build a sheet from a single still until real frames are drawn:
+// "spin" turns it a full circle, "thrust" adds a flickering exhaust.
+export type SheetBake = "spin" | "thrust";
+
+const THRUST_LENGTH = 18;
+const THRUST_FLICKER = [1, 0.7, 0.9, 0.55];
+
+const createStrip = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext("2d")! };
+};
+
+export const sheetFromStrip = (
+  image: HTMLImageElement,
+  frameCount: number,
+  fps: number
+): SpriteSheet => ({
+  image,
+  frameWidth: image.naturalWidth / frameCount,
+  frameHeight: image.naturalHeight,
+  frameCount,
+  fps,
+  marginLeft: 0,
+});
+
+export const bakeSheet = (
+  image: HTMLImageElement,
+  bake: SheetBake,
+  frameCount: number,
+  fps: number
+): SpriteSheet => {
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  if (bake === "spin") {
+    const { canvas, ctx } = createStrip(width * frameCount, height);
+    for (let frame = 0; frame < frameCount; frame += 1) {
+      ctx.save();
+      ctx.translate(frame * width + width / 2, height / 2);
+      ctx.rotate((frame / frameCount) * Math.PI * 2);
+      ctx.drawImage(image, -width / 2, -height / 2);
+      ctx.restore();
+    }
+    return {
+      image: canvas,
+      frameWidth: width,
+      frameHeight: height,
+      frameCount,
+      fps,
+      marginLeft: 0,
+    };
+  }
+
+  const frameWidth = width + THRUST_LENGTH;
+  const { canvas, ctx } = createStrip(frameWidth * frameCount, height);
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    const left = frame * frameWidth;
+    const length =
+      THRUST_LENGTH * THRUST_FLICKER[frame % THRUST_FLICKER.length]!;
+    const centerY = height / 2;
+    const gradient = ctx.createLinearGradient(
+      left + THRUST_LENGTH,
+      0,
+      left + THRUST_LENGTH - length,
+      0
+    );
+    gradient.addColorStop(0, "rgba(255, 214, 120, 0.95)");
+    gradient.addColorStop(1, "rgba(240, 138, 91, 0)");
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.moveTo(left + THRUST_LENGTH, centerY - height * 0.16);
+    ctx.lineTo(left + THRUST_LENGTH - length, centerY);
+    ctx.lineTo(left + THRUST_LENGTH, centerY + height * 0.16);
+    ctx.closePath();
+    ctx.fill();
+    ctx.drawImage(image, left + THRUST_LENGTH, 0);
+  }
+  return {
+    image: canvas,
+    frameWidth,
+    frameHeight: height,
+    frameCount,
+    fps,
+    marginLeft: THRUST_LENGTH,
+  };
+};
+
+// Where the frame of `sheet` showing at `timeMs` is cut from the strip, and
+// where it lands for a sprite whose box is `x, y, width, height`.
+export const spriteRect = (
+  sheet: SpriteSheet,
+  timeMs: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  phase = 0
+) => {
+  const frame =
+    Math.floor((timeMs / 1000) * sheet.fps + phase) % sheet.frameCount;
+  const scale = width / (sheet.frameWidth - sheet.marginLeft);
+  return {
+    sourceX: frame * sheet.frameWidth,
+    sourceWidth: sheet.frameWidth,
+    sourceHeight: sheet.frameHeight,
+    x: x - sheet.marginLeft * scale,
+    y,
+    width: sheet.frameWidth * scale,
+    height,
+  };
+};
+
+/**
+ * Draws the frame of `sheet` showing at `timeMs` into the sprite's box.
+ * `phase` offsets the animation in frames, so neighbours do not move in
+ * lockstep. Time is the run clock, so replays animate the same way.
+ */
+export const drawSprite = (
+  ctx: CanvasRenderingContext2D,
+  sheet: SpriteSheet,
+  timeMs: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  phase = 0
+) => {
+  const rect = spriteRect(sheet, timeMs, x, y, width, height, phase);
+  ctx.drawImage(
+    sheet.image,
+    rect.sourceX,
+    0,
+    rect.sourceWidth,
+    rect.sourceHeight,
+    rect.x,
+    rect.y,
+    rect.width,
+    rect.height
+  );
+};
@@ -0,0 +1,173 @@
+import { HEIGHT, SLOW_MULTIPLIER, WIDTH } from "./game/constants";
+import { enemySpeed } from "./game/entities";
+import { rampScore } from "./game/modes";
+import { isEffectActive } from "./game/powerUps";
+import { createRng } from "./game/rng";
+import type { Rng } from "./game/rng";
+import type { GameState } from "./game/types";
+
+type StarLayer = {
+  // Fraction of the enemies' speed this layer scrolls at.
+  parallax: number;
+  count: number;
+  size: [number, number];
+  alpha: [number, number];
+};
+
+// Back to front. Nearer layers have fewer, bigger and brighter stars.
+const STAR_LAYERS: StarLayer[] = [
+  { parallax: 0.12, count: 140, size: [0.5, 1.2], alpha: [0.3, 0.6] },
+  { parallax: 0.3, count: 70, size: [1, 1.8], alpha: [0.5, 0.8] },
+  { parallax: 0.6, count: 30, size: [1.5, 2.5], alpha: [0.7, 1] },
+];
+const IMAGE_PARALLAX = 0.04;
+// Planets and nebulae sit on a strip several screens wide, so one only
+// drifts by every so often.
+const DISTANT_PARALLAX = 0.08;
+const DISTANT_SCREENS = 3;
+const PLANET_COLORS = ["#c9705a", "#6f8fc9", "#b7a06a", "#7fb59a"];
+const NEBULA_COLORS = ["88, 211, 192", "226, 93, 111", "150, 110, 220"];
+// A jump in the run clock bigger than this (a seek, a new run) moves the
+// backdrop by nothing rather than by a sudden lurch.
+const MAX_STEP_MS = 250;
+
+type Layer = { canvas: HTMLCanvasElement; parallax: number };
+
+const between = (rng: Rng, min: number, max: number) =>
+  min + rng.next() * (max - min);
+
+const pick = <T>(rng: Rng, items: T[]) =>
+  items[Math.floor(rng.next() * items.length)]!;
+
+const createLayerCanvas = (width: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = HEIGHT;
+  return canvas;
+};
+
+// The image followed by its mirror image, so the strip loops without a seam.
+const paintImageLayer = (background: HTMLImageElement): Layer => {
+  const canvas = createLayerCanvas(WIDTH * 2);
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(background, 0, 0, WIDTH, HEIGHT);
+  ctx.save();
+  ctx.translate(WIDTH * 2, 0);
+  ctx.scale(-1, 1);
+  ctx.drawImage(background, 0, 0, WIDTH, HEIGHT);
+  ctx.restore();
+  return { canvas, parallax: IMAGE_PARALLAX };
+};
+
+const paintDistantLayer = (rng: Rng): Layer => {
+  const width = WIDTH * DISTANT_SCREENS;
+  const canvas = createLayerCanvas(width);
+  const ctx = canvas.getContext("2d")!;
+  for (let screen = 0; screen < DISTANT_SCREENS; screen += 1) {
+    // Most screens get a nebula, about half a planet.
+    if (rng.next() < 0.7) {
+      const color = pick(rng, NEBULA_COLORS);
+      const centerX = screen * WIDTH + between(rng, 0.2, 0.8) * WIDTH;
+      const centerY = between(rng, 0.2, 0.8) * HEIGHT;
+      for (let puff = 0; puff < 5; puff += 1) {
+        const x = centerX + between(rng, -120, 120);
+        const y = centerY + between(rng, -60, 60);
+        const radius = between(rng, 60, 140);
+        const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+        gradient.addColorStop(0, `rgba(${color}, 0.12)`);
+        gradient.addColorStop(1, `rgba(${color}, 0)`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+      }
+    }
+    if (rng.next() < 0.5) {
+      const color = pick(rng, PLANET_COLORS);
+      const x = screen * WIDTH + between(rng, 0.15, 0.85) * WIDTH;
+      const y = between(rng, 0.15, 0.85) * HEIGHT;
+      const radius = between(rng, 14, 42);
+      // Lit from the upper left.
+      const gradient = ctx.createRadialGradient(
+        x - radius * 0.4,
+        y - radius * 0.4,
+        radius * 0.1,
+        x,
+        y,
+        radius
+      );
+      gradient.addColorStop(0, color);
+      gradient.addColorStop(1, "rgba(15, 17, 25, 0.95)");
+      ctx.globalAlpha = 0.75;
+      ctx.fillStyle = gradient;
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.globalAlpha = 1;
+    }
+  }
+  return { canvas, parallax: DISTANT_PARALLAX };
+};
+
+const paintStarLayer = (rng: Rng, layer: StarLayer): Layer => {
+  const canvas = createLayerCanvas(WIDTH);
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#f8f1e7";
+  for (let i = 0; i < layer.count; i += 1) {
+    const size = between(rng, ...layer.size);
+    ctx.globalAlpha = between(rng, ...layer.alpha);
+    ctx.fillRect(rng.next() * WIDTH, rng.next() * HEIGHT, size, size);
+  }
+  return { canvas, parallax: layer.parallax };
+};
+
+// Backdrop speed: the same one enemies fly at, so a faster run feels faster.
+const scrollSpeed = (state: GameState) =>
+  enemySpeed(rampScore(state), state.difficulty) *
+  (isEffectActive(state, "slow") ? SLOW_MULTIPLIER : 1);
+
+// One layer of the backdrop this frame: `canvas` is drawn at -offset and
+// again right after it, so the strip wraps around.
+export type BackdropLayer = {
+  canvas: HTMLCanvasElement;
+  offset: number;
+};
+
+/**
+ * Scrolls the backdrop: the background image, distant planets and nebulae,
+ * and star layers at different depths. Layers are painted once per seed into
+ * offscreen canvases, so the same run always gets the same sky and a frame
+ * only costs a few image copies. The scroll is advanced from the run clock,
+ * so it stops when the run is paused. Returns the layers back to front.
+ */
+export const createStarfield = (background: HTMLImageElement) => {
+  const image = paintImageLayer(background);
+  let seed: number | null = null;
+  let layers: Layer[] = [];
+  let scroll = 0;
+  let lastTimeMs = 0;
+
+  const reseed = (next: number) => {
+    seed = next;
+    const rng = createRng(next);
+    layers = [
+      image,
+      paintDistantLayer(rng),
+      ...STAR_LAYERS.map(layer => paintStarLayer(rng, layer)),
+    ];
+    scroll = 0;
+  };
+
+  return (state: GameState, runSeed: number): BackdropLayer[] => {
+    if (runSeed !== seed) {
+      reseed(runSeed);
+    }
+    const stepMs = state.timeMs - lastTimeMs;
+    lastTimeMs = state.timeMs;
+    if (stepMs > 0 && stepMs <= MAX_STEP_MS) {
+      scroll += (scrollSpeed(state) * stepMs) / 1000;
+    }
+    return layers.map(layer => ({
+      canvas: layer.canvas,
+      offset: (scroll * layer.parallax) % layer.canvas.width,
+    }));
+  };
+};
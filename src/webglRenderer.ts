@@ -0,0 +1,996 @@
+import { FLOATER_FONT } from "./effects";
+import { HEIGHT, WIDTH } from "./game/constants";
+import { BOSS_WEAK_POINTS, isWeakPointOpen, weakPointShape } from "./game/boss";
+import { POWERUPS, isEffectActive } from "./game/powerUps";
+import { HUD_FONT, HUD_FONT_SIZE, hudItems } from "./hud";
+import type { GameView, GhostView, Renderer, SceneAssets } from "./renderer";
+import { spriteRect } from "./sprites";
+import type { SpriteSheet } from "./sprites";
+import { createStarfield } from "./starfield";
+import type { Boss, Enemy, EnemyBullet, Player, PowerUp } from "./game/types";
+
+// One flush draws at most this many quads; 16-bit indices cap it at 16384.
+const MAX_QUADS = 4096;
+// x, y, u, v, r, g, b, a, four mode parameters, mode.
+const FLOATS_PER_VERTEX = 13;
+const GHOST_ALPHA = 0.35;
+const LABEL_FONT = 'bold 14px "JetBrains Mono", "Space Grotesk", sans-serif';
+const LABEL_FONT_SIZE = 14;
+const LABEL_PADDING = 2;
+// Text is baked into small textures; HUD numbers change often, so only the
+// most recently drawn ones are kept.
+const MAX_LABELS = 128;
+// Textures nobody drew for this many frames are freed, e.g. the starfield
+// of a previous seed.
+const TEXTURE_IDLE_FRAMES = 300;
+const POWERUP_GLOW_PERIOD_MS = 900;
+
+// How the fragment shader fills a quad. Sprite modes sample the bound
+// texture; the flags can be combined.
+const MODE = {
+  sprite: 0,
+  hueFlag: 1,
+  chromaFlag: 2,
+  ellipse: 4,
+  ring: 5,
+  rect: 6,
+  frame: 7,
+  glow: 8,
+  sector: 9,
+};
+
+const VERTEX_SHADER = `#version 300 es
+uniform vec2 u_resolution;
+in vec2 a_position;
+in vec2 a_uv;
+in vec4 a_color;
+in vec4 a_params;
+in float a_mode;
+out vec2 v_uv;
+out vec4 v_color;
+out vec4 v_params;
+flat out int v_mode;
+
+void main() {
+  vec2 clip = a_position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_uv = a_uv;
+  v_color = a_color;
+  v_params = a_params;
+  v_mode = int(a_mode + 0.5);
+}
+`;
+
+// Sprites: v_params is the frame's uv box, so neighbouring frames never
+// bleed in. Shapes: v_uv runs -1..1 across the quad, v_params.xy is its
+// half size in pixels and v_params.zw depends on the shape.
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+uniform sampler2D u_texture;
+in vec2 v_uv;
+in vec4 v_color;
+in vec4 v_params;
+flat in int v_mode;
+out vec4 outColor;
+
+const float PI = 3.14159265;
+// P2's recolor, as CSS hue-rotate(150deg).
+const float HUE_ANGLE = 2.61799;
+
+vec4 frameTexel(vec2 uv) {
+  return texture(u_texture, clamp(uv, v_params.xy, v_params.zw));
+}
+
+// Linear, so it works on premultiplied colors as long as it is clamped to
+// the texel's alpha.
+vec3 rotateHue(vec3 color, float alpha) {
+  float c = cos(HUE_ANGLE);
+  float s = sin(HUE_ANGLE);
+  mat3 m = mat3(
+    0.213 + c * 0.787 - s * 0.213,
+    0.213 - c * 0.213 + s * 0.143,
+    0.213 - c * 0.213 - s * 0.787,
+    0.715 - c * 0.715 - s * 0.715,
+    0.715 + c * 0.285 + s * 0.140,
+    0.715 - c * 0.715 + s * 0.715,
+    0.072 - c * 0.072 + s * 0.928,
+    0.072 - c * 0.072 - s * 0.283,
+    0.072 + c * 0.928 + s * 0.072
+  );
+  return clamp(m * color, 0.0, alpha);
+}
+
+void main() {
+  if (v_mode < 4) {
+    vec4 texel;
+    if ((v_mode & 2) != 0) {
+      // Chromatic flash: the channels pull apart and wash toward white.
+      vec2 spread = vec2((v_params.z - v_params.x) * 0.08, 0.0);
+      vec4 red = frameTexel(v_uv + spread);
+      vec4 green = frameTexel(v_uv);
+      vec4 blue = frameTexel(v_uv - spread);
+      float alpha = max(max(red.a, green.a), blue.a);
+      texel = vec4(red.r, green.g, blue.b, alpha);
+      texel.rgb = mix(texel.rgb, vec3(alpha), 0.35);
+    } else {
+      texel = frameTexel(v_uv);
+    }
+    if ((v_mode & 1) != 0) {
+      texel.rgb = rotateHue(texel.rgb, texel.a);
+    }
+    outColor = texel * v_color.a;
+    return;
+  }
+
+  float coverage = 1.0;
+  if (v_mode == 4 || v_mode == 5) {
+    float d = length(v_uv);
+    float aa = fwidth(d);
+    coverage = 1.0 - smoothstep(1.0 - aa, 1.0, d);
+    if (v_mode == 5) {
+      float inner = 1.0 - v_params.z / min(v_params.x, v_params.y);
+      coverage *= smoothstep(inner - aa, inner, d);
+    }
+  } else if (v_mode == 7) {
+    vec2 edge = v_params.xy - abs(v_uv) * v_params.xy;
+    coverage = step(min(edge.x, edge.y), v_params.z);
+    if (v_params.w > 0.0) {
+      // Dashes run along whichever side this pixel is on.
+      float along = edge.x < edge.y ? v_uv.y * v_params.y : v_uv.x * v_params.x;
+      coverage *= step(mod(along, v_params.w * 2.0), v_params.w);
+    }
+  } else if (v_mode == 8) {
+    coverage = pow(max(0.0, 1.0 - length(v_uv)), 2.0);
+  } else if (v_mode == 9) {
+    float angle = atan(v_uv.y, v_uv.x);
+    float offHeading = abs(mod(angle - v_params.z + PI, 2.0 * PI) - PI);
+    coverage = step(length(v_uv), 1.0) * step(offHeading, v_params.w);
+  }
+  outColor = vec4(v_color.rgb, 1.0) * v_color.a * coverage;
+}
+`;
+
+type Rgba = [number, number, number, number];
+
+type Label = { canvas: HTMLCanvasElement; width: number; height: number };
+
+const colors = new Map<string, Rgba>();
+
+// Only the two forms the game uses: "#rrggbb" and "rgba(r, g, b, a)".
+const parseColor = (css: string): Rgba => {
+  const cached = colors.get(css);
+  if (cached) {
+    return cached;
+  }
+  let rgba: Rgba = [1, 1, 1, 1];
+  const hex = /^#([0-9a-f]{6})$/i.exec(css);
+  const functional = /^rgba?\(([^)]+)\)$/.exec(css);
+  if (hex) {
+    const value = parseInt(hex[1]!, 16);
+    rgba = [
+      (value >> 16) / 255,
+      ((value >> 8) & 255) / 255,
+      (value & 255) / 255,
+      1,
+    ];
+  } else if (functional) {
+    const [r = 255, g = 255, b = 255, a = 1] = functional[1]!
+      .split(",")
+      .map(Number);
+    rgba = [r / 255, g / 255, b / 255, a];
+  }
+  colors.set(css, rgba);
+  return rgba;
+};
+
+const compileShader = (
+  gl: WebGL2RenderingContext,
+  type: number,
+  source: string
+) => {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    return null;
+  }
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+};
+
+const createProgram = (gl: WebGL2RenderingContext) => {
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  if (!vertex || !fragment || !program) {
+    return null;
+  }
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  gl.deleteShader(vertex);
+  gl.deleteShader(fragment);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+};
+
+// Whether this browser can run the WebGL renderer at all, tried on a
+// throwaway canvas.
+export const probeWebgl = () => {
+  const gl = document.createElement("canvas").getContext("webgl2");
+  if (!gl) {
+    return false;
+  }
+  const program = createProgram(gl);
+  gl.deleteProgram(program);
+  gl.getExtension("WEBGL_lose_context")?.loseContext();
+  return program !== null;
+};
+
+const sourceSize = (source: HTMLImageElement | HTMLCanvasElement) =>
+  source instanceof HTMLImageElement
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+
+/**
+ * The WebGL2 renderer: every sprite and shape of a frame goes into one
+ * vertex buffer and is drawn in as few calls as texture switches allow.
+ * Shapes are drawn by the shader instead of from geometry, which also adds
+ * a pulsing glow to power-ups and a chromatic flash to whatever just got
+ * hit. Text is baked into small cached textures. Returns null when the
+ * context or the shaders cannot be set up.
+ */
+export const createWebglRenderer = (
+  canvas: HTMLCanvasElement,
+  assets: SceneAssets,
+  onLost?: () => void
+): Renderer | null => {
+  const gl = canvas.getContext("webgl2", { premultipliedAlpha: true });
+  if (!gl) {
+    return null;
+  }
+  const program = createProgram(gl);
+  if (!program) {
+    return null;
+  }
+
+  const vertices = new Float32Array(MAX_QUADS * 4 * FLOATS_PER_VERTEX);
+  const indices = new Uint16Array(MAX_QUADS * 6);
+  for (let quad = 0; quad < MAX_QUADS; quad += 1) {
+    indices.set(
+      [0, 1, 2, 2, 1, 3].map(corner => quad * 4 + corner),
+      quad * 6
+    );
+  }
+
+  const vertexArray = gl.createVertexArray();
+  const vertexBuffer = gl.createBuffer();
+  const indexBuffer = gl.createBuffer();
+  gl.bindVertexArray(vertexArray);
+  gl.bindBuffer(gl.ARRAY_BUFFER, vertexBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, vertices.byteLength, gl.DYNAMIC_DRAW);
+  gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+  gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+  const stride = FLOATS_PER_VERTEX * 4;
+  const attributes: [string, number, number][] = [
+    ["a_position", 2, 0],
+    ["a_uv", 2, 2],
+    ["a_color", 4, 4],
+    ["a_params", 4, 8],
+    ["a_mode", 1, 12],
+  ];
+  for (const [name, size, offset] of attributes) {
+    const location = gl.getAttribLocation(program, name);
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * 4);
+  }
+  gl.bindVertexArray(null);
+
+  const resolutionLocation = gl.getUniformLocation(program, "u_resolution");
+  const textureLocation = gl.getUniformLocation(program, "u_texture");
+
+  let lost = false;
+  const onContextLost = (event: Event) => {
+    event.preventDefault();
+    lost = true;
+    onLost?.();
+  };
+  canvas.addEventListener("webglcontextlost", onContextLost);
+
+  let frameNumber = 0;
+  const textures = new Map<
+    HTMLImageElement | HTMLCanvasElement,
+    { texture: WebGLTexture; usedAt: number }
+  >();
+
+  const textureFor = (source: HTMLImageElement | HTMLCanvasElement) => {
+    const entry = textures.get(source);
+    if (entry) {
+      entry.usedAt = frameNumber;
+      return entry.texture;
+    }
+    const texture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    textures.set(source, { texture, usedAt: frameNumber });
+    // The batch assumes its own texture is still bound.
+    gl.bindTexture(gl.TEXTURE_2D, boundTexture);
+    return texture;
+  };
+
+  const sweepTextures = () => {
+    for (const [source, entry] of textures) {
+      if (frameNumber - entry.usedAt > TEXTURE_IDLE_FRAMES) {
+        gl.deleteTexture(entry.texture);
+        textures.delete(source);
+      }
+    }
+  };
+
+  // Batch state. `offsetX/Y` is the camera shake and `alpha` multiplies
+  // everything pushed, like the 2D context's translate and globalAlpha.
+  let quads = 0;
+  let boundTexture: WebGLTexture | null = null;
+  let offsetX = 0;
+  let offsetY = 0;
+  let alpha = 1;
+
+  const flush = () => {
+    if (quads === 0) {
+      return;
+    }
+    gl.bufferSubData(
+      gl.ARRAY_BUFFER,
+      0,
+      vertices,
+      0,
+      quads * 4 * FLOATS_PER_VERTEX
+    );
+    gl.drawElements(gl.TRIANGLES, quads * 6, gl.UNSIGNED_SHORT, 0);
+    quads = 0;
+  };
+
+  const useTexture = (texture: WebGLTexture) => {
+    if (texture !== boundTexture) {
+      flush();
+      boundTexture = texture;
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+    }
+  };
+
+  const pushQuad = (
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    uv: [number, number, number, number],
+    color: Rgba,
+    params: [number, number, number, number],
+    mode: number
+  ) => {
+    if (quads === MAX_QUADS) {
+      flush();
+    }
+    const [u0, v0, u1, v1] = uv;
+    const [r, g, b, a] = color;
+    const left = x + offsetX;
+    const top = y + offsetY;
+    const corners = [
+      [left, top, u0, v0],
+      [left + width, top, u1, v0],
+      [left, top + height, u0, v1],
+      [left + width, top + height, u1, v1],
+    ];
+    let index = quads * 4 * FLOATS_PER_VERTEX;
+    for (const [cornerX, cornerY, u, v] of corners) {
+      vertices[index++] = cornerX!;
+      vertices[index++] = cornerY!;
+      vertices[index++] = u!;
+      vertices[index++] = v!;
+      vertices[index++] = r;
+      vertices[index++] = g;
+      vertices[index++] = b;
+      vertices[index++] = a * alpha;
+      vertices[index++] = params[0];
+      vertices[index++] = params[1];
+      vertices[index++] = params[2];
+      vertices[index++] = params[3];
+      vertices[index++] = mode;
+    }
+    quads += 1;
+  };
+
+  // Draws the `sx, sy, sw, sh` part of `source` into the given box.
+  const image = (
+    source: HTMLImageElement | HTMLCanvasElement,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    opacity = 1,
+    flags = 0
+  ) => {
+    useTexture(textureFor(source));
+    const size = sourceSize(source);
+    const uv: [number, number, number, number] = [
+      sx / size.width,
+      sy / size.height,
+      (sx + sw) / size.width,
+      (sy + sh) / size.height,
+    ];
+    // Half a texel in, so linear filtering stays inside the frame.
+    const bounds: [number, number, number, number] = [
+      uv[0] + 0.5 / size.width,
+      uv[1] + 0.5 / size.height,
+      uv[2] - 0.5 / size.width,
+      uv[3] - 0.5 / size.height,
+    ];
+    pushQuad(
+      x,
+      y,
+      width,
+      height,
+      uv,
+      [1, 1, 1, opacity],
+      bounds,
+      MODE.sprite | flags
+    );
+  };
+
+  const sprite = (
+    sheet: SpriteSheet,
+    timeMs: number,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    phase: number,
+    opacity = 1,
+    flags = 0
+  ) => {
+    const rect = spriteRect(sheet, timeMs, x, y, width, height, phase);
+    image(
+      sheet.image,
+      rect.sourceX,
+      0,
+      rect.sourceWidth,
+      rect.sourceHeight,
+      rect.x,
+      rect.y,
+      rect.width,
+      rect.height,
+      opacity,
+      flags
+    );
+  };
+
+  // A shape centered on `centerX, centerY` with the given half size.
+  const shape = (
+    mode: number,
+    centerX: number,
+    centerY: number,
+    halfWidth: number,
+    halfHeight: number,
+    color: string,
+    extra: [number, number] = [0, 0]
+  ) => {
+    pushQuad(
+      centerX - halfWidth,
+      centerY - halfHeight,
+      halfWidth * 2,
+      halfHeight * 2,
+      [-1, -1, 1, 1],
+      parseColor(color),
+      [halfWidth, halfHeight, extra[0], extra[1]],
+      mode
+    );
+  };
+
+  const fillRect = (
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: string
+  ) =>
+    shape(
+      MODE.rect,
+      x + width / 2,
+      y + height / 2,
+      width / 2,
+      height / 2,
+      color
+    );
+
+  // Like strokeRect: the line is centered on the rectangle's edge.
+  const strokeRect = (
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: string,
+    lineWidth: number,
+    dash = 0
+  ) =>
+    shape(
+      MODE.frame,
+      x + width / 2,
+      y + height / 2,
+      (width + lineWidth) / 2,
+      (height + lineWidth) / 2,
+      color,
+      [lineWidth, dash]
+    );
+
+  const fillEllipse = (
+    centerX: number,
+    centerY: number,
+    radiusX: number,
+    radiusY: number,
+    color: string
+  ) => shape(MODE.ellipse, centerX, centerY, radiusX, radiusY, color);
+
+  const strokeEllipse = (
+    centerX: number,
+    centerY: number,
+    radiusX: number,
+    radiusY: number,
+    color: string,
+    lineWidth: number
+  ) =>
+    shape(
+      MODE.ring,
+      centerX,
+      centerY,
+      radiusX + lineWidth / 2,
+      radiusY + lineWidth / 2,
+      color,
+      [lineWidth, 0]
+    );
+
+  const measure = document.createElement("canvas").getContext("2d")!;
+  const labels = new Map<string, Label>();
+
+  // Baked at the canvas's resolution, so text is as sharp as in 2D.
+  const labelFor = (
+    text: string,
+    font: string,
+    size: number,
+    color: string
+  ) => {
+    const scale = canvas.width / WIDTH;
+    const key = `${scale}|${font}|${color}|${text}`;
+    const cached = labels.get(key);
+    if (cached) {
+      // Most recently used last, so eviction takes the oldest.
+      labels.delete(key);
+      labels.set(key, cached);
+      return cached;
+    }
+    measure.font = font;
+    const width =
+      Math.ceil(measure.measureText(text).width) + LABEL_PADDING * 2;
+    const height = Math.ceil(size * 1.5);
+    const labelCanvas = document.createElement("canvas");
+    labelCanvas.width = Math.ceil(width * scale);
+    labelCanvas.height = Math.ceil(height * scale);
+    const ctx = labelCanvas.getContext("2d")!;
+    ctx.scale(scale, scale);
+    ctx.font = font;
+    ctx.fillStyle = color;
+    ctx.textBaseline = "middle";
+    ctx.fillText(text, LABEL_PADDING, height / 2);
+    const label = { canvas: labelCanvas, width, height };
+    labels.set(key, label);
+    if (labels.size > MAX_LABELS) {
+      const [oldest] = labels;
+      const evicted = oldest![1].canvas;
+      labels.delete(oldest![0]);
+      const entry = textures.get(evicted);
+      if (entry) {
+        if (entry.texture === boundTexture) {
+          flush();
+          boundTexture = null;
+        }
+        gl.deleteTexture(entry.texture);
+        textures.delete(evicted);
+      }
+    }
+    return label;
+  };
+
+  // `y` is the middle of the text, like `textBaseline = "middle"`.
+  const text = (
+    value: string,
+    x: number,
+    y: number,
+    align: CanvasTextAlign,
+    color: string,
+    font = LABEL_FONT,
+    size = LABEL_FONT_SIZE,
+    opacity = 1
+  ) => {
+    const label = labelFor(value, font, size, color);
+    const left =
+      align === "center"
+        ? x - label.width / 2
+        : align === "right" || align === "end"
+          ? x - label.width + LABEL_PADDING
+          : x - LABEL_PADDING;
+    const { canvas: source } = label;
+    image(
+      source,
+      0,
+      0,
+      source.width,
+      source.height,
+      left,
+      y - label.height / 2,
+      label.width,
+      label.height,
+      opacity
+    );
+  };
+
+  const drawHud = (state: GameView, ghost: GhostView | null) => {
+    for (const item of hudItems(state, ghost)) {
+      if (item.type === "text") {
+        text(
+          item.text,
+          item.x,
+          item.y + HUD_FONT_SIZE / 2,
+          item.align,
+          item.color,
+          HUD_FONT,
+          HUD_FONT_SIZE
+        );
+        continue;
+      }
+      if (item.fill) {
+        fillRect(item.x, item.y, item.width, item.height, item.fill);
+      }
+      if (item.stroke) {
+        strokeRect(item.x, item.y, item.width, item.height, item.stroke, 1);
+      }
+    }
+  };
+
+  const drawEnemy = (enemy: Enemy, nowMs: number) => {
+    sprite(
+      assets.enemy,
+      nowMs,
+      enemy.x,
+      enemy.y,
+      enemy.width,
+      enemy.height,
+      enemy.id,
+      enemy.kind === "shard" ? 0.7 : 1,
+      nowMs < enemy.hitFlashUntil ? MODE.chromaFlag : 0
+    );
+    if (enemy.kind === "armored") {
+      const damaged = enemy.hp <= 1;
+      strokeRect(
+        enemy.x + 2,
+        enemy.y + 2,
+        enemy.width - 4,
+        enemy.height - 4,
+        damaged ? "rgba(244, 195, 122, 0.45)" : "rgba(244, 195, 122, 0.9)",
+        3,
+        damaged ? 6 : 0
+      );
+    }
+    if (enemy.kind === "zigzag") {
+      strokeRect(
+        enemy.x + 6,
+        enemy.y + 6,
+        enemy.width - 12,
+        enemy.height - 12,
+        "rgba(88, 211, 192, 0.7)",
+        2
+      );
+    }
+    if (enemy.kind === "splitter") {
+      strokeRect(
+        enemy.x + 4,
+        enemy.y + 4,
+        enemy.width - 8,
+        enemy.height - 8,
+        "rgba(226, 93, 111, 0.8)",
+        2
+      );
+    }
+    if (enemy.kind === "gunner") {
+      const centerY = enemy.y + enemy.height / 2;
+      const radius = Math.min(enemy.width, enemy.height) * 0.44;
+      fillRect(enemy.x - 10, centerY - 5, 22, 10, "#3a2f3f");
+      strokeRect(
+        enemy.x - 10,
+        centerY - 5,
+        22,
+        10,
+        "rgba(226, 93, 111, 0.9)",
+        2
+      );
+      strokeEllipse(
+        enemy.x + enemy.width / 2,
+        centerY,
+        radius,
+        radius,
+        "rgba(226, 93, 111, 0.9)",
+        2
+      );
+    }
+  };
+
+  const drawBoss = (boss: Boss, nowMs: number) => {
+    sprite(
+      assets.enemy,
+      0,
+      boss.x,
+      boss.y,
+      boss.width,
+      boss.height,
+      0,
+      1,
+      nowMs < boss.hitFlashUntil ? MODE.chromaFlag : 0
+    );
+    for (const weakPoint of BOSS_WEAK_POINTS) {
+      const weakShape = weakPointShape(boss, weakPoint);
+      if (weakShape.type !== "circle") {
+        continue;
+      }
+      const { x, y, radius } = weakShape;
+      const open = isWeakPointOpen(boss, weakPoint);
+      fillEllipse(
+        x,
+        y,
+        radius,
+        radius,
+        open ? "rgba(88, 211, 192, 0.75)" : "rgba(120, 120, 130, 0.55)"
+      );
+      strokeEllipse(
+        x,
+        y,
+        radius,
+        radius,
+        open ? "#58d3c0" : "rgba(247, 241, 230, 0.3)",
+        2
+      );
+      if (open) {
+        // The cone of angles that actually deal damage.
+        const heading = Math.atan2(weakPoint.facingY, weakPoint.facingX);
+        const arc = (weakPoint.arcDegrees * Math.PI) / 180;
+        shape(
+          MODE.sector,
+          x,
+          y,
+          radius * 3,
+          radius * 3,
+          "rgba(88, 211, 192, 0.16)",
+          [heading, arc]
+        );
+      }
+    }
+  };
+
+  const drawPowerUp = (powerUp: PowerUp, nowMs: number) => {
+    const style = POWERUPS[powerUp.kind].style;
+    const centerX = powerUp.x + powerUp.width / 2;
+    const centerY = powerUp.y + powerUp.height / 2;
+    const radius = powerUp.width / 2;
+    const pulse =
+      0.5 + 0.5 * Math.sin((nowMs / POWERUP_GLOW_PERIOD_MS) * Math.PI * 2);
+    const glow = radius * (2 + pulse * 0.6);
+    const previousAlpha = alpha;
+    alpha *= 0.55 + pulse * 0.35;
+    shape(MODE.glow, centerX, centerY, glow, glow, style.stroke);
+    alpha = previousAlpha;
+    fillEllipse(centerX, centerY, radius, radius, style.fill);
+    strokeEllipse(centerX, centerY, radius, radius, style.stroke, 2);
+    text(style.label, centerX, centerY + 1, "center", "#0f1119");
+  };
+
+  const drawEnemyBullet = (bullet: EnemyBullet) => {
+    const centerX = bullet.x + bullet.width / 2;
+    const centerY = bullet.y + bullet.height / 2;
+    const radius = bullet.width / 2;
+    fillEllipse(
+      centerX,
+      centerY,
+      bullet.width,
+      bullet.width,
+      "rgba(226, 93, 111, 0.35)"
+    );
+    fillEllipse(centerX, centerY, radius, radius, "#ffb3a1");
+    strokeEllipse(centerX, centerY, radius, radius, "#e25d6f", 2);
+  };
+
+  const drawToaster = (player: Player, index: number, nowMs: number) => {
+    const invulnerable = nowMs < player.invulnerableUntil;
+    if (invulnerable && Math.floor(nowMs / 120) % 2 === 0) {
+      return;
+    }
+    sprite(
+      assets.player,
+      nowMs,
+      player.x,
+      player.y,
+      player.width,
+      player.height,
+      index * 2,
+      1,
+      // P2 gets a recolored toaster so the two can be told apart.
+      (index > 0 ? MODE.hueFlag : 0) | (invulnerable ? MODE.chromaFlag : 0)
+    );
+    if (player.shield > 0) {
+      strokeEllipse(
+        player.x + player.width / 2,
+        player.y + player.height / 2,
+        player.width * 0.6,
+        player.height * 0.7,
+        "rgba(90, 160, 255, 0.7)",
+        2
+      );
+    }
+  };
+
+  const scrollStarfield = createStarfield(assets.background);
+
+  const draw: Renderer["draw"] = (
+    state,
+    { seed = 0, ghost = null, effects = null } = {}
+  ) => {
+    if (lost || gl.isContextLost()) {
+      return;
+    }
+    const nowMs = state.timeMs;
+    frameNumber += 1;
+
+    gl.viewport(0, 0, canvas.width, canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.useProgram(program);
+    gl.bindVertexArray(vertexArray);
+    gl.bindBuffer(gl.ARRAY_BUFFER, vertexBuffer);
+    gl.uniform2f(resolutionLocation, WIDTH, HEIGHT);
+    gl.uniform1i(textureLocation, 0);
+    gl.activeTexture(gl.TEXTURE0);
+    boundTexture = null;
+    offsetX = 0;
+    offsetY = 0;
+    alpha = 1;
+
+    for (const layer of scrollStarfield(state, seed)) {
+      const { width } = layer.canvas;
+      image(layer.canvas, 0, 0, width, HEIGHT, -layer.offset, 0, width, HEIGHT);
+      image(
+        layer.canvas,
+        0,
+        0,
+        width,
+        HEIGHT,
+        width - layer.offset,
+        0,
+        width,
+        HEIGHT
+      );
+    }
+
+    if (isEffectActive(state, "slow")) {
+      fillRect(0, 0, WIDTH, HEIGHT, "rgba(88, 211, 192, 0.08)");
+    }
+
+    drawHud(state, ghost);
+
+    // Shake moves the playfield only; the backdrop and HUD stay put.
+    if (effects) {
+      offsetX = effects.shake.x;
+      offsetY = effects.shake.y;
+    }
+
+    for (const enemy of state.enemies) {
+      drawEnemy(enemy, nowMs);
+    }
+
+    if (state.boss) {
+      drawBoss(state.boss, nowMs);
+    }
+
+    for (const shot of state.shots) {
+      const size = sourceSize(assets.shot);
+      if (shot.piercing) {
+        shape(
+          MODE.glow,
+          shot.x + shot.width / 2,
+          shot.y + shot.height / 2,
+          shot.width / 2 + 12,
+          shot.height / 2 + 12,
+          "rgba(255, 236, 140, 0.9)"
+        );
+      }
+      image(
+        assets.shot,
+        0,
+        0,
+        size.width,
+        size.height,
+        shot.x,
+        shot.y,
+        shot.width,
+        shot.height
+      );
+    }
+
+    for (const bullet of state.enemyBullets) {
+      drawEnemyBullet(bullet);
+    }
+
+    for (const powerUp of state.powerUps) {
+      drawPowerUp(powerUp, nowMs);
+    }
+
+    // Under the live toasters, so it never hides them. A ghost whose run
+    // already ended has nothing left to show.
+    const ghostPlayer = ghost && !ghost.state.outcome && ghost.state.players[0];
+    if (ghostPlayer) {
+      alpha = GHOST_ALPHA;
+      drawToaster(ghostPlayer, 0, ghost.state.timeMs);
+      alpha = 1;
+    }
+
+    state.players.forEach((player, index) => {
+      drawToaster(player, index, nowMs);
+    });
+
+    effects?.forEachParticle((x, y, size, color, opacity) => {
+      alpha = opacity;
+      fillRect(x - size / 2, y - size / 2, size, size, color);
+    });
+    alpha = 1;
+    effects?.forEachFloater((value, x, y, color, opacity) =>
+      text(value, x, y, "center", color, FLOATER_FONT, LABEL_FONT_SIZE, opacity)
+    );
+
+    flush();
+    if (frameNumber % 60 === 0) {
+      sweepTextures();
+    }
+  };
+
+  return {
+    kind: "webgl",
+    draw,
+    dispose: () => {
+      canvas.removeEventListener("webglcontextlost", onContextLost);
+      if (gl.isContextLost()) {
+        return;
+      }
+      for (const entry of textures.values()) {
+        gl.deleteTexture(entry.texture);
+      }
+      textures.clear();
+      labels.clear();
+      gl.deleteBuffer(vertexBuffer);
+      gl.deleteBuffer(indexBuffer);
+      gl.deleteVertexArray(vertexArray);
+      gl.deleteProgram(program);
+    },
+  };
+};